@@ -0,0 +1,263 @@
+import { parseUpdatePaths } from "./helpers/updateOperators.js";
+import { hideChangedFields, hideRemovedFields } from "./helpers/changedFields.js";
+
+import ValidateError from "./errors/validateError.js";
+
+import type { Model } from "./model.js";
+import type {
+    BSON,
+    WithId,
+    ResumeToken,
+    ChangeStream,
+    ChangeStreamOptions,
+    ChangeStreamDocument,
+    ChangeStreamInsertDocument,
+    ChangeStreamDeleteDocument,
+    ChangeStreamReplaceDocument,
+} from "mongodb";
+import type {
+    InvalidDocument,
+    MGChangeStreamOptions,
+    MGChangeStreamDocument,
+    InvalidDocumentBehavior,
+    ChangeStreamCheckpointStore,
+    MGChangeStreamUpdateDocument,
+} from "./types.js";
+
+/** A handler of the change events of a model, registered with `onInsert()`, `onUpdate()`, etc. */
+type ChangeHandler<Type extends BSON.Document> = (event: MGChangeStreamDocument<Type>) => void | Promise<void>;
+
+/**
+ * A typed change stream over the collection of a model, created with `Model.watch()`.
+ *
+ * The stream is opened lazily, when the first event is requested. The documents of the events are decrypted,
+ * upgraded to the current schema version, validated when the `validate` option (defaulting to the model's `checkOnGet` option) is enabled, and the model's
+ * `hiddenFields` are removed from them.
+ *
+ * With the `checkpoint` option, the stream resumes after the last processed event saved in the checkpoint store.
+ * The resume token of an event is saved once the next event is requested, so events are processed at least once.
+ *
+ * @template Type - The type of the model's documents.
+ *
+ * @example
+ * const stream = UserModel.watch([{ $match: { operationType: "insert" } }]);
+ * for await (const event of stream) await sendWelcomeEmail(event.fullDocument);
+ *
+ * @example
+ * // Resume the stream after a restart.
+ * const checkpoint = { store: new CollectionCheckpointStore(db.collection("checkpoints")), key: "user-sync" };
+ * await UserModel.watch([], { checkpoint, fullDocument: "updateLookup" })
+ *     .onInsert((user) => index(user))
+ *     .onUpdate((event) => index(event.fullDocument))
+ *     .onDelete((id) => unindex(id))
+ *     .listen();
+ */
+export class ModelChangeStream<Type extends WithId<Record<string | number, unknown>>>
+    implements AsyncIterable<MGChangeStreamDocument<Type>>
+{
+    private _model: Model<Type, any>;
+    private _pipeline: BSON.Document[];
+    private _options: ChangeStreamOptions;
+    private _validate: boolean;
+    private _onInvalid: InvalidDocumentBehavior;
+    private _checkpoint?: { store: ChangeStreamCheckpointStore; key: string };
+    private _stream?: ChangeStream<Type, ChangeStreamDocument<Type>>;
+    private _resumeToken?: ResumeToken;
+    private _pendingToken?: ResumeToken;
+    private _handlers: Map<string, ChangeHandler<Type>[]> = new Map();
+    private _invalid: InvalidDocument[] = [];
+    private _closed: boolean = false;
+
+    constructor(model: Model<Type, any>, pipeline: BSON.Document[] = [], options: MGChangeStreamOptions = {}) {
+        const { validate, onInvalid, checkpoint, ...streamOptions } = options;
+
+        this._model = model;
+        this._pipeline = pipeline;
+        this._options = streamOptions;
+        this._validate = validate ?? model.options.checkOnGet;
+        this._onInvalid = onInvalid ?? "throw";
+        if (checkpoint) this._checkpoint = { store: checkpoint.store, key: checkpoint.key ?? model.name };
+    }
+
+    /** A getter for the resume token of the last event returned by the stream. */
+    public get resumeToken(): ResumeToken | undefined {
+        return this._resumeToken;
+    }
+
+    /** A getter for the invalid events collected with the `onInvalid: "collect"` behavior. */
+    public get invalid(): readonly InvalidDocument[] {
+        return this._invalid;
+    }
+
+    /** A getter for whether the stream is closed. */
+    public get closed(): boolean {
+        return this._closed;
+    }
+
+    /**
+     * Returns the next event of the stream, waiting for it if needed, or `null` if the stream is closed.
+     * The resume token of the previous event is saved to the checkpoint store first.
+     *
+     * @throws {ValidateError} If an event is invalid and the `onInvalid` behavior is `throw`.
+     */
+    public async next(): Promise<MGChangeStreamDocument<Type> | null> {
+        const stream = await this.open();
+
+        while (!this._closed) {
+            await this.commit();
+
+            const event = await this.fetch(stream);
+            if (!event) break;
+
+            const result = await this.process(event);
+            this._pendingToken = event._id;
+            if (result === undefined) continue;
+
+            this._resumeToken = event._id;
+            return result;
+        }
+
+        return null;
+    }
+
+    /** Iterates over the events of the stream, closing it when the iteration ends. */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<MGChangeStreamDocument<Type>> {
+        try {
+            for (let event = await this.next(); event !== null; event = await this.next()) yield event;
+        } finally {
+            await this.close();
+        }
+    }
+
+    /** Registers a handler of the `insert` events, receiving the inserted document. */
+    public onInsert(handler: (doc: Type, event: ChangeStreamInsertDocument<Type>) => void | Promise<void>): this {
+        return this.on("insert", (event) => {
+            const inserted = event as ChangeStreamInsertDocument<Type>;
+            return handler(inserted.fullDocument, inserted);
+        });
+    }
+
+    /** Registers a handler of the `update` events. */
+    public onUpdate(handler: (event: MGChangeStreamUpdateDocument<Type>) => void | Promise<void>): this {
+        return this.on("update", (event) => handler(event as MGChangeStreamUpdateDocument<Type>));
+    }
+
+    /** Registers a handler of the `replace` events, receiving the replacement document. */
+    public onReplace(handler: (doc: Type, event: ChangeStreamReplaceDocument<Type>) => void | Promise<void>): this {
+        return this.on("replace", (event) => {
+            const replaced = event as ChangeStreamReplaceDocument<Type>;
+            return handler(replaced.fullDocument, replaced);
+        });
+    }
+
+    /** Registers a handler of the `delete` events, receiving the `_id` of the deleted document. */
+    public onDelete(handler: (id: Type["_id"], event: ChangeStreamDeleteDocument<Type>) => void | Promise<void>): this {
+        return this.on("delete", (event) => {
+            const deleted = event as ChangeStreamDeleteDocument<Type>;
+            return handler(deleted.documentKey._id, deleted);
+        });
+    }
+
+    /**
+     * Consumes the stream, running the registered handlers for each event in order.
+     * Resolves when the stream is closed, and rejects (closing the stream) if a handler throws.
+     */
+    public async listen(): Promise<void> {
+        for await (const event of this)
+            for (const handler of this._handlers.get(event.operationType) ?? []) await handler(event);
+    }
+
+    /** Closes the stream, releasing its server-side resources. */
+    public async close(): Promise<void> {
+        this._closed = true;
+        await this._stream?.close();
+    }
+
+    /** Opens the driver change stream, resuming from the checkpoint store if configured. */
+    private async open(): Promise<ChangeStream<Type, ChangeStreamDocument<Type>>> {
+        if (this._stream) return this._stream;
+
+        const options = { ...this._options };
+        if (this._checkpoint && !options.resumeAfter && !options.startAfter && !options.startAtOperationTime) {
+            const token = await this._checkpoint.store.load(this._checkpoint.key);
+            if (token) options.resumeAfter = token;
+        }
+
+        this._stream = this._model.collection.watch<Type, ChangeStreamDocument<Type>>(this._pipeline, options);
+        return this._stream;
+    }
+
+    /** Fetches the next driver event, or `null` if the stream was closed while waiting. */
+    private async fetch(
+        stream: ChangeStream<Type, ChangeStreamDocument<Type>>
+    ): Promise<ChangeStreamDocument<Type> | null> {
+        try {
+            return (await stream.next()) ?? null;
+        } catch (err) {
+            if (this._closed) return null;
+            throw err;
+        }
+    }
+
+    /** Saves the resume token of the last processed event to the checkpoint store. */
+    private async commit(): Promise<void> {
+        if (!this._checkpoint || this._pendingToken === undefined) return;
+
+        await this._checkpoint.store.save(this._checkpoint.key, this._pendingToken);
+        this._pendingToken = undefined;
+    }
+
+    private on(operationType: string, handler: ChangeHandler<Type>): this {
+        this._handlers.set(operationType, [...(this._handlers.get(operationType) ?? []), handler]);
+        return this;
+    }
+
+    /**
+     * Decrypts and validates the documents of the event, and removes their hidden fields.
+     * Returns `undefined` if the event is skipped.
+     */
+    private async process(event: ChangeStreamDocument<Type>): Promise<MGChangeStreamDocument<Type> | undefined> {
+        try {
+            if ("fullDocument" in event && event.fullDocument)
+                event.fullDocument = await this.processDocument(event.fullDocument);
+            if ("fullDocumentBeforeChange" in event && event.fullDocumentBeforeChange)
+                event.fullDocumentBeforeChange = await this.processDocument(event.fullDocumentBeforeChange);
+            if (event.operationType === "update") await this.processUpdateDescription(event.updateDescription);
+
+            return event as MGChangeStreamDocument<Type>;
+        } catch (err) {
+            if (!(err instanceof ValidateError) || this._onInvalid === "throw") throw err;
+            if (this._onInvalid === "collect") this._invalid.push({ document: event, error: err });
+
+            return undefined;
+        }
+    }
+
+    private async processDocument(doc: Type): Promise<Type> {
+        doc = this._model.upgradeDocument(this._model.decryptFields(doc));
+        const parsed = this._validate ? await this._model.parse(doc, { isStrict: false }) : doc;
+        return this._model.hideFields(parsed as Type) as Type;
+    }
+
+    /**
+     * Decrypts and validates the updated fields against the schema of the fields they target, and removes the hidden ones.
+     *
+     * @throws {ValidateError} If an updated field is invalid.
+     */
+    private async processUpdateDescription(
+        description: MGChangeStreamUpdateDocument<BSON.Document>["updateDescription"]
+    ) {
+        const hiddenFields = this._model.options.hiddenFields as string[];
+        let updatedFields = this._model.decryptFields((description.updatedFields ?? {}) as Record<string, unknown>);
+
+        if (this._validate) {
+            const { paths, issues } = await parseUpdatePaths(this._model.schema, updatedFields);
+            if (issues.length > 0) throw new ValidateError(this._model.name, issues);
+            updatedFields = paths;
+        }
+
+        if (description.updatedFields) description.updatedFields = hideChangedFields(updatedFields, hiddenFields);
+        if (description.removedFields)
+            description.removedFields = hideRemovedFields(description.removedFields, hiddenFields);
+    }
+}
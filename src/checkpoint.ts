@@ -0,0 +1,45 @@
+import type { Collection, ResumeToken } from "mongodb";
+import type { ChangeStreamCheckpointStore } from "./types.js";
+
+/** The document storing the resume token of a change stream in a `CollectionCheckpointStore`. */
+export type CheckpointDocument = { _id: string; token: ResumeToken; updatedAt: Date };
+
+/**
+ * A checkpoint store keeping the resume tokens of change streams in memory.
+ * Tokens are lost when the process exits, so this store is mostly useful for tests.
+ */
+export class MemoryCheckpointStore implements ChangeStreamCheckpointStore {
+    private _tokens: Map<string, ResumeToken> = new Map();
+
+    public async load(key: string): Promise<ResumeToken | undefined> {
+        return this._tokens.get(key);
+    }
+
+    public async save(key: string, token: ResumeToken): Promise<void> {
+        this._tokens.set(key, token);
+    }
+}
+
+/**
+ * A checkpoint store keeping the resume tokens of change streams in a collection, one document per stream key.
+ *
+ * @example
+ * const store = new CollectionCheckpointStore(mongooat.getBase().db().collection("checkpoints"));
+ * UserModel.watch([], { checkpoint: { store, key: "user-sync" } });
+ */
+export class CollectionCheckpointStore implements ChangeStreamCheckpointStore {
+    private _collection: Collection<CheckpointDocument>;
+
+    constructor(collection: Collection<CheckpointDocument>) {
+        this._collection = collection;
+    }
+
+    public async load(key: string): Promise<ResumeToken | undefined> {
+        const doc = await this._collection.findOne({ _id: key });
+        return doc?.token;
+    }
+
+    public async save(key: string, token: ResumeToken): Promise<void> {
+        await this._collection.updateOne({ _id: key }, { $set: { token, updatedAt: new Date() } }, { upsert: true });
+    }
+}
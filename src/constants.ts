@@ -39,3 +39,20 @@ export const INVALID_ZOD_TYPES = [z.ZodVoid, z.ZodPromise, z.ZodFunction];
 
 /** Invalid `_id` Zod types */
 export const INVALID_ID_ZOD_TYPES = [z.ZodArray, z.ZodTuple, z.ZodUndefined, z.ZodUnknown, z.ZodOptional];
+
+/** The update operators supported by model updates, besides the `$set` and `$unset` derived from the update data. */
+export const UPDATE_OPERATORS = [
+    "$inc",
+    "$mul",
+    "$min",
+    "$max",
+    "$push",
+    "$addToSet",
+    "$pull",
+    "$pop",
+    "$rename",
+    "$currentDate",
+] as const;
+
+/** The aggregation stages that must be the first stage of a pipeline. */
+export const FIRST_STAGE_OPERATORS = ["$geoNear", "$search", "$vectorSearch"] as const;
@@ -0,0 +1,124 @@
+import { Readable } from "node:stream";
+import { getHiddenExcludedPaths } from "./helpers/hiddenFields.js";
+
+import ValidateError from "./errors/validateError.js";
+
+import type { Model } from "./model.js";
+import type { BSON, WithId, FindCursor } from "mongodb";
+import type { ObjectKeyPaths, InvalidDocument, InvalidDocumentBehavior } from "./types.js";
+
+/**
+ * A cursor over the documents of a model, created with `Model.findCursor()`.
+ *
+ * Documents are fetched in batches and processed lazily: each document is decrypted, upgraded to the current schema
+ * version (in memory only), validated when the `checkOnGet` option is enabled, and the model's `hiddenFields` are
+ * removed from it.
+ *
+ * @template Type - The type of the model's documents.
+ * @template Result - The type of the documents returned by the cursor.
+ *
+ * @example
+ * const cursor = UserModel.findCursor({}, { batchSize: 1000, onInvalid: "collect" });
+ * for await (const user of cursor) await exportUser(user);
+ *
+ * console.log(`${cursor.invalid.length} invalid documents`);
+ */
+export class ModelCursor<Type extends WithId<Record<string | number, unknown>>, Result = Type>
+    implements AsyncIterable<Result>
+{
+    private _model: Model<Type, any>;
+    private _cursor: FindCursor<Type>;
+    private _onInvalid: InvalidDocumentBehavior;
+    private _partialFields: ObjectKeyPaths<Type>[];
+    private _hiddenFields: ObjectKeyPaths<Type>[];
+    private _invalid: InvalidDocument[] = [];
+
+    constructor(
+        model: Model<Type, any>,
+        cursor: FindCursor<Type>,
+        options: {
+            onInvalid?: InvalidDocumentBehavior;
+            projection?: BSON.Document;
+            hiddenFields?: ObjectKeyPaths<Type>[];
+        } = {}
+    ) {
+        this._model = model;
+        this._cursor = cursor;
+        this._onInvalid = options.onInvalid ?? "throw";
+        this._hiddenFields = options.hiddenFields ?? model.options.hiddenFields;
+        this._partialFields = getHiddenExcludedPaths(
+            model.schema,
+            options.projection,
+            this._hiddenFields as string[]
+        ) as ObjectKeyPaths<Type>[];
+    }
+
+    /**
+     * A getter for the invalid documents collected with the `onInvalid: "collect"` behavior,
+     * without their hidden fields.
+     */
+    public get invalid(): readonly InvalidDocument[] {
+        return this._invalid;
+    }
+
+    /**
+     * Returns the next document of the cursor, or `null` if the cursor is exhausted.
+     *
+     * @throws {ValidateError} If a document is invalid and the `onInvalid` behavior is `throw`.
+     */
+    public async next(): Promise<Result | null> {
+        for (let doc = await this._cursor.next(); doc; doc = await this._cursor.next()) {
+            const result = await this.process(doc);
+            if (result !== undefined) return result;
+        }
+
+        return null;
+    }
+
+    /** Iterates over the documents of the cursor, closing it when the iteration ends. */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<Result> {
+        try {
+            for (let doc = await this.next(); doc !== null; doc = await this.next()) yield doc;
+        } finally {
+            await this.close();
+        }
+    }
+
+    /**
+     * Returns a Node.js `Readable` stream (in object mode) of the documents of the cursor.
+     * Invalid documents with the `onInvalid: "throw"` behavior destroy the stream with the `ValidateError`.
+     *
+     * @example
+     * await pipeline(UserModel.findCursor().stream(), toNdjson, createWriteStream("users.ndjson"));
+     */
+    public stream(): Readable {
+        return Readable.from(this);
+    }
+
+    /** Closes the cursor, releasing its server-side resources. */
+    public async close(): Promise<void> {
+        await this._cursor.close();
+    }
+
+    /**
+     * Decrypts, upgrades and validates the document, and removes its hidden fields. Returns `undefined` if the document
+     * is skipped.
+     */
+    private async process(doc: Type): Promise<Result | undefined> {
+        doc = this._model.decryptFields(doc);
+
+        try {
+            doc = this._model.upgradeDocument(doc, this._partialFields.length > 0);
+            if (!this._model.options.checkOnGet) return this._model.hideFields(doc, this._hiddenFields) as Result;
+
+            const parsed = await this._model.parse(doc, { isStrict: false, partialFields: this._partialFields });
+            return this._model.hideFields(parsed as Type, this._hiddenFields) as Result;
+        } catch (err) {
+            if (!(err instanceof ValidateError) || this._onInvalid === "throw") throw err;
+            if (this._onInvalid === "collect")
+                this._invalid.push({ document: this._model.hideFields(doc, this._hiddenFields), error: err });
+
+            return undefined;
+        }
+    }
+}
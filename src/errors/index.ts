@@ -6,5 +6,24 @@ import ValidationError from "./validateError.js";
 import ModelExistedError from "./modelExisted.js";
 import MethodExistedError from "./methodExisted.js";
 import MethodNotFoundError from "./methodNotFound.js";
+import MigrationLockedError from "./migrationLocked.js";
+import MissingQueryPathError from "./missingQueryPath.js";
+import InvalidMigrationError from "./invalidMigration.js";
+import MigrationChecksumError from "./migrationChecksum.js";
+import InvalidCursorTokenError from "./invalidCursorToken.js";
+import InvalidEncryptionKeyError from "./invalidEncryptionKey.js";
 
-export { DBNotSetError, MongooatError, ValidationError, ModelExistedError, MethodExistedError, MethodNotFoundError };
+export {
+    DBNotSetError,
+    MongooatError,
+    ValidationError,
+    ModelExistedError,
+    MethodExistedError,
+    MethodNotFoundError,
+    MissingQueryPathError,
+    InvalidCursorTokenError,
+    InvalidEncryptionKeyError,
+    MigrationLockedError,
+    MigrationChecksumError,
+    InvalidMigrationError,
+};
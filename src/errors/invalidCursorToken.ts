@@ -0,0 +1,13 @@
+import MongooatError from "./mongooatError.js";
+
+/**
+ * Thrown when a pagination cursor token is invalid.
+ *
+ * @extends MongooatError
+ * @param {string} reason - The reason why the token is invalid.
+ */
+export default class InvalidCursorTokenError extends MongooatError {
+    constructor(reason: string) {
+        super(`Invalid cursor token: ${reason}`);
+    }
+}
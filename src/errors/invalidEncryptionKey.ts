@@ -0,0 +1,14 @@
+import MongooatError from "./mongooatError.js";
+
+/**
+ * Thrown when an encryption key is missing from the key provider or is invalid.
+ *
+ * @extends MongooatError
+ * @param {string} keyId - The id of the key.
+ * @param {string} reason - The reason why the key is invalid.
+ */
+export default class InvalidEncryptionKeyError extends MongooatError {
+    constructor(keyId: string, reason: string) {
+        super(`Invalid encryption key '${keyId}': ${reason}`);
+    }
+}
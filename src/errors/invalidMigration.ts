@@ -0,0 +1,14 @@
+import MongooatError from "./mongooatError.js";
+
+/**
+ * Thrown when a migration is invalid (e.g. a duplicate version), or cannot be rolled back.
+ *
+ * @extends MongooatError
+ * @param {string} version - The version of the migration.
+ * @param {string} reason - The reason why the migration is invalid.
+ */
+export default class InvalidMigrationError extends MongooatError {
+    constructor(version: string, reason: string) {
+        super(`Invalid migration '${version}': ${reason}`);
+    }
+}
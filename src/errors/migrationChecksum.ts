@@ -0,0 +1,13 @@
+import MongooatError from "./mongooatError.js";
+
+/**
+ * Thrown when an applied migration was modified since it was applied (its checksum changed).
+ *
+ * @extends MongooatError
+ * @param {string} version - The version of the migration.
+ */
+export default class MigrationChecksumError extends MongooatError {
+    constructor(version: string) {
+        super(`Migration '${version}' was modified after it was applied.`);
+    }
+}
@@ -0,0 +1,15 @@
+import MongooatError from "./mongooatError.js";
+
+/**
+ * Thrown when migrations are run while another process holds the migration lock.
+ *
+ * @extends MongooatError
+ * @param {Date} lockedAt - The date the lock was acquired.
+ */
+export default class MigrationLockedError extends MongooatError {
+    lockedAt: Date;
+    constructor(lockedAt: Date) {
+        super(`Migrations are locked by another process since ${lockedAt.toISOString()}.`);
+        this.lockedAt = lockedAt;
+    }
+}
@@ -0,0 +1,13 @@
+import MongooatError from "./mongooatError.js";
+
+/**
+ * Thrown when a query condition is applied without selecting a path with `where()`.
+ *
+ * @extends MongooatError
+ * @param {string} operator - The query operator that was attempted to be applied.
+ */
+export default class MissingQueryPathError extends MongooatError {
+    constructor(operator: string) {
+        super(`A path must be selected with 'where()' before applying the '${operator}' condition.`);
+    }
+}
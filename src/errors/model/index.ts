@@ -1,5 +1,27 @@
 import InvalidSchemaError from "./invalidSchema.js";
+import InvalidRefPathError from "./invalidRefPath.js";
+import InvalidFilterPathError from "./invalidFilterPath.js";
+import InvalidIndexPathError from "./invalidIndexPath.js";
+import VersionConflictError from "./versionConflict.js";
 import MissingModelNameError from "./missingModelName.js";
+import OperationAbortedError from "./operationAborted.js";
 import IdFieldNotAllowedError from "./idFieldNotAllowed.js";
+import MissingKeyProviderError from "./missingKeyProvider.js";
+import UnsupportedSchemaError from "./unsupportedSchema.js";
+import InvalidUpgradeChainError from "./invalidUpgradeChain.js";
+import InvalidDiscriminatorError from "./invalidDiscriminator.js";
 
-export { InvalidSchemaError, MissingModelNameError, IdFieldNotAllowedError };
+export {
+    InvalidSchemaError,
+    InvalidRefPathError,
+    MissingModelNameError,
+    IdFieldNotAllowedError,
+    OperationAbortedError,
+    InvalidFilterPathError,
+    InvalidIndexPathError,
+    VersionConflictError,
+    MissingKeyProviderError,
+    UnsupportedSchemaError,
+    InvalidUpgradeChainError,
+    InvalidDiscriminatorError,
+};
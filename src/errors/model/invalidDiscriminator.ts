@@ -0,0 +1,15 @@
+import MongooatError from "../mongooatError.js";
+
+/**
+ * Thrown when a discriminator sub-model is requested from a model that is not discriminated,
+ * or for a value that is not one of the discriminator values of the model.
+ *
+ * @extends MongooatError
+ * @param {string} model - The name of the model.
+ * @param {string} reason - The reason why the discriminator is invalid.
+ */
+export default class InvalidDiscriminatorError extends MongooatError {
+    constructor(model: string, reason: string) {
+        super(`Invalid discriminator of model '${model}': ${reason}`);
+    }
+}
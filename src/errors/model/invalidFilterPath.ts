@@ -0,0 +1,14 @@
+import MongooatError from "../mongooatError.js";
+
+/**
+ * Thrown when a filter references a path that does not exist in the schema of the model (in strict filter mode).
+ *
+ * @extends MongooatError
+ * @param {string} path - The path of the filter that does not exist.
+ * @param {string} model - The name of the model being queried.
+ */
+export default class InvalidFilterPathError extends MongooatError {
+    constructor(path: string, model: string) {
+        super(`Path '${path}' does not exist in the schema of model '${model}'.`);
+    }
+}
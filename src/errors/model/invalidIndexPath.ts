@@ -0,0 +1,14 @@
+import MongooatError from "../mongooatError.js";
+
+/**
+ * Thrown when an index references a path that does not exist in the schema of the model.
+ *
+ * @extends MongooatError
+ * @param {string} path - The path of the index that does not exist.
+ * @param {string} model - The name of the model.
+ */
+export default class InvalidIndexPathError extends MongooatError {
+    constructor(path: string, model: string) {
+        super(`Index path '${path}' does not exist in the schema of model '${model}'.`);
+    }
+}
@@ -0,0 +1,14 @@
+import MongooatError from "../mongooatError.js";
+
+/**
+ * Thrown when a path to populate does not reference another model.
+ *
+ * @extends MongooatError
+ * @param {string} path - The path that was attempted to be populated.
+ * @param {string} model - The name of the model being populated.
+ */
+export default class InvalidRefPathError extends MongooatError {
+    constructor(path: string, model: string) {
+        super(`Path '${path}' of model '${model}' is not a reference and cannot be populated.`);
+    }
+}
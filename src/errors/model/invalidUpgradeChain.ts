@@ -0,0 +1,14 @@
+import MongooatError from "../mongooatError.js";
+
+/**
+ * Thrown when the `schemaVersion` option of a model does not upgrade every previous version to the next one.
+ *
+ * @extends MongooatError
+ * @param {string} model - The name of the model.
+ * @param {string} reason - The reason why the upgrade chain is invalid.
+ */
+export default class InvalidUpgradeChainError extends MongooatError {
+    constructor(model: string, reason: string) {
+        super(`Invalid schema upgrades of model '${model}': ${reason}`);
+    }
+}
@@ -0,0 +1,13 @@
+import MongooatError from "../mongooatError.js";
+
+/**
+ * Thrown when a model has encrypted fields but no encryption key provider.
+ *
+ * @extends MongooatError
+ * @param {string} model - The name of the model.
+ */
+export default class MissingKeyProviderError extends MongooatError {
+    constructor(model: string) {
+        super(`Model '${model}' has encrypted fields, but no key provider was set in the 'encryption' option.`);
+    }
+}
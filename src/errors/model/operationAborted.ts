@@ -0,0 +1,14 @@
+import MongooatError from "../mongooatError.js";
+
+/**
+ * Thrown when a pre hook aborts an operation.
+ *
+ * @extends MongooatError
+ * @param {string} operation - The name of the operation that was aborted.
+ * @param {string} model - The name of the model running the operation.
+ */
+export default class OperationAbortedError extends MongooatError {
+    constructor(operation: string, model: string) {
+        super(`Operation '${operation}' was aborted by a pre hook in model '${model}'.`);
+    }
+}
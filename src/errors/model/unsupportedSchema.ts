@@ -0,0 +1,23 @@
+import MongooatError from "../mongooatError.js";
+import { UnsupportedSchemaMap } from "../../types.js";
+
+/**
+ * Thrown when parts of the schema of a model cannot be compiled into a `$jsonSchema` validator.
+ *
+ * @extends MongooatError
+ * @param {string} name - The name of the model.
+ * @param {UnsupportedSchemaMap} errorMap - The key paths of the unsupported schemas, with the reasons.
+ */
+export default class UnsupportedSchemaError extends MongooatError {
+    public modelName: string;
+    public errorMap: UnsupportedSchemaMap;
+    constructor(name: string, errorMap: UnsupportedSchemaMap) {
+        super(
+            `Schema of model '${name}' cannot be compiled into a validator: ${errorMap
+                .map((item) => `'${item.path}' (${item.reason})`)
+                .join(", ")}`
+        );
+        this.modelName = name;
+        this.errorMap = errorMap;
+    }
+}
@@ -0,0 +1,21 @@
+import MongooatError from "../mongooatError.js";
+
+/**
+ * Thrown when a write expects a version of a document that is not the stored one (optimistic concurrency control).
+ *
+ * @extends MongooatError
+ * @param {string} model - The name of the model being written.
+ * @param {number} expectedVersion - The version expected by the write.
+ * @param {number} currentVersion - The version currently stored.
+ */
+export default class VersionConflictError extends MongooatError {
+    expectedVersion: number;
+    currentVersion: number;
+    constructor(model: string, expectedVersion: number, currentVersion: number) {
+        super(
+            `Version conflict on model '${model}': expected version ${expectedVersion}, but the stored version is ${currentVersion}.`
+        );
+        this.expectedVersion = expectedVersion;
+        this.currentVersion = currentVersion;
+    }
+}
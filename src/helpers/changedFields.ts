@@ -0,0 +1,53 @@
+import { deleteField } from "./deleteField.js";
+import { DEFAULT_ARRAY_PLACEHOLDER } from "../constants.js";
+
+/**
+ * Removes the hidden fields from the fields changed by an update event.
+ * Changed paths are reported with array indexes (e.g. `items.0.secret`), and match the hidden paths
+ * with array placeholders (e.g. `items.<idx>.secret`). Hidden fields nested in a changed value are deleted from it.
+ *
+ * **Note:** The changed values are modified in place.
+ *
+ * @param {Record<string, unknown>} fields - The changed fields, by dot-notation path.
+ * @param {string[]} hiddenFields - The hidden key paths of the model.
+ *
+ * @returns {Record<string, unknown>} The changed fields without the hidden ones.
+ */
+export function hideChangedFields(fields: Record<string, unknown>, hiddenFields: string[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const [path, value] of Object.entries(fields)) {
+        const keyPath = toKeyPath(path);
+        if (isHiddenPath(keyPath, hiddenFields)) continue;
+
+        for (const hidden of hiddenFields)
+            if (hidden.startsWith(`${keyPath}.`) && typeof value === "object" && value !== null)
+                deleteField(value as Record<string, unknown>, hidden.slice(keyPath.length + 1));
+
+        result[path] = value;
+    }
+
+    return result;
+}
+
+/**
+ * Removes the hidden fields from the paths removed by an update event.
+ *
+ * @param {string[]} paths - The removed paths, in dot-notation.
+ * @param {string[]} hiddenFields - The hidden key paths of the model.
+ */
+export function hideRemovedFields(paths: string[], hiddenFields: string[]): string[] {
+    return paths.filter((path) => !isHiddenPath(toKeyPath(path), hiddenFields));
+}
+
+/** Replaces the array indexes of a path with the array placeholder. */
+function toKeyPath(path: string): string {
+    return path
+        .split(".")
+        .map((key) => (/^\d+$/.test(key) ? DEFAULT_ARRAY_PLACEHOLDER : key))
+        .join(".");
+}
+
+function isHiddenPath(keyPath: string, hiddenFields: string[]): boolean {
+    return hiddenFields.some((hidden) => keyPath === hidden || keyPath.startsWith(`${hidden}.`));
+}
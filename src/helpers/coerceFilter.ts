@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { BSON, ObjectId } from "mongodb";
+import { isZodRef } from "../schemas/ref.js";
+import { unwrapZodType } from "./unwrapZodType.js";
+import { getSchemaAtPath } from "./getSchemaAtPath.js";
+import { ZodObjectId } from "../schemas/objectId.js";
+import { ZodDecimal128 } from "../schemas/decimal128.js";
+
+/** Matches the hexadecimal string representation of an ObjectId. */
+const OBJECT_ID_REGEX = /^[0-9a-fA-F]{24}$/;
+
+/** The comparison operators whose operand is a single value of the field. */
+const VALUE_OPERATORS = ["$eq", "$ne", "$gt", "$gte", "$lt", "$lte"];
+
+/** The comparison operators whose operand is a list of values of the field. */
+const LIST_OPERATORS = ["$in", "$nin", "$all"];
+
+/** The logical operators whose operand is a list of filters. */
+const LOGICAL_OPERATORS = ["$and", "$or", "$nor"];
+
+/**
+ * Walks a filter against the schema, coercing the values of `ZodObjectId` (and `ZodRef`) fields from strings
+ * to `ObjectId`, and the values of `ZodDecimal128` fields from strings and numbers to `Decimal128`.
+ * Values are coerced inside the `$eq`, `$ne`, `$gt`, `$gte`, `$lt`, `$lte`, `$in`, `$nin`, `$all`, `$not`
+ * and `$elemMatch` operators, and inside the `$and`, `$or` and `$nor` branches.
+ *
+ * @param {z.ZodTypeAny} schema - The schema of the model.
+ * @param {BSON.Document} filter - The filter to coerce.
+ *
+ * @returns The coerced filter, and the paths of the filter that do not exist in the schema.
+ *
+ * @example
+ * coerceFilter(schema, { orgId: { $in: ["64b175497dc71570edd625d2"] } });
+ * // { filter: { orgId: { $in: [new ObjectId("64b175497dc71570edd625d2")] } }, unknownPaths: [] }
+ */
+export function coerceFilter(
+    schema: z.ZodTypeAny,
+    filter: BSON.Document
+): { filter: BSON.Document; unknownPaths: string[] } {
+    const unknownPaths: string[] = [];
+    return { filter: walkFilter(schema, filter, "", unknownPaths), unknownPaths };
+}
+
+/** Coerces the conditions of a filter, whose paths are relative to the specified schema. */
+function walkFilter(
+    schema: z.ZodTypeAny,
+    filter: BSON.Document,
+    prefix: string,
+    unknownPaths: string[]
+): BSON.Document {
+    const result: BSON.Document = {};
+
+    for (const [key, value] of Object.entries(filter)) {
+        if (LOGICAL_OPERATORS.includes(key) && Array.isArray(value))
+            result[key] = value.map((branch) => walkFilter(schema, branch, prefix, unknownPaths));
+        else if (key.startsWith("$")) result[key] = value;
+        else {
+            const fieldSchema = getSchemaAtPath(schema, key, { implicitIndexes: true });
+            if (!fieldSchema) unknownPaths.push(prefix + key);
+
+            result[key] = fieldSchema ? coerceCondition(fieldSchema, value, `${prefix}${key}`, unknownPaths) : value;
+        }
+    }
+
+    return result;
+}
+
+/** Coerces the condition of a field: either a value or an object of operators. */
+function coerceCondition(fieldSchema: z.ZodTypeAny, condition: unknown, path: string, unknownPaths: string[]): unknown {
+    if (!isOperatorObject(condition)) return coerceValue(fieldSchema, condition, path, unknownPaths);
+
+    const result: BSON.Document = {};
+    for (const [operator, operand] of Object.entries(condition)) {
+        if (VALUE_OPERATORS.includes(operator))
+            result[operator] = coerceValue(fieldSchema, operand, path, unknownPaths);
+        else if (LIST_OPERATORS.includes(operator) && Array.isArray(operand))
+            result[operator] = operand.map((value) => coerceValue(fieldSchema, value, path, unknownPaths));
+        else if (operator === "$not") result[operator] = coerceCondition(fieldSchema, operand, path, unknownPaths);
+        else if (operator === "$elemMatch")
+            result[operator] = coerceElemMatch(fieldSchema, operand, path, unknownPaths);
+        else result[operator] = operand;
+    }
+
+    return result;
+}
+
+/** Coerces the `$elemMatch` condition of an array field, which is a filter for object elements. */
+function coerceElemMatch(fieldSchema: z.ZodTypeAny, condition: unknown, path: string, unknownPaths: string[]): unknown {
+    const type = unwrapZodType(fieldSchema);
+    if (!(type instanceof z.ZodArray) || !isPlainObject(condition)) return condition;
+
+    const element = unwrapZodType(type.element);
+    return element instanceof z.ZodObject
+        ? walkFilter(element, condition, `${path}.`, unknownPaths)
+        : coerceCondition(element, condition, path, unknownPaths);
+}
+
+/** Coerces a value of a field. Arrays are coerced element-wise, and objects key by key. */
+function coerceValue(fieldSchema: z.ZodTypeAny, value: unknown, path: string, unknownPaths: string[]): unknown {
+    const type = unwrapZodType(fieldSchema);
+
+    if (type instanceof z.ZodArray)
+        return Array.isArray(value)
+            ? value.map((item) => coerceValue(type.element, item, path, unknownPaths))
+            : coerceValue(type.element, value, path, unknownPaths);
+
+    if (type instanceof z.ZodObject && isPlainObject(value)) {
+        const result: BSON.Document = {};
+        for (const [key, item] of Object.entries(value)) {
+            if (!type.shape[key]) unknownPaths.push(`${path}.${key}`);
+            result[key] = type.shape[key] ? coerceValue(type.shape[key], item, `${path}.${key}`, unknownPaths) : item;
+        }
+
+        return result;
+    }
+
+    if ((type === ZodObjectId || isZodRef(type)) && typeof value === "string" && OBJECT_ID_REGEX.test(value))
+        return new ObjectId(value);
+
+    if (type === ZodDecimal128 && (typeof value === "string" || typeof value === "number")) {
+        try {
+            return BSON.Decimal128.fromString(String(value));
+        } catch {
+            return value;
+        }
+    }
+
+    return value;
+}
+
+/** Checks whether the value is an object of query operators (e.g. `{ $gt: 18 }`). */
+function isOperatorObject(value: unknown): value is BSON.Document {
+    return isPlainObject(value) && Object.keys(value).some((key) => key.startsWith("$"));
+}
+
+function isPlainObject(value: unknown): value is BSON.Document {
+    return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
@@ -1,4 +1,5 @@
 import { DEFAULT_ARRAY_PLACEHOLDER } from "../constants.js";
+import { unwrapZodType } from "./unwrapZodType.js";
 import { ZodArray, ZodObject, ZodTypeAny } from "zod";
 
 /**
@@ -45,6 +46,7 @@ export function deleteZodField(schema: ZodTypeAny, path: string): void {
     let current: ZodTypeAny = schema;
 
     for (let i = 0; i < keys.length - 1; i++) {
+        current = unwrapZodType(current);
         if (keys[i] === DEFAULT_ARRAY_PLACEHOLDER && current instanceof ZodArray)
             return deleteZodField(current.element, keys.slice(i + 1).join("."));
         if (current instanceof ZodObject) {
@@ -54,6 +56,7 @@ export function deleteZodField(schema: ZodTypeAny, path: string): void {
         }
     }
     const lastKey = keys[keys.length - 1];
+    current = unwrapZodType(current);
     if (current instanceof ZodObject) {
         const shape = current.shape;
         delete shape[lastKey];
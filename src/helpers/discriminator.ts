@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+/**
+ * Merges the options of a discriminated union into one object schema, describing the fields of every kind of document
+ * (e.g. to resolve filter and index paths). A field declared with different schemas by several options is a union
+ * of them, and a field missing from an option is optional.
+ *
+ * @example
+ * mergeDiscriminatedOptions([
+ *     z.object({ kind: z.literal("click"), x: z.number() }),
+ *     z.object({ kind: z.literal("view"), url: z.string() }),
+ * ]);
+ * // z.object({ kind: z.union([z.literal("click"), z.literal("view")]), x: z.number().optional(), url: z.string().optional() })
+ */
+export function mergeDiscriminatedOptions(options: z.ZodObject<any>[]): z.ZodObject<any> {
+    const fields = new Map<string, z.ZodTypeAny[]>();
+    for (const option of options)
+        for (const [key, field] of Object.entries(option.shape as z.ZodRawShape))
+            fields.set(key, [...(fields.get(key) ?? []), field]);
+
+    const shape: z.ZodRawShape = {};
+    for (const [key, schemas] of fields) {
+        const distinct = [...new Set(schemas)];
+        const field =
+            distinct.length === 1 ? distinct[0] : z.union(distinct as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+        shape[key] = schemas.length < options.length && !field.isOptional() ? field.optional() : field;
+    }
+
+    return z.object(shape);
+}
@@ -0,0 +1,43 @@
+import type { BulkWriteResult } from "mongodb";
+
+/**
+ * Creates the result of a bulk write without operations, which the driver rejects with an error.
+ * The driver does not export the `BulkWriteResult` class at runtime, so the result implements its public members.
+ *
+ * @example
+ * const result = writes.length > 0 ? await collection.bulkWrite(writes) : emptyBulkWriteResult();
+ */
+export function emptyBulkWriteResult(): BulkWriteResult {
+    const response = {
+        ok: 1,
+        writeErrors: [],
+        writeConcernErrors: [],
+        insertedIds: [],
+        nInserted: 0,
+        nUpserted: 0,
+        nMatched: 0,
+        nModified: 0,
+        nRemoved: 0,
+        upserted: [],
+    };
+
+    return {
+        ok: 1,
+        insertedCount: 0,
+        matchedCount: 0,
+        modifiedCount: 0,
+        deletedCount: 0,
+        upsertedCount: 0,
+        upsertedIds: {},
+        insertedIds: {},
+        getUpsertedIdAt: () => undefined,
+        getRawResponse: () => response,
+        hasWriteErrors: () => false,
+        getWriteErrorCount: () => 0,
+        getWriteErrorAt: () => undefined,
+        getWriteErrors: () => [],
+        getWriteConcernError: () => undefined,
+        toString: () => `BulkWriteResult(${response})`,
+        isOk: () => true,
+    } as unknown as BulkWriteResult;
+}
@@ -0,0 +1,270 @@
+import { BSON } from "mongodb";
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from "node:crypto";
+import { DEFAULT_ARRAY_PLACEHOLDER } from "../constants.js";
+
+import type { EncryptionKeyProvider } from "../types.js";
+
+/** The BSON binary subtype of encrypted values. */
+const ENCRYPTED_SUBTYPE = BSON.Binary.SUBTYPE_USER_DEFINED;
+
+/** The version of the encrypted payload format. */
+const FORMAT_VERSION = 1;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Encrypts a value with AES-256-GCM, serializing it with BSON so that its type is restored on decryption.
+ *
+ * The payload holds the format version, the mode, the key id, the IV, the authentication tag and the ciphertext.
+ * In deterministic mode, the IV is derived from the value with HMAC-SHA256, so that equal values have equal
+ * ciphertexts (and can be matched by equality queries). Otherwise, the IV is random.
+ *
+ * @param {unknown} value - The value to encrypt.
+ * @param {EncryptionKeyProvider} provider - The provider of the encryption keys.
+ * @param {boolean} deterministic - Whether to encrypt the value deterministically.
+ * @param {string} keyId - The id of the key to encrypt with (default: the current key of the provider).
+ *
+ * @returns {BSON.Binary} The encrypted value.
+ */
+export function encryptValue(
+    value: unknown,
+    provider: EncryptionKeyProvider,
+    deterministic: boolean,
+    keyId: string = provider.currentKeyId
+): BSON.Binary {
+    const key = provider.getKey(keyId);
+    const plaintext = BSON.serialize({ v: value });
+    const iv = deterministic
+        ? createHmac("sha256", createHmac("sha256", key).update("mongooat:iv").digest())
+              .update(plaintext)
+              .digest()
+              .subarray(0, IV_LENGTH)
+        : randomBytes(IV_LENGTH);
+
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    const keyIdBytes = Buffer.from(keyId, "utf8");
+
+    const payload = Buffer.concat([
+        Buffer.from([FORMAT_VERSION, deterministic ? 1 : 0, keyIdBytes.length]),
+        keyIdBytes,
+        iv,
+        cipher.getAuthTag(),
+        ciphertext,
+    ]);
+
+    return new BSON.Binary(payload, ENCRYPTED_SUBTYPE);
+}
+
+/**
+ * Decrypts a value encrypted with `encryptValue()`.
+ *
+ * @param {BSON.Binary} value - The encrypted value.
+ * @param {EncryptionKeyProvider} provider - The provider of the encryption keys.
+ *
+ * @returns {unknown} The decrypted value.
+ */
+export function decryptValue(value: BSON.Binary, provider: EncryptionKeyProvider): unknown {
+    const { keyId, offset } = readHeader(value);
+    const payload = getBytes(value);
+
+    const iv = payload.subarray(offset, offset + IV_LENGTH);
+    const tag = payload.subarray(offset + IV_LENGTH, offset + IV_LENGTH + TAG_LENGTH);
+    const ciphertext = payload.subarray(offset + IV_LENGTH + TAG_LENGTH);
+
+    const decipher = createDecipheriv("aes-256-gcm", provider.getKey(keyId), iv);
+    decipher.setAuthTag(tag);
+
+    return BSON.deserialize(Buffer.concat([decipher.update(ciphertext), decipher.final()])).v;
+}
+
+/** Returns the id of the key and the mode of an encrypted value. */
+export function getEncryptionInfo(value: BSON.Binary): { keyId: string; deterministic: boolean } {
+    const { keyId, deterministic } = readHeader(value);
+    return { keyId, deterministic };
+}
+
+/** Checks whether the value was encrypted with `encryptValue()`. */
+export function isEncryptedValue(value: unknown): value is BSON.Binary {
+    return (
+        value instanceof BSON.Binary && value.sub_type === ENCRYPTED_SUBTYPE && getBytes(value)[0] === FORMAT_VERSION
+    );
+}
+
+/**
+ * Maps the values at a key path of a document, returning a copy of the document along the path.
+ * Array placeholders (`<idx>`) map every element of the array, and `null` or `undefined` values are left untouched.
+ *
+ * @param {unknown} value - The document (or value) to map.
+ * @param {string} path - The key path of the values to map, relative to the value.
+ * @param {(value: unknown) => unknown} fn - The function mapping a value.
+ */
+export function mapPath(value: unknown, path: string, fn: (value: unknown) => unknown): unknown {
+    return mapKeys(value, path === "" ? [] : path.split("."), fn);
+}
+
+/**
+ * Maps the values of the fields set by an update (e.g. its `$set` fields), whose keys are dot-notation
+ * or positional paths, at the specified key paths.
+ *
+ * @param {Record<string, unknown>} fields - The fields set by the update.
+ * @param {string[]} paths - The key paths of the values to map.
+ * @param {(value: unknown, path: string) => unknown} fn - The function mapping a value, receiving its key path.
+ *
+ * @returns The mapped fields, and the update keys targeting the inside of a mapped value, which cannot be mapped.
+ */
+export function mapUpdateFields(
+    fields: Record<string, unknown>,
+    paths: string[],
+    fn: (value: unknown, path: string) => unknown
+): { fields: Record<string, unknown>; conflicts: string[] } {
+    const result: Record<string, unknown> = {};
+    const conflicts: string[] = [];
+
+    for (const [key, value] of Object.entries(fields)) {
+        const keyPath = toKeyPath(key);
+        result[key] = value;
+
+        for (const path of paths) {
+            if (keyPath === path) result[key] = value == null ? value : fn(value, path);
+            else if (path.startsWith(`${keyPath}.`))
+                result[key] = mapPath(result[key], path.slice(keyPath.length + 1), (item) => fn(item, path));
+            else if (keyPath.startsWith(`${path}.`)) conflicts.push(key);
+        }
+    }
+
+    return { fields: result, conflicts };
+}
+
+/**
+ * Maps the encrypted values nested in a value (walking arrays and plain objects).
+ * Values are copied along the mapped values only, so unchanged values keep their reference.
+ *
+ * @param {unknown} value - The value to walk.
+ * @param {(value: BSON.Binary) => unknown} fn - The function mapping an encrypted value.
+ */
+export function mapEncryptedValues(value: unknown, fn: (value: BSON.Binary) => unknown): unknown {
+    if (isEncryptedValue(value)) return fn(value);
+
+    if (Array.isArray(value)) {
+        const items = value.map((item) => mapEncryptedValues(item, fn));
+        return items.some((item, index) => item !== value[index]) ? items : value;
+    }
+
+    if (typeof value !== "object" || value === null || Object.getPrototypeOf(value) !== Object.prototype) return value;
+
+    const entries = Object.entries(value).map(([key, item]) => [key, mapEncryptedValues(item, fn)] as const);
+    return entries.some(([key, item]) => item !== (value as Record<string, unknown>)[key])
+        ? Object.fromEntries(entries)
+        : value;
+}
+
+/**
+ * Maps the values compared by equality in a filter (including inside `$eq`, `$ne`, `$in`, `$nin` and the
+ * `$and`, `$or` and `$nor` branches) at the specified key paths. Each value is mapped to a list of values,
+ * matched with `$in` (or `$nin` for `$ne` and `$nin`), or by equality when the list holds a single value.
+ *
+ * @param {BSON.Document} filter - The filter to map.
+ * @param {string[]} paths - The key paths of the values to map.
+ * @param {(value: unknown, path: string) => unknown[]} fn - The function mapping a value to the values to match.
+ */
+export function mapFilterValues(
+    filter: BSON.Document,
+    paths: string[],
+    fn: (value: unknown, path: string) => unknown[]
+): BSON.Document {
+    const result: BSON.Document = {};
+
+    for (const [key, condition] of Object.entries(filter)) {
+        const path = paths.find((item) => stripArrayKeys(item) === stripArrayKeys(key));
+
+        if (["$and", "$or", "$nor"].includes(key) && Array.isArray(condition))
+            result[key] = condition.map((branch) => mapFilterValues(branch, paths, fn));
+        else if (key.startsWith("$") || path === undefined) result[key] = condition;
+        else if (!isOperatorObject(condition)) {
+            const values = fn(condition, path);
+            result[key] = values.length === 1 ? values[0] : { $in: values };
+        } else {
+            const mapped: BSON.Document = {};
+            for (const [operator, operand] of Object.entries(condition)) {
+                if (operator === "$eq" || operator === "$ne") {
+                    const values = fn(operand, path);
+                    if (values.length === 1) mapped[operator] = values[0];
+                    else mapped[operator === "$eq" ? "$in" : "$nin"] = values;
+                } else if ((operator === "$in" || operator === "$nin") && Array.isArray(operand))
+                    mapped[operator] = operand.flatMap((value) => fn(value, path));
+                else mapped[operator] = operand;
+            }
+
+            result[key] = mapped;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Normalizes a key path, a filter key or an update key by removing its array placeholders, indexes and
+ * positional operators, so that keys targeting the same field compare equal.
+ *
+ * @example
+ * stripArrayKeys("cards.$[card].number"); // "cards.number"
+ */
+export function stripArrayKeys(key: string): string {
+    return toKeyPath(key)
+        .split(".")
+        .filter((item) => item !== DEFAULT_ARRAY_PLACEHOLDER)
+        .join(".");
+}
+
+/** Replaces the array indexes and positional operators of a key with the array placeholder. */
+function toKeyPath(key: string): string {
+    return key
+        .split(".")
+        .map((item) => (/^\d+$/.test(item) || /^\$(\[[^\]]*\])?$/.test(item) ? DEFAULT_ARRAY_PLACEHOLDER : item))
+        .join(".");
+}
+
+function mapKeys(value: unknown, keys: string[], fn: (value: unknown) => unknown): unknown {
+    if (value == null) return value;
+    if (keys.length === 0) return fn(value);
+
+    const [head, ...rest] = keys;
+    if (Array.isArray(value)) {
+        if (head === DEFAULT_ARRAY_PLACEHOLDER) return value.map((item) => mapKeys(item, rest, fn));
+        if (/^\d+$/.test(head))
+            return value.map((item, index) => (index === Number(head) ? mapKeys(item, rest, fn) : item));
+
+        return value;
+    }
+
+    if (typeof value !== "object" || Object.getPrototypeOf(value) !== Object.prototype || !(head in value))
+        return value;
+
+    return { ...value, [head]: mapKeys((value as Record<string, unknown>)[head], rest, fn) };
+}
+
+function isOperatorObject(value: unknown): value is BSON.Document {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        Object.getPrototypeOf(value) === Object.prototype &&
+        Object.keys(value).some((key) => key.startsWith("$"))
+    );
+}
+
+function readHeader(value: BSON.Binary): { keyId: string; deterministic: boolean; offset: number } {
+    const payload = getBytes(value);
+    const keyIdLength = payload[2];
+
+    return {
+        keyId: payload.subarray(3, 3 + keyIdLength).toString("utf8"),
+        deterministic: payload[1] === 1,
+        offset: 3 + keyIdLength,
+    };
+}
+
+function getBytes(value: BSON.Binary): Buffer {
+    return Buffer.from(value.buffer.buffer, value.buffer.byteOffset, value.position);
+}
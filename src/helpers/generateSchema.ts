@@ -1,17 +1,34 @@
 import { z, ZodTypeAny } from "zod";
+import { toMongoPath } from "./toMongoPath.js";
 import { deleteZodField } from "./deleteField.js";
+import { unwrapZodType } from "./unwrapZodType.js";
+import { DEFAULT_ARRAY_PLACEHOLDER } from "../constants.js";
 
-import type { ObjectKeyPaths } from "../types.js";
+import type { ObjectKeyPaths, DiscriminatedUnionSchema } from "../types.js";
 
 /**
  * Generate a new partial schema based on the original schema and the data provided.
+ * Discriminated unions resolve to the option of the discriminator value of the data, if any.
  * @todo evaluate with others zod types
  */
 export function createSchemaFromData<ST extends z.ZodRawShape>(
     schema: z.ZodObject<ST>,
     data: Record<string | number, unknown>
-): z.ZodObject<ST> {
+): z.ZodObject<ST>;
+export function createSchemaFromData(
+    schema: DiscriminatedUnionSchema,
+    data: Record<string | number, unknown>
+): z.ZodTypeAny;
+export function createSchemaFromData<ST extends z.ZodRawShape>(
+    schema: z.ZodObject<ST> | DiscriminatedUnionSchema,
+    data: Record<string | number, unknown>
+): z.ZodTypeAny {
     const processSchema = (schema: z.ZodTypeAny, data: any): z.ZodTypeAny => {
+        if (schema instanceof z.ZodDiscriminatedUnion) {
+            const option = schema.optionsMap.get(data?.[schema.discriminator]);
+            return option ? processSchema(option, data) : schema;
+        }
+
         if (schema instanceof z.ZodObject) {
             const shape: z.ZodRawShape = {};
             const originalShape = schema.shape;
@@ -44,7 +61,8 @@ export function createSchemaFromData<ST extends z.ZodRawShape>(
     };
 
     const processComplexSchema = (schema: z.ZodTypeAny, data: any): z.ZodTypeAny => {
-        if (schema instanceof z.ZodObject) return processSchema(schema, data);
+        if (schema instanceof z.ZodObject || schema instanceof z.ZodDiscriminatedUnion)
+            return processSchema(schema, data);
         else if (schema instanceof z.ZodArray) return processArraySchema(schema, data);
         else if (schema instanceof z.ZodOptional) return processOptionalSchema(schema, data);
         else if (schema instanceof z.ZodNullable) return processNullableSchema(schema, data);
@@ -69,7 +87,7 @@ export function createSchemaFromData<ST extends z.ZodRawShape>(
         return processSchema(unwrappedSchema, data).default(defaultValue);
     };
 
-    return processSchema(schema, data) as z.ZodObject<ST>;
+    return processSchema(schema, data);
 }
 
 /**
@@ -82,9 +100,78 @@ export function createSchemaFromPaths<T extends Record<string | number, unknown>
 ): z.ZodObject<any> {
     if (paths.length === 0) return schema;
 
-    const newSchema = z.object(Object.fromEntries(Object.keys(schema.shape).map((key) => [key, schema.shape[key]])));
+    // Nested schemas are cloned, so deleting nested fields does not mutate the original schema
+    const newSchema = cloneZodSchema(schema) as z.ZodObject<any>;
     paths.filter((path, index, array) => array.indexOf(path) === index);
 
     for (const path of paths) deleteZodField(newSchema, path);
     return newSchema;
 }
+
+/**
+ * Returns the key paths of the schema left out by the projection, to be used with `createSchemaFromPaths`.
+ *
+ * Inclusion projections leave out every path that is neither included nor a parent of an included path.
+ * Exclusion projections leave out the excluded paths. The `_id` field is left out only if explicitly excluded.
+ *
+ * @example
+ * const schema = z.object({ name: z.string(), address: z.object({ city: z.string(), zip: z.string() }) });
+ * getProjectionExcludedPaths(schema, { "address.city": 1 }); // ["name", "address.zip"]
+ */
+export function getProjectionExcludedPaths<ST extends z.ZodRawShape>(
+    schema: z.ZodObject<ST>,
+    projection: Record<string, unknown>
+): string[] {
+    const isExcluded = (value: unknown) => value === 0 || value === false;
+    const paths = Object.keys(projection).filter((path) => path !== "_id");
+    const excluded = isExcluded(projection._id) ? ["_id"] : [];
+
+    if (paths.every((path) => isExcluded(projection[path])))
+        return [...excluded, ...paths.filter((path) => isExcluded(projection[path]))];
+
+    const included = paths.filter((path) => !isExcluded(projection[path])).map(toMongoPath);
+    const processSchema = (schema: z.ZodObject<any>, prefix: string) => {
+        for (const key of Object.keys(schema.shape)) {
+            const path = prefix ? `${prefix}.${key}` : key;
+            if (path === "_id") continue;
+
+            const mongoPath = toMongoPath(path);
+            if (included.includes(mongoPath)) continue;
+            if (!included.some((includedPath) => includedPath.startsWith(`${mongoPath}.`))) {
+                excluded.push(path);
+                continue;
+            }
+
+            let field = unwrapZodType(schema.shape[key]);
+            let fieldPath = path;
+            while (field instanceof z.ZodArray) {
+                field = unwrapZodType(field.element);
+                fieldPath = `${fieldPath}.${DEFAULT_ARRAY_PLACEHOLDER}`;
+            }
+
+            if (field instanceof z.ZodObject) processSchema(field, fieldPath);
+        }
+    };
+
+    processSchema(schema, "");
+    return excluded;
+}
+
+/** Clones the object, array and wrapper schemas recursively, keeping the other schemas. */
+function cloneZodSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+    if (schema instanceof z.ZodObject) {
+        const shape = Object.fromEntries(
+            Object.entries(schema.shape).map(([key, field]) => [key, cloneZodSchema(field as z.ZodTypeAny)])
+        );
+        return new z.ZodObject({ ...schema._def, shape: () => shape });
+    }
+    if (schema instanceof z.ZodArray) return new z.ZodArray({ ...schema._def, type: cloneZodSchema(schema.element) });
+    if (schema instanceof z.ZodOptional)
+        return new z.ZodOptional({ ...schema._def, innerType: cloneZodSchema(schema.unwrap()) });
+    if (schema instanceof z.ZodNullable)
+        return new z.ZodNullable({ ...schema._def, innerType: cloneZodSchema(schema.unwrap()) });
+    if (schema instanceof z.ZodDefault)
+        return new z.ZodDefault({ ...schema._def, innerType: cloneZodSchema(schema.removeDefault()) });
+
+    return schema;
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { unwrapZodType } from "./unwrapZodType.js";
+import { DEFAULT_ARRAY_PLACEHOLDER } from "../constants.js";
+
+/** Matches the positional operators: `$`, `$[]` and `$[<identifier>]`. */
+const POSITIONAL_OPERATOR_REGEX = /^\$(\[[a-z][a-zA-Z0-9]*\]|\[\])?$/;
+
+/**
+ * Resolves the Zod schema of the field at the specified dot-notation path.
+ * Array elements are reached with an index, the array placeholder or a positional operator
+ * (e.g. `items.0.qty`, `items.<idx>.qty`, `items.$.qty`, `items.$[].qty` or `items.$[item].qty`).
+ *
+ * With the `implicitIndexes` option, keys that are not indexes traverse arrays to their elements,
+ * like in query filters (e.g. `items.qty`). Fields of `z.any()` and `z.unknown()` schemas resolve to that schema,
+ * and fields of union schemas resolve in the first option declaring them. Refined, transformed and lazy schemas
+ * are traversed to their fields.
+ *
+ * @param {z.ZodTypeAny} schema - The schema to walk.
+ * @param {string} path - The dot-notation path of the field.
+ * @param {{ implicitIndexes?: boolean }} options - Optional settings for resolving the path.
+ *
+ * @returns {z.ZodTypeAny | undefined} The schema of the field (with its optional, nullable and default wrappers),
+ *                                     or `undefined` if the path does not exist.
+ */
+export function getSchemaAtPath(
+    schema: z.ZodTypeAny,
+    path: string,
+    options: { implicitIndexes?: boolean } = {}
+): z.ZodTypeAny | undefined {
+    let current: z.ZodTypeAny | undefined = schema;
+    const keys = path.split(".");
+
+    for (const [index, key] of keys.entries()) {
+        let type = unwrapZodType(current, { effects: true });
+        const isIndex = key === DEFAULT_ARRAY_PLACEHOLDER || /^\d+$/.test(key) || POSITIONAL_OPERATOR_REGEX.test(key);
+        if (options.implicitIndexes && !isIndex)
+            while (type instanceof z.ZodArray) type = unwrapZodType(type.element, { effects: true });
+
+        if (type instanceof z.ZodUnion || type instanceof z.ZodDiscriminatedUnion) {
+            const rest = keys.slice(index).join(".");
+            for (const option of type.options as z.ZodTypeAny[]) {
+                const field = getSchemaAtPath(option, rest, options);
+                if (field) return field;
+            }
+
+            return undefined;
+        }
+
+        if (type instanceof z.ZodAny || type instanceof z.ZodUnknown) return type;
+        else if (type instanceof z.ZodObject) current = type.shape[key];
+        else if (type instanceof z.ZodArray) current = isIndex ? type.element : undefined;
+        else if (type instanceof z.ZodTuple) current = isIndex ? type.items[Number(key)] : undefined;
+        else if (type instanceof z.ZodRecord) current = type.valueSchema;
+        else return undefined;
+
+        if (!current) return undefined;
+    }
+
+    return current;
+}
@@ -0,0 +1,82 @@
+import { toMongoPath } from "./toMongoPath.js";
+import { getProjectionExcludedPaths } from "./generateSchema.js";
+
+import type { z } from "zod";
+import type { BSON } from "mongodb";
+
+/** Projection operators that narrow a field without including the other fields. */
+const NARROWING_OPERATORS = ["$slice", "$elemMatch", "$meta"];
+
+/**
+ * Adds the exclusion of the hidden fields to a projection, so that they are not returned by the server.
+ *
+ * Missing and exclusion projections exclude the hidden paths besides the excluded ones. Inclusion projections
+ * cannot exclude fields (other than `_id`), so the hidden paths are removed from the included ones instead:
+ * hidden fields nested in an included field are still returned, and must be removed from the documents.
+ * If every included path is hidden, only the `_id` is included.
+ *
+ * @param {BSON.Document | undefined} projection - The projection, with MongoDB dot-notation paths.
+ * @param {string[]} hiddenFields - The hidden key paths of the model.
+ *
+ * @example
+ * addHiddenProjection({ age: 0 }, ["password", "tokens.<idx>.secret"]); // { age: 0, password: 0, "tokens.secret": 0 }
+ * addHiddenProjection({ name: 1, password: 1 }, ["password"]); // { name: 1 }
+ */
+export function addHiddenProjection(
+    projection: BSON.Document | undefined,
+    hiddenFields: string[]
+): BSON.Document | undefined {
+    if (hiddenFields.length === 0) return projection;
+
+    const hidden = [...new Set(hiddenFields.map(toMongoPath))];
+    const keys = Object.keys(projection ?? {}).filter((key) => key !== "_id");
+    const isInclusion = keys.some((key) => isIncluded(projection?.[key]));
+    const result: BSON.Document = { ...projection };
+
+    for (const path of hidden) {
+        const isCovered =
+            hidden.some((other) => other !== path && isWithin(path, other)) ||
+            keys.some((key) => key !== path && isWithin(path, key) && isExcluded(projection?.[key]));
+
+        for (const key of keys) if (isWithin(key, path)) delete result[key];
+        if (!isInclusion && !isCovered) result[path] = 0;
+    }
+
+    if (isInclusion && !Object.keys(result).some((key) => key !== "_id" && isIncluded(result[key]))) return { _id: 1 };
+    return result;
+}
+
+/**
+ * Returns the key paths of the schema left out by a projection built with `addHiddenProjection()`, to be used with
+ * `createSchemaFromPaths`: the paths left out by the projection, and the hidden paths.
+ *
+ * @param {z.ZodObject<any>} schema - The schema of the model.
+ * @param {BSON.Document | undefined} projection - The projection, with MongoDB dot-notation paths.
+ * @param {string[]} hiddenFields - The hidden key paths of the model.
+ */
+export function getHiddenExcludedPaths(
+    schema: z.ZodObject<any>,
+    projection: BSON.Document | undefined,
+    hiddenFields: string[]
+): string[] {
+    const hidden = new Set(hiddenFields.map(toMongoPath));
+    const excluded = projection ? getProjectionExcludedPaths(schema, projection) : [];
+
+    // Hidden paths are excluded by their model key path, which keeps the array placeholders
+    return [...new Set([...excluded.filter((path) => !hidden.has(path)), ...hiddenFields])];
+}
+
+function isWithin(path: string, parent: string): boolean {
+    return path === parent || path.startsWith(`${parent}.`);
+}
+
+function isExcluded(value: unknown): boolean {
+    return value === 0 || value === false;
+}
+
+function isIncluded(value: unknown): boolean {
+    if (isExcluded(value)) return false;
+    if (typeof value !== "object" || value === null) return true;
+
+    return !NARROWING_OPERATORS.some((operator) => operator in value);
+}
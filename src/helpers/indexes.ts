@@ -0,0 +1,134 @@
+import { BSON } from "mongodb";
+import { WILDCARD_INDEX } from "../constants.js";
+
+import type { IndexDescription } from "mongodb";
+
+/** The name of the default `_id` index, which cannot be dropped. */
+const ID_INDEX_NAME = "_id_";
+
+/** The index options compared when diffing indexes, others (e.g. `background`) do not change the index. */
+const COMPARED_OPTIONS = [
+    "unique",
+    "sparse",
+    "hidden",
+    "partialFilterExpression",
+    "expireAfterSeconds",
+    "wildcardProjection",
+    "collation",
+    "weights",
+    "default_language",
+    "language_override",
+    "bits",
+    "min",
+    "max",
+];
+
+/** The boolean index options, where a missing option is the same as `false`. */
+const BOOLEAN_OPTIONS = ["unique", "sparse", "hidden"];
+
+/**
+ * Returns the name of an index: its `name` option, or the name generated by MongoDB from its key
+ * (e.g. `{ email: 1, "address.city": -1 }` is named `email_1_address.city_-1`).
+ */
+export function getIndexName(index: IndexDescription): string {
+    if (index.name) return index.name;
+
+    return Object.entries(index.key)
+        .map(([path, direction]) => `${path}_${direction}`)
+        .join("_");
+}
+
+/**
+ * Returns the key paths referenced by an index, in its key and its wildcard projection.
+ * Wildcard paths are returned without their `$**` suffix, and the root wildcard `$**` is left out.
+ *
+ * @example
+ * getIndexPaths({ key: { "address.$**": 1 } }); // ["address"]
+ */
+export function getIndexPaths(index: { key: Record<string, unknown>; wildcardProjection?: BSON.Document }): string[] {
+    const paths = [...Object.keys(index.key), ...Object.keys(index.wildcardProjection ?? {})];
+
+    return paths
+        .filter((path) => path !== WILDCARD_INDEX)
+        .map((path) => (path.endsWith(`.${WILDCARD_INDEX}`) ? path.slice(0, -WILDCARD_INDEX.length - 1) : path));
+}
+
+/**
+ * Compares the declared indexes of a model with the existing indexes of its collection (as returned by `listIndexes()`).
+ * Indexes are matched by name, or else by key (an existing index with the same key under another name is renamed),
+ * and an index is changed if its name, its key or one of its options differs.
+ *
+ * **Note:** Text indexes are matched by name, or else with the text index of the collection (there is at most one),
+ * as MongoDB stores their key as `{ _fts: "text", _ftsx: 1 }`.
+ *
+ * @param {IndexDescription[]} declared - The declared indexes.
+ * @param {BSON.Document[]} existing - The existing indexes.
+ *
+ * @returns The declared indexes that do not exist, the declared indexes that differ from the existing ones,
+ *          the names of the existing indexes they replace (in the same order), and the names of the existing indexes
+ *          that are not declared (except the `_id` index).
+ */
+export function diffIndexes(
+    declared: IndexDescription[],
+    existing: BSON.Document[]
+): { added: IndexDescription[]; changed: IndexDescription[]; replaced: string[]; extraneous: string[] } {
+    const existingByName = new Map(existing.map((index) => [index.name as string, index]));
+    const declaredNames = new Set(declared.map(getIndexName));
+    // The existing indexes not matched by name, which may still be matched by key
+    const unmatched = existing.filter((index) => index.name !== ID_INDEX_NAME && !declaredNames.has(index.name));
+    const matched = new Set<string>();
+
+    const added: IndexDescription[] = [];
+    const changed: IndexDescription[] = [];
+    const replaced: string[] = [];
+    for (const index of declared) {
+        const name = getIndexName(index);
+        const current =
+            existingByName.get(name) ?? unmatched.find((other) => !matched.has(other.name) && isSameKey(index, other));
+
+        if (!current) {
+            added.push(index);
+            continue;
+        }
+
+        matched.add(current.name);
+        if (current.name !== name || !isSameIndex(index, current)) {
+            changed.push(index);
+            replaced.push(current.name);
+        }
+    }
+
+    const extraneous = unmatched.map((index) => index.name as string).filter((name) => !matched.has(name));
+
+    return { added, changed, replaced, extraneous };
+}
+
+/** Checks whether a declared index has the same key as an existing index. */
+function isSameKey(declared: IndexDescription, existing: BSON.Document): boolean {
+    const isText = Object.values(declared.key).includes("text");
+    return isText ? "_fts" in existing.key : isEqual(declared.key, existing.key);
+}
+
+/** Checks whether a declared index has the same key and options as an existing index. */
+function isSameIndex(declared: IndexDescription, existing: BSON.Document): boolean {
+    if (!isSameKey(declared, existing)) return false;
+
+    const isText = Object.values(declared.key).includes("text");
+    return COMPARED_OPTIONS.every((option) => {
+        const [value, current] = [(declared as BSON.Document)[option], existing[option]];
+        if (BOOLEAN_OPTIONS.includes(option)) return !!value === !!current;
+        // MongoDB fills in the collation options that are not specified
+        if (option === "collation" && value && current)
+            return Object.entries(value).every(([key, item]) => isEqual(item, current[key]));
+        // MongoDB fills in the weights and language of text indexes
+        if (value === undefined && isText) return true;
+
+        return isEqual(value, current);
+    });
+}
+
+/** Compares two values by their Extended JSON representation, so that key order and BSON types matter. */
+function isEqual(a: unknown, b: unknown): boolean {
+    if (a === undefined || b === undefined) return a === b;
+    return BSON.EJSON.stringify(a, { relaxed: true }) === BSON.EJSON.stringify(b, { relaxed: true });
+}
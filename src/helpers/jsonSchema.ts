@@ -0,0 +1,228 @@
+import { z } from "zod";
+import { isZodRef } from "../schemas/ref.js";
+import { ZodBinary } from "../schemas/binary.js";
+import { ZodRegExp } from "../schemas/regexp.js";
+import { ZodObjectId } from "../schemas/objectId.js";
+import { ZodTimestamp } from "../schemas/timestamp.js";
+import { ZodDecimal128 } from "../schemas/decimal128.js";
+import { DEFAULT_ARRAY_PLACEHOLDER } from "../constants.js";
+
+import type { BSON } from "mongodb";
+import type { UnsupportedSchemaMap } from "../types.js";
+
+/** The BSON types of the custom schemas of `src/schemas`. */
+const BSON_SCHEMAS = new Map<z.ZodTypeAny, string>([
+    [ZodObjectId, "objectId"],
+    [ZodDecimal128, "decimal"],
+    [ZodBinary, "binData"],
+    [ZodTimestamp, "timestamp"],
+    [ZodRegExp, "regex"],
+]);
+
+/** The string checks expressible with `$jsonSchema` keywords. */
+const STRING_CHECKS = ["min", "max", "length", "regex"];
+
+/**
+ * Compiles a Zod schema into a MongoDB `$jsonSchema` document.
+ *
+ * Objects, arrays, tuples, records, enums, literals, unions, intersections, optional, nullable and default
+ * schemas are supported, along with the BSON schemas of `src/schemas` (`ZodObjectId`, `ZodRef`, `ZodDecimal128`,
+ * `ZodBinary`, `ZodTimestamp` and `ZodRegExp`). The constructs that cannot be expressed (e.g. refinements,
+ * transforms or string formats like `email()`) are left unconstrained and reported with their key path.
+ *
+ * @param {z.ZodTypeAny} schema - The Zod schema to compile.
+ * @param {Record<string, BSON.Document>} overrides - The `$jsonSchema` documents replacing the compiled ones,
+ *                                                    by key path (e.g. for encrypted fields).
+ *
+ * @returns The `$jsonSchema` document, and the constructs that could not be expressed.
+ *
+ * @example
+ * compileJsonSchema(z.object({ name: z.string().min(1), age: z.number().int().optional() }));
+ * // { bsonType: "object", required: ["name"], properties: { name: { bsonType: "string", minLength: 1 }, age: {...} } }
+ */
+export function compileJsonSchema(
+    schema: z.ZodTypeAny,
+    overrides: Record<string, BSON.Document> = {}
+): { jsonSchema: BSON.Document; unsupported: UnsupportedSchemaMap } {
+    const unsupported: UnsupportedSchemaMap = [];
+    const lazyStack: z.ZodTypeAny[] = [];
+
+    const report = (path: string, reason: string) => unsupported.push({ path, reason });
+    const child = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+    const compile = (schema: z.ZodTypeAny, path: string): BSON.Document => {
+        if (schema instanceof z.ZodOptional || schema instanceof z.ZodBranded) return compile(schema.unwrap(), path);
+        if (schema instanceof z.ZodReadonly) return compile(schema._def.innerType, path);
+        if (schema instanceof z.ZodDefault) return compile(schema.removeDefault(), path);
+        if (schema instanceof z.ZodCatch) return compile(schema.removeCatch(), path);
+        if (schema instanceof z.ZodNullable) return withNull(compile(schema.unwrap(), path));
+        if (schema instanceof z.ZodPipeline) return compile(schema._def.out, path);
+
+        if (path in overrides) return overrides[path];
+
+        const bsonType = BSON_SCHEMAS.get(schema) ?? (isZodRef(schema) ? "objectId" : undefined);
+        if (bsonType) return { bsonType };
+
+        if (schema instanceof z.ZodObject) return compileObject(schema, path);
+        if (schema instanceof z.ZodArray) {
+            const result: BSON.Document = {
+                bsonType: "array",
+                items: compile(schema.element, child(path, DEFAULT_ARRAY_PLACEHOLDER)),
+            };
+            const { minLength, maxLength, exactLength } = schema._def;
+            const [minItems, maxItems] = [(minLength ?? exactLength)?.value, (maxLength ?? exactLength)?.value];
+            if (minItems !== undefined) result.minItems = minItems;
+            if (maxItems !== undefined) result.maxItems = maxItems;
+            return result;
+        }
+        if (schema instanceof z.ZodTuple) {
+            const items = schema.items as z.ZodTypeAny[];
+            return {
+                bsonType: "array",
+                items: items.map((item, index) => compile(item, child(path, String(index)))),
+                additionalItems: schema._def.rest
+                    ? compile(schema._def.rest, child(path, DEFAULT_ARRAY_PLACEHOLDER))
+                    : false,
+                minItems: items.filter((item) => !item.isOptional()).length,
+            };
+        }
+        if (schema instanceof z.ZodRecord) {
+            const keyType = schema.keySchema;
+            if (!(keyType instanceof z.ZodString) || keyType._def.checks.length > 0)
+                report(path, "Record keys are not constrained, only string keys are supported.");
+            return { bsonType: "object", additionalProperties: compile(schema.valueSchema, child(path, "*")) };
+        }
+
+        if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion)
+            return { anyOf: (schema.options as z.ZodTypeAny[]).map((option) => compile(option, path)) };
+        if (schema instanceof z.ZodIntersection)
+            return { allOf: [compile(schema._def.left, path), compile(schema._def.right, path)] };
+
+        if (schema instanceof z.ZodString) return compileString(schema, path);
+        if (schema instanceof z.ZodNumber) return compileNumber(schema, path);
+        if (schema instanceof z.ZodBigInt) {
+            if (schema._def.checks.length > 0) report(path, "BigInt checks are not supported.");
+            return { bsonType: "long" };
+        }
+        if (schema instanceof z.ZodBoolean) return { bsonType: "bool" };
+        if (schema instanceof z.ZodDate) {
+            if (schema._def.checks.length > 0) report(path, "Date checks are not supported.");
+            return { bsonType: "date" };
+        }
+        if (schema instanceof z.ZodNull) return { bsonType: "null" };
+        if (schema instanceof z.ZodLiteral) return compileEnum([schema.value], path);
+        if (schema instanceof z.ZodEnum) return { bsonType: "string", enum: schema.options };
+        if (schema instanceof z.ZodNativeEnum) {
+            const values = schema.enum as Record<string, string | number>;
+            // Numeric enums map their values back to their keys, which are not values of the enum
+            return compileEnum(
+                Object.keys(values)
+                    .filter((key) => typeof values[values[key]] !== "number")
+                    .map((key) => values[key]),
+                path
+            );
+        }
+
+        if (schema instanceof z.ZodLazy) {
+            if (lazyStack.includes(schema)) {
+                report(path, "Recursive schemas are not supported.");
+                return {};
+            }
+
+            lazyStack.push(schema);
+            const result = compile(schema.schema, path);
+            lazyStack.pop();
+            return result;
+        }
+        if (schema instanceof z.ZodEffects) {
+            const { effect } = schema._def;
+            if (effect.type === "refinement") report(path, "Refinements are not supported.");
+            if (effect.type === "transform") {
+                report(path, "Transforms are not supported, as the stored value is the transformed one.");
+                return {};
+            }
+
+            return compile(schema.innerType(), path);
+        }
+        if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) return {};
+        if (schema instanceof z.ZodNever) return { not: {} };
+
+        report(path, `Schema type '${schema.constructor.name}' is not supported.`);
+        return {};
+    };
+
+    const compileObject = (schema: z.ZodObject<any>, path: string): BSON.Document => {
+        const properties: BSON.Document = {};
+        const required: string[] = [];
+
+        for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+            properties[key] = compile(value, child(path, key));
+            if (!value.isOptional()) required.push(key);
+        }
+
+        const result: BSON.Document = { bsonType: "object", properties };
+        if (required.length > 0) result.required = required;
+
+        const { catchall, unknownKeys } = schema._def;
+        if (!(catchall instanceof z.ZodNever)) result.additionalProperties = compile(catchall, child(path, "*"));
+        else if (unknownKeys === "strict") {
+            // The `_id` field is added by MongoDB to root documents
+            if (path === "" && !("_id" in properties)) properties._id = {};
+            result.additionalProperties = false;
+        }
+
+        return result;
+    };
+
+    const compileString = (schema: z.ZodString, path: string): BSON.Document => {
+        const result: BSON.Document = { bsonType: "string" };
+
+        for (const check of schema._def.checks) {
+            if (check.kind === "min") result.minLength = Math.max(result.minLength ?? 0, check.value);
+            else if (check.kind === "max") result.maxLength = Math.min(result.maxLength ?? Infinity, check.value);
+            else if (check.kind === "length") result.minLength = result.maxLength = check.value;
+            else if (check.kind === "regex" && check.regex.flags === "") result.pattern = check.regex.source;
+            else if (check.kind === "regex")
+                report(path, `Regular expression flags '${check.regex.flags}' are not supported.`);
+
+            if (!STRING_CHECKS.includes(check.kind)) report(path, `String check '${check.kind}' is not supported.`);
+        }
+
+        return result;
+    };
+
+    const compileNumber = (schema: z.ZodNumber, path: string): BSON.Document => {
+        const result: BSON.Document = { bsonType: "number" };
+
+        for (const check of schema._def.checks) {
+            if (check.kind === "int") result.multipleOf = 1;
+            else if (check.kind === "multipleOf") result.multipleOf = check.value;
+            else if (check.kind === "min")
+                Object.assign(result, { minimum: check.value, exclusiveMinimum: !check.inclusive });
+            else if (check.kind === "max")
+                Object.assign(result, { maximum: check.value, exclusiveMaximum: !check.inclusive });
+            else report(path, `Number check '${check.kind}' is not supported.`);
+        }
+
+        return result;
+    };
+
+    const compileEnum = (values: unknown[], path: string): BSON.Document => {
+        const invalid = values.filter((value) => typeof value === "bigint" || typeof value === "symbol");
+        if (invalid.length > 0) report(path, "BigInt and symbol literals are not supported.");
+
+        return { enum: values.filter((value) => !invalid.includes(value)) };
+    };
+
+    return { jsonSchema: compile(schema, ""), unsupported };
+}
+
+/** Allows `null` besides the values matched by the `$jsonSchema` document. */
+function withNull(jsonSchema: BSON.Document): BSON.Document {
+    if (Object.keys(jsonSchema).length === 0) return jsonSchema;
+    if (jsonSchema.enum) return { ...jsonSchema, enum: [...jsonSchema.enum, null] };
+    if (typeof jsonSchema.bsonType === "string" && Object.keys(jsonSchema).length === 1)
+        return { bsonType: [jsonSchema.bsonType, "null"] };
+
+    return { anyOf: [jsonSchema, { bsonType: "null" }] };
+}
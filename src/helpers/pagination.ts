@@ -0,0 +1,87 @@
+import { BSON } from "mongodb";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+import InvalidCursorTokenError from "../errors/invalidCursorToken.js";
+
+/** The secret used to sign cursor tokens when none is configured. Tokens are only valid within the process. */
+const DEFAULT_SECRET = randomBytes(32);
+
+/** A sort specification, as an ordered list of MongoDB paths and directions. */
+export type SortEntries = [path: string, direction: 1 | -1][];
+
+/**
+ * Appends the `_id` field to the sort specification (unless already present), so documents with the same
+ * sort values are always returned in the same order.
+ * The `_id` field uses the direction of the last sort key.
+ */
+export function withIdTieBreaker(sort: SortEntries): SortEntries {
+    if (sort.some(([path]) => path === "_id")) return sort;
+    return [...sort, ["_id", sort.at(-1)?.[1] ?? 1]];
+}
+
+/**
+ * Encodes the sort values of a document into an opaque cursor token, signed with HMAC-SHA256.
+ * The sort paths are embedded in the token, so it cannot be used with a different sort.
+ *
+ * @param {SortEntries} sort - The sort specification, including the tie-breaker.
+ * @param {BSON.Document} doc - The document to build the token from.
+ * @param {string} secret - The secret used to sign the token.
+ */
+export function encodeCursorToken(sort: SortEntries, doc: BSON.Document, secret?: string): string {
+    const values = sort.map(([path]) => getValue(doc, path) ?? null);
+    const payload = Buffer.from(BSON.EJSON.stringify({ s: sort, v: values }, { relaxed: false })).toString("base64url");
+
+    return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Decodes and verifies a cursor token, returning the sort values it holds.
+ *
+ * @param {string} token - The cursor token to decode.
+ * @param {SortEntries} sort - The sort specification the token must have been created with.
+ * @param {string} secret - The secret used to sign the token.
+ *
+ * @throws {InvalidCursorTokenError} If the token is malformed, was tampered with or was created with a different sort.
+ */
+export function decodeCursorToken(token: string, sort: SortEntries, secret?: string): unknown[] {
+    const [payload, signature, ...rest] = token.split(".");
+    if (!payload || !signature || rest.length > 0) throw new InvalidCursorTokenError("Malformed token.");
+
+    const expected = Buffer.from(sign(payload, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual))
+        throw new InvalidCursorTokenError("Invalid signature.");
+
+    const { s, v } = BSON.EJSON.parse(Buffer.from(payload, "base64url").toString());
+    if (JSON.stringify(s) !== JSON.stringify(sort)) throw new InvalidCursorTokenError("Sort mismatch.");
+
+    return v;
+}
+
+/**
+ * Builds the filter matching the documents after the specified sort values (keyset pagination).
+ *
+ * @example
+ * buildKeysetFilter([["age", -1], ["_id", -1]], [30, id]);
+ * // { $or: [{ age: { $lt: 30 } }, { age: 30, _id: { $lt: id } }] }
+ */
+export function buildKeysetFilter(sort: SortEntries, values: unknown[]): BSON.Document {
+    const branches = sort.map(([path, direction], idx) => {
+        const equals = Object.fromEntries(sort.slice(0, idx).map(([prevPath], prevIdx) => [prevPath, values[prevIdx]]));
+        return { ...equals, [path]: { [direction === 1 ? "$gt" : "$lt"]: values[idx] } };
+    });
+
+    return { $or: branches };
+}
+
+/** Signs the payload with HMAC-SHA256. */
+function sign(payload: string, secret?: string): string {
+    return createHmac("sha256", secret || DEFAULT_SECRET)
+        .update(payload)
+        .digest("base64url");
+}
+
+/** Gets the value at the specified dot-notation path of the document. */
+function getValue(doc: BSON.Document, path: string): unknown {
+    return path.split(".").reduce<any>((value, key) => value?.[key], doc);
+}
@@ -0,0 +1,12 @@
+import { DEFAULT_ARRAY_PLACEHOLDER } from "../constants.js";
+
+/**
+ * Converts a model key path to a MongoDB dot-notation path by removing the array placeholders,
+ * as MongoDB matches the elements of arrays implicitly.
+ *
+ * @example
+ * toMongoPath("items.<idx>.name"); // "items.name"
+ */
+export function toMongoPath(path: string): string {
+    return path.replaceAll(`.${DEFAULT_ARRAY_PLACEHOLDER}`, "");
+}
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+/**
+ * Unwraps optional, nullable and default Zod schemas, returning the underlying schema.
+ * With the `effects` option, effects (e.g. `.refine()` or `.transform()`) and lazy schemas are unwrapped as well,
+ * to reach the fields of refined objects.
+ */
+export function unwrapZodType(schema: z.ZodTypeAny, options: { effects?: boolean } = {}): z.ZodTypeAny {
+    for (;;) {
+        if (schema instanceof z.ZodDefault) schema = schema.removeDefault();
+        else if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) schema = schema.unwrap();
+        else if (options.effects && schema instanceof z.ZodEffects) schema = schema.innerType();
+        else if (options.effects && schema instanceof z.ZodLazy) schema = schema.schema;
+        else return schema;
+    }
+}
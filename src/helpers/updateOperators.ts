@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { unwrapZodType } from "./unwrapZodType.js";
+import { getSchemaAtPath } from "./getSchemaAtPath.js";
+import { UPDATE_OPERATORS } from "../constants.js";
+
+import type { ZodIssue } from "zod";
+import type { BSON } from "mongodb";
+
+type UpdateOperator = (typeof UPDATE_OPERATORS)[number];
+
+/** The direction of the `$pop` operator and the `$sort` modifier. */
+const SORT_DIRECTION = z.union([z.literal(1), z.literal(-1)]);
+
+/**
+ * Splits an update into the fields to set, the fields to set with dot-notation or positional key paths,
+ * and the update operators (the keys starting with `$`).
+ *
+ * @param {Record<string | number, unknown>} update - The update to split.
+ */
+export function splitUpdate(update: Record<string | number, unknown>): {
+    data: Record<string | number, unknown>;
+    paths: Record<string, unknown>;
+    operators: Record<string, unknown>;
+} {
+    const data: Record<string | number, unknown> = {};
+    const paths: Record<string, unknown> = {};
+    const operators: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(update)) {
+        if (key.startsWith("$")) operators[key] = value;
+        else if (key.includes(".")) paths[key] = value;
+        else data[key] = value;
+    }
+
+    return { data, paths, operators };
+}
+
+/**
+ * Validates the values of dot-notation and positional key paths (e.g. `address.city` or `roles.$[role]`)
+ * against the schema of the fields they target. `undefined` values are only allowed for optional fields.
+ *
+ * @param {z.ZodTypeAny} schema - The schema of the model.
+ * @param {Record<string, unknown>} paths - The key paths and their values.
+ *
+ * @returns The parsed values (with the field schema transforms applied), and the issues found.
+ */
+export async function parseUpdatePaths(
+    schema: z.ZodTypeAny,
+    paths: Record<string, unknown>
+): Promise<{ paths: Record<string, unknown>; issues: ZodIssue[] }> {
+    const issues: ZodIssue[] = [];
+    const parsed = await parseFields(schema, paths, [], issues, (fieldSchema) => fieldSchema);
+
+    return { paths: parsed, issues };
+}
+
+/**
+ * Validates the operands of the update operators against the schema of the fields they target.
+ *
+ * - `$inc` and `$mul` require numeric fields (and integer operands for integer fields).
+ * - `$min` and `$max` operands are validated against the field schema.
+ * - `$push`, `$addToSet`, `$pull` and `$pop` require array fields, and elements are validated against the element schema.
+ *   Object operands of `$pull` are treated as conditions and left untouched.
+ * - `$rename` requires an optional source field and a target field of the same type.
+ * - `$currentDate` requires a field accepting dates.
+ *
+ * **Note:** Only the operands are validated, as the resulting values depend on the stored document: `$inc` and `$mul`
+ * may take a number field outside its `.min()` and `.max()` bounds, `$push` and `$addToSet` may grow an array beyond
+ * its `.max()` length, and `$pull` and `$pop` may shrink it below its `.min()` length.
+ *
+ * @param {z.ZodTypeAny} schema - The schema of the model.
+ * @param {Record<string, unknown>} operators - The update operators to validate.
+ *
+ * @returns The parsed operators (with the field schema transforms applied), and the issues found.
+ */
+export async function parseUpdateOperators(
+    schema: z.ZodTypeAny,
+    operators: Record<string, unknown>
+): Promise<{ operators: Record<string, BSON.Document>; issues: ZodIssue[] }> {
+    const parsed: Record<string, BSON.Document> = {};
+    const issues: ZodIssue[] = [];
+
+    for (const [operator, fields] of Object.entries(operators)) {
+        if (!UPDATE_OPERATORS.includes(operator as UpdateOperator)) {
+            issues.push(createIssue([operator], `Unsupported update operator '${operator}'.`));
+            continue;
+        } else if (!isPlainObject(fields)) {
+            issues.push(createIssue([operator], "Expected an object of key paths."));
+            continue;
+        }
+
+        parsed[operator] = await parseFields(schema, fields, [operator], issues, (fieldSchema, operand) =>
+            getOperandSchema(operator as UpdateOperator, fieldSchema, operand, schema)
+        );
+    }
+
+    return { operators: parsed, issues };
+}
+
+/**
+ * Validates the values of the key paths with the schemas built from the fields they target,
+ * collecting the issues (prefixed with the specified path) in place.
+ */
+async function parseFields(
+    schema: z.ZodTypeAny,
+    fields: Record<string, unknown>,
+    prefix: string[],
+    issues: ZodIssue[],
+    getValueSchema: (fieldSchema: z.ZodTypeAny, value: unknown) => z.ZodTypeAny
+): Promise<Record<string, unknown>> {
+    const parsed: Record<string, unknown> = {};
+
+    for (const [path, value] of Object.entries(fields)) {
+        const fieldSchema = getSchemaAtPath(schema, path);
+        if (!fieldSchema) {
+            issues.push(createIssue([...prefix, path], `Unknown key path '${path}'.`));
+            continue;
+        }
+
+        const result = await getValueSchema(fieldSchema, value).safeParseAsync(value);
+        if (result.success) parsed[path] = result.data;
+        else issues.push(...result.error.issues.map((issue) => ({ ...issue, path: [...prefix, path, ...issue.path] })));
+    }
+
+    return parsed;
+}
+
+/**
+ * Builds the schema validating the operand of an update operator applied to the specified field.
+ * The constraints of the field on the resulting value (e.g. `.min()` or `.max()`) are not checked.
+ */
+function getOperandSchema(
+    operator: UpdateOperator,
+    fieldSchema: z.ZodTypeAny,
+    operand: unknown,
+    schema: z.ZodTypeAny
+): z.ZodTypeAny {
+    const field = unwrapZodType(fieldSchema);
+
+    switch (operator) {
+        case "$inc":
+        case "$mul":
+            if (!(field instanceof z.ZodNumber)) return invalid("Expected a numeric field.");
+            return field.isInt ? z.number().int() : z.number();
+        case "$min":
+        case "$max":
+            return fieldSchema;
+        case "$push":
+        case "$addToSet":
+            if (!(field instanceof z.ZodArray)) return invalid("Expected an array field.");
+            if (!isPlainObject(operand) || !("$each" in operand)) return field.element;
+            if (operator === "$addToSet") return z.object({ $each: z.array(field.element) }).strict();
+
+            return z
+                .object({
+                    $each: z.array(field.element),
+                    $slice: z.number().int().optional(),
+                    $position: z.number().int().optional(),
+                    $sort: z.union([SORT_DIRECTION, z.record(SORT_DIRECTION)]).optional(),
+                })
+                .strict();
+        case "$pull":
+            if (!(field instanceof z.ZodArray)) return invalid("Expected an array field.");
+            return isPlainObject(operand) ? z.record(z.unknown()) : field.element;
+        case "$pop":
+            if (!(field instanceof z.ZodArray)) return invalid("Expected an array field.");
+            return SORT_DIRECTION;
+        case "$rename":
+            if (!fieldSchema.isOptional()) return invalid("Cannot rename a required field.");
+            return z.string().superRefine((target, ctx) => {
+                const targetSchema = getSchemaAtPath(schema, target);
+                if (!targetSchema) ctx.addIssue({ code: "custom", message: `Unknown key path '${target}'.` });
+                else if (unwrapZodType(targetSchema)._def.typeName !== field._def.typeName)
+                    ctx.addIssue({ code: "custom", message: "Expected a target field of the same type." });
+            });
+        case "$currentDate":
+            if (!fieldSchema.safeParse(new Date()).success) return invalid("Expected a date field.");
+            return z.union([z.literal(true), z.object({ $type: z.literal("date") }).strict()]);
+    }
+}
+
+/** Creates a schema that rejects any operand with the specified message. */
+function invalid(message: string): z.ZodTypeAny {
+    return z.unknown().superRefine((_, ctx) => ctx.addIssue({ code: "custom", message }));
+}
+
+function createIssue(path: string[], message: string): ZodIssue {
+    return { code: "custom", path, message };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
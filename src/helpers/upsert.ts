@@ -0,0 +1,84 @@
+import type { BSON } from "mongodb";
+
+/**
+ * Extracts the equality conditions of a filter, which MongoDB copies into the document inserted by an upsert.
+ * Conditions of top-level `$and` branches are included, and `{ $eq: value }` conditions are unwrapped.
+ *
+ * @param {BSON.Document} filter - The filter of the upsert.
+ *
+ * @returns {Record<string, unknown>} The equality values, by dot-notation path.
+ *
+ * @example
+ * getFilterEqualityFields({ name: "John", age: { $gt: 18 }, "address.city": { $eq: "Paris" } });
+ * // { name: "John", "address.city": "Paris" }
+ */
+export function getFilterEqualityFields(filter: BSON.Document): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(filter)) {
+        if (key === "$and" && Array.isArray(value))
+            for (const branch of value) Object.assign(fields, getFilterEqualityFields(branch));
+        else if (key.startsWith("$") || value instanceof RegExp) continue;
+        else if (!isPlainObject(value)) fields[key] = value;
+        else if ("$eq" in value) fields[key] = value.$eq;
+        else if (!Object.keys(value).some((operator) => operator.startsWith("$"))) fields[key] = value;
+    }
+
+    return fields;
+}
+
+/**
+ * Builds the document that an upsert would insert, from the filter equality fields and the update fields.
+ * Dot-notation paths are expanded, and positional paths (which cannot apply to an inserted document) are ignored.
+ *
+ * @param {Record<string, unknown>} equality - The equality fields of the filter.
+ * @param {Record<string, unknown>} data - The fields set by the update.
+ */
+export function buildUpsertDocument(
+    equality: Record<string, unknown>,
+    data: Record<string | number, unknown>
+): Record<string, unknown> {
+    const doc: Record<string, unknown> = {};
+
+    for (const [path, value] of [...Object.entries(equality), ...Object.entries(data)]) {
+        const keys = path.split(".");
+        if (keys.some((key) => key.startsWith("$"))) continue;
+
+        let current = doc;
+        for (const key of keys.slice(0, -1)) {
+            if (!isPlainObject(current[key])) current[key] = {};
+            current = current[key] as Record<string, unknown>;
+        }
+
+        current[keys[keys.length - 1]] = value;
+    }
+
+    return doc;
+}
+
+/**
+ * Returns the fields of the document that are not touched by the filter or the update, by dot-notation path.
+ * These fields can be set with `$setOnInsert` without conflicting with the update.
+ *
+ * @param {Record<string, unknown>} doc - The document that would be inserted.
+ * @param {string[]} touched - The paths touched by the filter and the update.
+ * @param {string} prefix - The path of the document within the inserted document.
+ */
+export function getInsertOnlyFields(doc: Record<string, unknown>, touched: string[], prefix = ""): BSON.Document {
+    const fields: BSON.Document = {};
+
+    for (const [key, value] of Object.entries(doc)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+
+        if (touched.some((touchedPath) => path === touchedPath || path.startsWith(`${touchedPath}.`))) continue;
+        else if (touched.some((touchedPath) => touchedPath.startsWith(`${path}.`))) {
+            if (isPlainObject(value)) Object.assign(fields, getInsertOnlyFields(value, touched, path));
+        } else fields[path] = value;
+    }
+
+    return fields;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
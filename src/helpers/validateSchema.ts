@@ -1,32 +1,28 @@
 import { z } from "zod";
-import { InvalidSchemaMap } from "../types.js";
+import { DiscriminatedUnionSchema, InvalidSchemaMap } from "../types.js";
 import InvalidSchemaError from "../errors/model/invalidSchema.js";
 import { DEFAULT_ARRAY_PLACEHOLDER, INVALID_ID_ZOD_TYPES, INVALID_ZOD_TYPES } from "../constants.js";
 
 /**
  * Validates a Zod schema to ensure it is compatible with MongoDB document structures.
+ * Discriminated unions are validated option by option, as each option describes a kind of document.
  *
  * **Note:**
  * - The `_id` field must not be an `array`, `tuple`, `undefined`, or `unknown` type.
- * - Except for ZodObject and ZodArray, this does not yet apply to verifying nested schemas.
+ * - Except for ZodObject, ZodArray and union schemas, this does not yet apply to verifying nested schemas.
  *
- * @param {z.ZodObject<T>} zod - The Zod schema to validate.
+ * @param {z.ZodObject<T> | DiscriminatedUnionSchema} zod - The Zod schema to validate.
  * @param {string} modelName - The name of the model being validated. Used in error reporting.
  * @throws {InvalidSchemaError} Throws an error if the schema contains invalid types.
  */
-export function validateSchema<T extends z.ZodRawShape>(zod: z.ZodObject<T>, modelName: string): void {
+export function validateSchema<T extends z.ZodRawShape>(
+    zod: z.ZodObject<T> | DiscriminatedUnionSchema,
+    modelName: string
+): void {
     const err: InvalidSchemaMap = [];
-
-    if (zod.shape._id instanceof z.ZodOptional) {
-        const typeName = typeof zod.shape._id === "object" ? zod.shape._id.constructor.name : typeof zod.shape._id;
-        err.push({ path: "_id", reason: `The '_id' field must not be an '${typeName}' type.` });
-    }
-
-    const idField = getBaseSchema(zod.shape._id);
-    if (idField && (isInvalidIdField(idField) || isInvalidField(idField))) {
-        const typeName = typeof idField === "object" ? idField.constructor.name : typeof idField;
-        err.push({ path: "_id", reason: `The '_id' field must not be an '${typeName}' type.` });
-    }
+    const report = (path: string, reason: string) => {
+        if (!err.some((item) => item.path === path && item.reason === reason)) err.push({ path, reason });
+    };
 
     const processSchema = (zod: z.ZodType, path: string = "") => {
         if (zod instanceof z.ZodObject) {
@@ -36,14 +32,33 @@ export function validateSchema<T extends z.ZodRawShape>(zod: z.ZodObject<T>, mod
             processSchema(zod.element, `${path ? path + "." : ""}${DEFAULT_ARRAY_PLACEHOLDER}`);
         } else {
             const baseSchema = getBaseSchema(zod);
-            if (!(baseSchema instanceof z.ZodType) || isInvalidField(baseSchema)) {
+            if (baseSchema instanceof z.ZodUnion || baseSchema instanceof z.ZodDiscriminatedUnion) {
+                for (const option of baseSchema.options as z.ZodTypeAny[]) processSchema(option, path);
+            } else if (!(baseSchema instanceof z.ZodType) || isInvalidField(baseSchema)) {
                 const typeName = typeof baseSchema === "object" ? baseSchema.constructor.name : typeof baseSchema;
-                err.push({ path, reason: `Schema type '${typeName}' is not allowed.` });
+                report(path, `Schema type '${typeName}' is not allowed.`);
             }
         }
     };
 
-    processSchema(idField ? zod.omit({ _id: true } as any) : zod);
+    const processDocument = (zod: z.ZodObject<any>) => {
+        if (zod.shape._id instanceof z.ZodOptional) {
+            const typeName = typeof zod.shape._id === "object" ? zod.shape._id.constructor.name : typeof zod.shape._id;
+            report("_id", `The '_id' field must not be an '${typeName}' type.`);
+        }
+
+        const idField = getBaseSchema(zod.shape._id);
+        if (idField && (isInvalidIdField(idField) || isInvalidField(idField))) {
+            const typeName = typeof idField === "object" ? idField.constructor.name : typeof idField;
+            report("_id", `The '_id' field must not be an '${typeName}' type.`);
+        }
+
+        processSchema(idField ? zod.omit({ _id: true } as any) : zod);
+    };
+
+    if (zod instanceof z.ZodDiscriminatedUnion) for (const option of zod.options) processDocument(option);
+    else processDocument(zod);
+
     if (err.length > 0) throw new InvalidSchemaError(modelName, err);
 }
 
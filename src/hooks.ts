@@ -0,0 +1,40 @@
+import OperationAbortedError from "./errors/model/operationAborted.js";
+
+import type { HookContext, HookOperation, PostHook, PostHookContext, PreHook } from "./types.js";
+
+/**
+ * Stores the pre and post hooks registered for model operations and runs them in registration order.
+ *
+ * @template T - The type of the documents handled by the hooks.
+ */
+export class HookRegistry<T> {
+    private _pre: Map<HookOperation, PreHook<T, any>[]> = new Map();
+    private _post: Map<HookOperation, PostHook<T, any>[]> = new Map();
+
+    /** Registers a hook running before the specified operation(s). */
+    public pre<Op extends HookOperation>(operations: Op | Op[], hook: PreHook<T, Op>): void {
+        for (const operation of Array.isArray(operations) ? operations : [operations])
+            this._pre.set(operation, [...(this._pre.get(operation) ?? []), hook]);
+    }
+
+    /** Registers a hook running after the specified operation(s). */
+    public post<Op extends HookOperation>(operations: Op | Op[], hook: PostHook<T, Op>): void {
+        for (const operation of Array.isArray(operations) ? operations : [operations])
+            this._post.set(operation, [...(this._post.get(operation) ?? []), hook]);
+    }
+
+    /**
+     * Runs the pre hooks of the context's operation.
+     *
+     * @throws {OperationAbortedError} If a pre hook returns `false`.
+     */
+    public async runPre<Op extends HookOperation>(ctx: HookContext<T, Op>): Promise<void> {
+        for (const hook of this._pre.get(ctx.operation) ?? [])
+            if ((await hook(ctx)) === false) throw new OperationAbortedError(ctx.operation, ctx.model);
+    }
+
+    /** Runs the post hooks of the context's operation. */
+    public async runPost<Op extends HookOperation>(ctx: PostHookContext<T, Op>): Promise<void> {
+        for (const hook of this._post.get(ctx.operation) ?? []) await hook(ctx);
+    }
+}
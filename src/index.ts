@@ -1,5 +1,8 @@
 import Mongooat from "./mongooat.js";
 export { Mongooat };
+export { LocalKeyProvider } from "./keyProvider.js";
+export { Migrator } from "./migrator.js";
+export { MemoryCheckpointStore, CollectionCheckpointStore } from "./checkpoint.js";
 
 export { z } from "zod";
 export * from "./errors/index.js";
@@ -0,0 +1,74 @@
+import InvalidEncryptionKeyError from "./errors/invalidEncryptionKey.js";
+
+import type { EncryptionKeyProvider } from "./types.js";
+
+/** The length of the AES-256 keys, in bytes. */
+const KEY_LENGTH = 32;
+
+/** The maximum length of the key ids, in bytes, as encrypted values store it in a single byte. */
+const MAX_KEY_ID_LENGTH = 255;
+
+/**
+ * A key provider holding the encryption keys in memory, e.g. loaded from environment variables or a secret manager.
+ * Keys are 32-byte buffers or base64 strings.
+ *
+ * To rotate keys, add a new key and make it the current one: values encrypted with the previous keys are still
+ * decrypted, and can be re-encrypted with `Model.rotateEncryptionKey()` before the previous keys are removed.
+ *
+ * @example
+ * const keyProvider = new LocalKeyProvider({ "2024-01": process.env.KEY_2024_01!, "2024-06": process.env.KEY_2024_06! }, "2024-06");
+ * const UserModel = mongooat.Model("users", schema, { encryptedFields: ["ssn"], encryption: { keyProvider } });
+ */
+export class LocalKeyProvider implements EncryptionKeyProvider {
+    private _keys: Map<string, Buffer> = new Map();
+    private _currentKeyId: string;
+
+    /**
+     * @param {Record<string, Buffer | string>} keys - The keys by id, as buffers or base64 strings.
+     * @param {string} currentKeyId - The id of the key encrypting new values (default: the last key).
+     *
+     * @throws {InvalidEncryptionKeyError} If a key is not 32 bytes long, a key id is longer than 255 bytes,
+     *                                     or the current key is missing.
+     */
+    constructor(keys: Record<string, Buffer | string>, currentKeyId?: string) {
+        for (const [keyId, key] of Object.entries(keys)) {
+            const keyIdLength = Buffer.byteLength(keyId, "utf8");
+            if (keyIdLength > MAX_KEY_ID_LENGTH)
+                throw new InvalidEncryptionKeyError(
+                    keyId,
+                    `key id must be at most ${MAX_KEY_ID_LENGTH} bytes, got ${keyIdLength}.`
+                );
+
+            const buffer = typeof key === "string" ? Buffer.from(key, "base64") : key;
+            if (buffer.length !== KEY_LENGTH)
+                throw new InvalidEncryptionKeyError(keyId, `expected ${KEY_LENGTH} bytes, got ${buffer.length}.`);
+
+            this._keys.set(keyId, buffer);
+        }
+
+        this._currentKeyId = currentKeyId ?? Object.keys(keys).at(-1) ?? "";
+        this.getKey(this._currentKeyId);
+    }
+
+    /** A getter for the id of the key encrypting new values. */
+    public get currentKeyId(): string {
+        return this._currentKeyId;
+    }
+
+    /** A getter for the ids of all the keys. */
+    public get keyIds(): string[] {
+        return [...this._keys.keys()];
+    }
+
+    /**
+     * Returns the key with the specified id.
+     *
+     * @throws {InvalidEncryptionKeyError} If the key is missing.
+     */
+    public getKey(keyId: string): Buffer {
+        const key = this._keys.get(keyId);
+        if (!key) throw new InvalidEncryptionKeyError(keyId, "key not found.");
+
+        return key;
+    }
+}
@@ -0,0 +1,257 @@
+import { createHash } from "node:crypto";
+import MigrationLockedError from "./errors/migrationLocked.js";
+import InvalidMigrationError from "./errors/invalidMigration.js";
+import MigrationChecksumError from "./errors/migrationChecksum.js";
+
+import type Mongooat from "./mongooat.js";
+import type { ClientSession, Collection, MongoServerError } from "mongodb";
+import type { Migration, MigrationStatus, MigratorOptions } from "./types.js";
+
+/** The document recording an applied migration in the migrations collection. */
+export type MigrationDocument = { version: string; checksum: string; description?: string; appliedAt: Date };
+
+/** The lock document of the migrations collection, held while migrations run. */
+export type MigrationLockDocument = { _id: "lock"; lockedAt: Date };
+
+/** The id of the lock document. */
+const LOCK_ID = "lock";
+
+/** The error code of duplicate key errors. */
+const DUPLICATE_KEY_CODE = 11000;
+
+/**
+ * Applies and reverts versioned migrations, recording the applied versions and their checksums in a collection
+ * (`_mongooat_migrations` by default).
+ *
+ * A lock document stops several processes (e.g. two deploys) from running migrations at once, and each migration
+ * runs inside a transaction when the deployment supports it (replica sets and sharded clusters), so that a failing
+ * migration is not recorded as applied.
+ *
+ * @example
+ * const migrator = new Migrator(mongooat, [
+ *     {
+ *         version: "2024-06-01-lowercase-emails",
+ *         up: async ({ models }) => {
+ *             await models.get("users")!.updateMany({}, [{ $set: { email: { $toLower: "$email" } } }]);
+ *         },
+ *     },
+ * ]);
+ *
+ * const applied = await migrator.migrate();
+ */
+export class Migrator {
+    private _mongooat: Mongooat;
+    private _migrations: Migration[];
+    private _collectionName: string;
+    private _lockTimeout: number;
+    private _transactions?: boolean;
+
+    /**
+     * @param {Mongooat} mongooat - The `Mongooat` instance, whose current database stores the migrations.
+     * @param {Migration[]} migrations - The migrations, in the order they are applied.
+     * @param {MigratorOptions} options - The migrations collection name and the lock timeout.
+     *
+     * @throws {InvalidMigrationError} If two migrations have the same version.
+     */
+    constructor(mongooat: Mongooat, migrations: Migration[], options: MigratorOptions = {}) {
+        const versions = new Set<string>();
+        for (const { version } of migrations) {
+            if (versions.has(version)) throw new InvalidMigrationError(version, "duplicate version.");
+            versions.add(version);
+        }
+
+        this._mongooat = mongooat;
+        this._migrations = migrations;
+        this._collectionName = options.collectionName ?? "_mongooat_migrations";
+        this._lockTimeout = options.lockTimeout ?? 10 * 60 * 1000;
+    }
+
+    /** A getter for the collection storing the applied migrations. */
+    private get records(): Collection<MigrationDocument> {
+        return this._mongooat.getDb().collection<MigrationDocument>(this._collectionName);
+    }
+
+    /** A getter for the collection storing the lock (the migrations collection). */
+    private get locks(): Collection<MigrationLockDocument> {
+        return this._mongooat.getDb().collection<MigrationLockDocument>(this._collectionName);
+    }
+
+    /**
+     * Applies the pending migrations, in order.
+     *
+     * @returns {Promise<string[]>} A promise that resolves to the versions of the applied migrations.
+     *
+     * @throws {MigrationLockedError} If another process is running migrations.
+     * @throws {MigrationChecksumError} If an applied migration was modified since it was applied.
+     */
+    public async migrate(): Promise<string[]> {
+        return this.withLock(async () => {
+            const applied = await this.getApplied();
+            for (const migration of this._migrations) this.checkChecksum(migration, applied.get(migration.version));
+
+            const pending = this._migrations.filter((migration) => !applied.has(migration.version));
+            for (const migration of pending) {
+                await this.run(migration, "up", (session) =>
+                    this.records.insertOne(
+                        {
+                            version: migration.version,
+                            checksum: getChecksum(migration),
+                            ...(migration.description && { description: migration.description }),
+                            appliedAt: new Date(),
+                        },
+                        { session }
+                    )
+                );
+            }
+
+            return pending.map((migration) => migration.version);
+        });
+    }
+
+    /**
+     * Reverts the last applied migrations, from the most recent one.
+     *
+     * @param {number} steps - The number of migrations to revert (default: 1).
+     *
+     * @returns {Promise<string[]>} A promise that resolves to the versions of the reverted migrations.
+     *
+     * @throws {MigrationLockedError} If another process is running migrations.
+     * @throws {InvalidMigrationError} If a migration to revert is missing or has no `down` function.
+     * @throws {MigrationChecksumError} If a migration to revert was modified since it was applied.
+     */
+    public async rollback(steps: number = 1): Promise<string[]> {
+        return this.withLock(async () => {
+            const order = (version: string) => this._migrations.findIndex((item) => item.version === version);
+            const records = [...(await this.getApplied()).values()]
+                .sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime() || order(b.version) - order(a.version))
+                .slice(0, Math.max(steps, 0));
+
+            const migrations = records.map((record) => {
+                const migration = this._migrations.find((item) => item.version === record.version);
+                if (!migration) throw new InvalidMigrationError(record.version, "not found in the migrations.");
+                if (!migration.down) throw new InvalidMigrationError(record.version, "no down function.");
+
+                this.checkChecksum(migration, record);
+                return migration;
+            });
+
+            for (const migration of migrations)
+                await this.run(migration, "down", (session) =>
+                    this.records.deleteOne({ version: migration.version }, { session })
+                );
+
+            return migrations.map((migration) => migration.version);
+        });
+    }
+
+    /**
+     * Lists the migrations with their state, followed by the applied migrations missing from the list.
+     *
+     * @returns {Promise<MigrationStatus[]>} A promise that resolves to the status of each migration.
+     */
+    public async status(): Promise<MigrationStatus[]> {
+        const applied = await this.getApplied();
+        const status = this._migrations.map((migration): MigrationStatus => {
+            const { version, description } = migration;
+            const record = applied.get(version);
+            if (!record) return { version, description, state: "pending" };
+
+            const state = record.checksum === getChecksum(migration) ? "applied" : "changed";
+            return { version, description, state, appliedAt: record.appliedAt };
+        });
+
+        for (const { version, description, appliedAt } of applied.values())
+            if (!this._migrations.some((item) => item.version === version))
+                status.push({ version, description, state: "missing", appliedAt });
+
+        return status;
+    }
+
+    /**
+     * Releases the lock regardless of its owner, e.g. after a process crashed while running migrations.
+     *
+     * **Note:** Only use this if no other process is running migrations.
+     */
+    public async unlock(): Promise<void> {
+        await this.locks.deleteOne({ _id: LOCK_ID });
+    }
+
+    /** Returns the applied migrations, keyed by version. */
+    private async getApplied(): Promise<Map<string, MigrationDocument>> {
+        const records = await this.records.find({ version: { $exists: true } }, { projection: { _id: 0 } }).toArray();
+        return new Map(records.map((record) => [record.version, record]));
+    }
+
+    /** @throws {MigrationChecksumError} If the migration was applied with a different checksum. */
+    private checkChecksum(migration: Migration, record?: MigrationDocument): void {
+        if (record && record.checksum !== getChecksum(migration)) throw new MigrationChecksumError(migration.version);
+    }
+
+    /**
+     * Runs a migration and records the change, inside a transaction if the migration allows it and the deployment
+     * supports it.
+     */
+    private async run(
+        migration: Migration,
+        direction: "up" | "down",
+        record: (session?: ClientSession) => Promise<unknown>
+    ): Promise<void> {
+        const run = async (session?: ClientSession) => {
+            await migration[direction]!({ mongooat: this._mongooat, models: this._mongooat.models, session });
+            await record(session);
+        };
+
+        if (migration.transaction !== false && (await this.supportsTransactions()))
+            await this._mongooat.transaction(run);
+        else await run();
+    }
+
+    /** Checks whether the deployment supports transactions, i.e. is a replica set or a sharded cluster. */
+    private async supportsTransactions(): Promise<boolean> {
+        if (this._transactions === undefined) {
+            const hello = await this._mongooat.getDb().command({ hello: 1 });
+            this._transactions = Boolean(hello.setName) || hello.msg === "isdbgrid";
+        }
+
+        return this._transactions;
+    }
+
+    /**
+     * Runs the callback while holding the lock. A lock older than the lock timeout is considered left by a crashed
+     * process, and is taken over.
+     *
+     * @throws {MigrationLockedError} If another process holds the lock.
+     */
+    private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+        const lockedAt = new Date();
+
+        try {
+            await this.locks.insertOne({ _id: LOCK_ID, lockedAt });
+        } catch (error) {
+            if ((error as MongoServerError).code !== DUPLICATE_KEY_CODE) throw error;
+
+            const expired = new Date(lockedAt.getTime() - this._lockTimeout);
+            const lock = await this.locks.findOneAndUpdate(
+                { _id: LOCK_ID, lockedAt: { $lt: expired } },
+                { $set: { lockedAt } }
+            );
+            if (!lock) {
+                const current = await this.locks.findOne({ _id: LOCK_ID });
+                throw new MigrationLockedError(current?.lockedAt ?? lockedAt);
+            }
+        }
+
+        try {
+            return await fn();
+        } finally {
+            await this.locks.deleteOne({ _id: LOCK_ID, lockedAt });
+        }
+    }
+}
+
+/** Computes the checksum of a migration from the source of its `up` and `down` functions. */
+function getChecksum(migration: Migration): string {
+    return createHash("sha256")
+        .update(`${migration.up.toString()}\n${migration.down?.toString() ?? ""}`)
+        .digest("hex");
+}
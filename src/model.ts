@@ -1,32 +1,112 @@
+import { z } from "zod";
 import { ObjectId } from "mongodb";
+import { getRefTarget } from "./schemas/ref.js";
 import { ZodObjectId } from "./schemas/objectId.js";
 import { deleteField } from "./helpers/deleteField.js";
-import { DEFAULT_ARRAY_PLACEHOLDER } from "./constants.js";
+import { toMongoPath } from "./helpers/toMongoPath.js";
+import { emptyBulkWriteResult } from "./helpers/emptyBulkWriteResult.js";
+import { buildKeysetFilter, decodeCursorToken, encodeCursorToken, withIdTieBreaker } from "./helpers/pagination.js";
+import { DEFAULT_ARRAY_PLACEHOLDER, FIRST_STAGE_OPERATORS } from "./constants.js";
 import { validateSchema } from "./helpers/validateSchema.js";
+import { Query } from "./query.js";
+import { ModelCursor } from "./cursor.js";
+import { ModelChangeStream } from "./changeStream.js";
+import { Pipeline } from "./pipeline.js";
+import { HookRegistry } from "./hooks.js";
 import { DefaultModelOptions, ModelOptions } from "./options/modelOptions.js";
 import { createSchemaFromData, createSchemaFromPaths } from "./helpers/generateSchema.js";
+import { addHiddenProjection, getHiddenExcludedPaths } from "./helpers/hiddenFields.js";
 import { processUndefinedFieldsForUpdate, removeUndefinedFields } from "./helpers/processUndefinedFields.js";
+import { parseUpdateOperators, parseUpdatePaths, splitUpdate } from "./helpers/updateOperators.js";
+import { buildUpsertDocument, getFilterEqualityFields, getInsertOnlyFields } from "./helpers/upsert.js";
+import { coerceFilter } from "./helpers/coerceFilter.js";
+import { compileJsonSchema } from "./helpers/jsonSchema.js";
+import { getSchemaAtPath } from "./helpers/getSchemaAtPath.js";
+import { mergeDiscriminatedOptions } from "./helpers/discriminator.js";
+import { diffIndexes, getIndexName, getIndexPaths } from "./helpers/indexes.js";
+import {
+    decryptValue,
+    encryptValue,
+    isEncryptedValue,
+    getEncryptionInfo,
+    mapEncryptedValues,
+    mapFilterValues,
+    mapPath,
+    mapUpdateFields,
+    stripArrayKeys,
+} from "./helpers/encryption.js";
 
 import ValidateError from "./errors/validateError.js";
+import MethodExistedError from "./errors/methodExisted.js";
+import MethodNotFoundError from "./errors/methodNotFound.js";
+import InvalidRefPathError from "./errors/model/invalidRefPath.js";
+import OperationAbortedError from "./errors/model/operationAborted.js";
 import MissingModelNameError from "./errors/model/missingModelName.js";
 import IdFieldNotAllowedError from "./errors/model/idFieldNotAllowed.js";
-
-import type { ZodObject, ZodRawShape } from "zod";
+import InvalidFilterPathError from "./errors/model/invalidFilterPath.js";
+import InvalidIndexPathError from "./errors/model/invalidIndexPath.js";
+import VersionConflictError from "./errors/model/versionConflict.js";
+import MissingKeyProviderError from "./errors/model/missingKeyProvider.js";
+import UnsupportedSchemaError from "./errors/model/unsupportedSchema.js";
+import InvalidUpgradeChainError from "./errors/model/invalidUpgradeChain.js";
+import InvalidDiscriminatorError from "./errors/model/invalidDiscriminator.js";
+
+import type Mongooat from "./mongooat.js";
+import type { ZodIssue, ZodObject, ZodRawShape } from "zod";
 import type { ParseOptions } from "./options/parseOptions.js";
 import type {
     OmitId,
     IdField,
     Flatten,
+    PreHook,
+    PostHook,
+    Populated,
     DeepPartial,
+    UpdateOperators,
+    UpdatePathValues,
+    HookPayload,
+    HookContext,
+    Projected,
+    HookOperation,
+    MGProjection,
+    MGFindOptions,
+    MGCursorOptions,
+    MGChangeStreamOptions,
+    UpsertResult,
+    PaginateResult,
+    PaginateOptions,
+    ModelMethods,
+    ModelStatics,
+    BoundMethods,
     ResolvePath,
+    QuerySort,
     ObjectKeyPaths,
+    SoftDeleteMode,
     OptionalDefaults,
+    CursorPaginateResult,
+    CursorPaginateOptions,
     BulkWriteErrorMap,
     BulkWriteResultMap,
+    SyncValidatorResult,
+    SyncIndexesResult,
+    SyncIndexesOptions,
+    SchemaUpgrade,
+    DiscriminatedType,
+    DiscriminatedShape,
+    DiscriminatorValue,
+    SyncValidatorOptions,
+    DiscriminatedUnionSchema,
     MGIndexDescription,
     MGIndexSpecification,
     MGCreateIndexesOptions,
     AssignStringToObjectId,
+    MGFilter,
+    EncryptionKeyProvider,
+    MGAggregateOptions,
+    IncludeHiddenOption,
+    MGFindOneAndUpdateOptions,
+    MGFindOneAndDeleteOptions,
+    MGFindOneAndReplaceOptions,
 } from "./types.js";
 import type {
     Db,
@@ -34,11 +114,14 @@ import type {
     Filter,
     WithId,
     Collection,
+    OptionalId,
+    FindCursor,
     FindOptions,
     DeleteResult,
     ModifyResult,
     UpdateFilter,
     UpdateResult,
+    ClientSession,
     DeleteOptions,
     UpdateOptions,
     ReplaceOptions,
@@ -69,14 +152,18 @@ export type TypeOf<T extends Model<any, any>> = T["_type"];
 /** Extracts the type dot-notation paths of a model instance. */
 export type GetPaths<T extends Model<any, any>> = T["_paths"];
 
-/** Update type for a model instance. */
-export type UpdateType<T> = DeepPartial<AssignStringToObjectId<OmitId<T>>>;
+/** Update type for a model instance: the fields to set (including dot-notation and positional paths), along with typed update operators. */
+export type UpdateType<T> = DeepPartial<AssignStringToObjectId<OmitId<T>>> & UpdatePathValues<T> & UpdateOperators<T>;
 
 /** Insert type for a model instance */
-export type InsertType<T extends ZodRawShape> = AssignStringToObjectId<OptionalUnlessRequiredId<OptionalDefaults<T>>>;
+export type InsertType<T extends ZodRawShape> = T extends unknown
+    ? AssignStringToObjectId<OptionalUnlessRequiredId<OptionalDefaults<T>>>
+    : never;
 
 /** Replace type for a model instance */
-export type ReplaceType<T extends ZodRawShape> = AssignStringToObjectId<OmitId<OptionalDefaults<T>>>;
+export type ReplaceType<T extends ZodRawShape> = T extends unknown
+    ? AssignStringToObjectId<OmitId<OptionalDefaults<T>>>
+    : never;
 
 /**
  * Represents a model that maps to a MongoDB collection and defines the structure of documents within that collection
@@ -85,27 +172,181 @@ export type ReplaceType<T extends ZodRawShape> = AssignStringToObjectId<OmitId<O
  *
  * @template Type - The TypeScript type that represents the shape of documents in the MongoDB collection.
  * @template SchemaType - The shape of the schema used for validation, defined using Zod.
+ * @template Statics - The custom static methods attached to the model.
+ * @template Methods - The custom document-level methods of the model.
+ * @template Discriminator - The discriminator key of a model created from a discriminated union.
  */
-export class Model<Type extends WithId<Record<string | number, unknown>>, SchemaType extends ZodRawShape> {
+export class Model<
+    Type extends WithId<Record<string | number, unknown>>,
+    SchemaType extends ZodRawShape,
+    Statics extends ModelStatics = {},
+    Methods extends ModelMethods<Type> = {},
+    Discriminator extends string = never
+> {
     private _name: string;
     private _schema: ZodObject<SchemaType>;
+    private _filterSchema: z.ZodTypeAny;
+    private _db: Db;
     private _collection: Collection<Type>;
     private _options: Required<ModelOptions<Type>>;
+    private _statics: Statics;
+    private _methods: Methods;
+    private _base?: Mongooat;
+    private _hooks: HookRegistry<Type> = new HookRegistry();
+    private _timestamps: { createdAt?: string; updatedAt?: string };
+    private _softDelete?: string;
+    private _softDeleteMode: SoftDeleteMode = "exclude";
+    private _versionKey?: string;
+    private _schemaVersion?: { version: number; key: string; upgrades: Map<number, SchemaUpgrade>; writeBack: boolean };
+    private _encryption?: { provider: EncryptionKeyProvider; fields: string[]; deterministic: string[] };
+    private _discriminator?: { key: string; schema: DiscriminatedUnionSchema; models: Map<unknown, Model<any, any>> };
+    private _discriminatorScope?: { key: string; value: unknown; parent: Model<any, any> };
 
     readonly _type: Type = {} as Type;
     readonly _paths: ObjectKeyPaths<Type>[] = [] as ObjectKeyPaths<Type>[];
 
-    constructor(name: string, schema: ZodObject<SchemaType>, db: Db, options?: Partial<ModelOptions<Type>>) {
+    constructor(
+        name: string,
+        schema: ZodObject<SchemaType> | DiscriminatedUnionSchema,
+        db: Db,
+        options?: Partial<ModelOptions<Type>>,
+        base?: Mongooat
+    ) {
         if (!name || name.length === 0) throw new MissingModelNameError();
         validateSchema(schema, name);
 
         this._name = name;
-        this._schema = schema;
+        this._base = base;
 
         options = options ?? {};
         options.collectionName = options.collectionName ?? name;
         this._options = { ...DefaultModelOptions, ...options };
+        this._db = db;
         this._collection = db.collection(this.options.collectionName);
+
+        this._timestamps = this.resolveTimestamps();
+        this._softDelete = this.resolveSoftDelete();
+        this._versionKey = this.resolveVersionKey();
+        this._schemaVersion = this.resolveSchemaVersion();
+        this._encryption = this.resolveEncryption();
+        if (schema instanceof z.ZodDiscriminatedUnion) {
+            // The merged schema describes every kind of document, while documents are validated by their own option
+            const options = schema.options.map((option) => this.extendSchema(option));
+            const union = z.discriminatedUnion(schema.discriminator, options as [ZodObject<any>, ...ZodObject<any>[]]);
+            this._discriminator = { key: schema.discriminator, schema: union, models: new Map() };
+            this._schema = this.extendSchema(mergeDiscriminatedOptions(schema.options)) as ZodObject<SchemaType>;
+        } else this._schema = this.extendSchema(schema);
+        this._filterSchema = "_id" in this._schema.shape ? this._schema : this._schema.extend({ _id: ZodObjectId });
+        for (const index of this._options.indexes) this.checkIndexPaths(index);
+
+        this._statics = (options.statics ?? {}) as Statics;
+        this._methods = (options.methods ?? {}) as Methods;
+        this.registerMethods();
+    }
+
+    /** Resolves the timestamp field names from the `timestamps` option. */
+    private resolveTimestamps(): { createdAt?: string; updatedAt?: string } {
+        const timestamps = this._options.timestamps;
+        if (!timestamps) return {};
+        if (timestamps === true) return { createdAt: "createdAt", updatedAt: "updatedAt" };
+
+        return {
+            createdAt: timestamps.createdAt === false ? undefined : timestamps.createdAt ?? "createdAt",
+            updatedAt: timestamps.updatedAt === false ? undefined : timestamps.updatedAt ?? "updatedAt",
+        };
+    }
+
+    /** Resolves the soft-delete marker field name from the `softDelete` option. */
+    private resolveSoftDelete(): string | undefined {
+        const softDelete = this._options.softDelete;
+        if (!softDelete) return undefined;
+
+        return softDelete === true ? "deletedAt" : softDelete.deletedAt ?? "deletedAt";
+    }
+
+    /** Resolves the version field name from the `versionKey` option. */
+    private resolveVersionKey(): string | undefined {
+        const versionKey = this._options.versionKey;
+        if (!versionKey) return undefined;
+
+        return versionKey === true ? "__v" : versionKey;
+    }
+
+    /**
+     * Resolves the schema version settings from the `schemaVersion` option.
+     *
+     * @throws {InvalidUpgradeChainError} If a previous version has no upgrade to the next version.
+     */
+    private resolveSchemaVersion(): Model<Type, SchemaType>["_schemaVersion"] {
+        const schemaVersion = this._options.schemaVersion;
+        if (!schemaVersion) return undefined;
+
+        const { version, key = "_schemaVersion", writeBack = false } = schemaVersion;
+        if (!Number.isInteger(version) || version < 1)
+            throw new InvalidUpgradeChainError(this._name, `version must be a positive integer, got ${version}.`);
+
+        const upgrades = new Map(schemaVersion.upgrades.map((upgrade) => [upgrade.version, upgrade]));
+        for (let from = 1; from < version; from++)
+            if (!upgrades.has(from))
+                throw new InvalidUpgradeChainError(
+                    this._name,
+                    `missing the upgrade from version ${from} to ${from + 1}.`
+                );
+
+        return { version, key, upgrades, writeBack };
+    }
+
+    /**
+     * Resolves the encrypted key paths and the key provider from the `encryptedFields` and `encryption` options.
+     * Deterministic fields are encrypted even if they are not listed in `encryptedFields`.
+     *
+     * @throws {MissingKeyProviderError} If fields are encrypted without a key provider.
+     */
+    private resolveEncryption(): Model<Type, SchemaType>["_encryption"] {
+        const encryption = this._options.encryption;
+        const deterministic = (encryption ? encryption.deterministicFields ?? [] : []) as string[];
+        const fields = [...new Set([...(this._options.encryptedFields as string[]), ...deterministic])];
+        if (fields.length === 0) return undefined;
+        if (!encryption) throw new MissingKeyProviderError(this._name);
+
+        return { provider: encryption.keyProvider, fields, deterministic };
+    }
+
+    /** Extends the schema with the fields managed by the model options, unless they are already declared. */
+    private extendSchema<S extends ZodRawShape>(schema: ZodObject<S>): ZodObject<S> {
+        const shape: ZodRawShape = {};
+
+        for (const field of Object.values(this._timestamps))
+            if (field && !(field in schema.shape)) shape[field] = z.date().optional();
+
+        if (this._softDelete && !(this._softDelete in schema.shape))
+            shape[this._softDelete] = z.date().nullable().optional();
+
+        if (this._versionKey && !(this._versionKey in schema.shape))
+            shape[this._versionKey] = z.number().int().nonnegative().optional();
+
+        if (this._schemaVersion && !(this._schemaVersion.key in schema.shape))
+            shape[this._schemaVersion.key] = z.number().int().positive().optional();
+
+        return (Object.keys(shape).length > 0 ? schema.extend(shape) : schema) as ZodObject<S>;
+    }
+
+    /**
+     * Attaches custom static methods to the model and checks that custom method names do not conflict
+     * with built-in members, other custom methods, or the fields and built-in members of documents.
+     *
+     * @throws {MethodExistedError} If a custom method name is already in use.
+     */
+    private registerMethods(): void {
+        for (const name of Object.keys(this._statics)) {
+            if (name in this) throw new MethodExistedError(name, this.name);
+            Object.defineProperty(this, name, { value: this._statics[name].bind(this), enumerable: false });
+        }
+
+        for (const name of Object.keys(this._methods)) {
+            if (name in this._statics || name in this.schema.shape || name === "_id" || name in Object.prototype)
+                throw new MethodExistedError(name, this.name);
+        }
     }
 
     /** A getter for the model's name. */
@@ -113,7 +354,10 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
         return this._name;
     }
 
-    /** A getter for the model's schema. */
+    /**
+     * A getter for the model's schema. For a model created from a discriminated union, this is the merged schema
+     * of its options, where the fields that are not common to every option are optional.
+     */
     public get schema(): ZodObject<SchemaType> {
         return this._schema;
     }
@@ -133,11 +377,536 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
         return this._options;
     }
 
+    /** A getter for the model's custom document-level methods. */
+    public get methods(): Methods {
+        return this._methods;
+    }
+
     /** A getter for the model's checkOnGet option. */
     private get checkOnGet(): boolean {
         return this._options.checkOnGet ?? DefaultModelOptions.checkOnGet;
     }
 
+    /**
+     * Returns the sub-model of the documents of a discriminator value, for a model created from a discriminated union.
+     * The sub-model shares the collection and the options of the model, adds the discriminator value to its filters
+     * and aggregations, and validates documents with the option of the value, defaulting the discriminator to it.
+     *
+     * **Note:** Sub-models have their own hooks, and are not registered on the `Mongooat` instance.
+     *
+     * @param {V} value - The discriminator value.
+     *
+     * @returns The sub-model, typed with the documents of the discriminator value.
+     * @throws {InvalidDiscriminatorError} If the model is not discriminated, or the value is not a discriminator value.
+     *
+     * @example
+     * const EventModel = mongooat.Model("events", z.discriminatedUnion("kind", [clickSchema, viewSchema]));
+     * const ClickModel = EventModel.discriminator("click");
+     *
+     * await ClickModel.insertOne({ x: 10, y: 20 }); // { kind: "click", x: 10, y: 20, _id: ... }
+     * const clicks = await ClickModel.find({ x: { $gt: 5 } }); // matches { kind: "click", x: { $gt: 5 } }
+     */
+    public discriminator<const V extends DiscriminatorValue<Type, Discriminator>>(
+        value: V
+    ): Model<DiscriminatedType<Type, Discriminator, V>, DiscriminatedShape<SchemaType, Discriminator, V>, Statics> &
+        Statics {
+        if (!this._discriminator) throw new InvalidDiscriminatorError(this._name, "not a discriminated model.");
+
+        const { key, schema, models } = this._discriminator;
+        const option = schema.optionsMap.get(value as z.Primitive);
+        if (!option) throw new InvalidDiscriminatorError(this._name, `unknown value '${String(value)}'.`);
+
+        if (!models.has(value)) {
+            // The indexes are checked against the merged schema, as they may reference the fields of other options
+            const model = new Model<any, any>(
+                `${this._name}.${String(value)}`,
+                option.extend({ [key]: option.shape[key].default(value) }),
+                this._db,
+                { ...this._options, indexes: [] },
+                this._base
+            );
+            model._options.indexes = this._options.indexes;
+            model._filterSchema = this._filterSchema;
+            model._discriminatorScope = { key, value, parent: this };
+            models.set(value, model);
+        }
+
+        return models.get(value) as Model<
+            DiscriminatedType<Type, Discriminator, V>,
+            DiscriminatedShape<SchemaType, Discriminator, V>,
+            Statics
+        > &
+            Statics;
+    }
+
+    /**
+     * Returns the schema validating a document: the option of its discriminator value for a model created from
+     * a discriminated union (the merged schema if the value is unknown), or the model's schema.
+     */
+    private schemaFor(data: Record<string | number, unknown>): ZodObject<any> {
+        if (!this._discriminator) return this._schema;
+
+        const { key, schema } = this._discriminator;
+        return schema.optionsMap.get(data[key] as z.Primitive) ?? this._schema;
+    }
+
+    /**
+     * Checks that the paths of an index (in its key and wildcard projection) exist in the schema.
+     *
+     * @throws {InvalidIndexPathError} If a path does not exist in the schema.
+     */
+    private checkIndexPaths(index: { key: Record<string, unknown>; wildcardProjection?: BSON.Document }): void {
+        for (const path of getIndexPaths(index))
+            if (!getSchemaAtPath(this._filterSchema, path, { implicitIndexes: true }))
+                throw new InvalidIndexPathError(path, this._name);
+    }
+
+    /**
+     * Assigns the session of the transaction running in the current async context to the provided options,
+     * unless a session is already specified.
+     */
+    private withSession<T extends { session?: ClientSession }>(options?: T): T | undefined {
+        const session = this._base?.session;
+        if (!session || options?.session) return options;
+
+        return { ...options, session } as T;
+    }
+
+    /** Runs the global and the model's pre hooks of the specified operation and returns the (mutated) context. */
+    private async runPreHooks<Op extends HookOperation>(
+        operation: Op,
+        payload: HookPayload<Type, Op>,
+        bulk: boolean = false
+    ): Promise<HookContext<Type, Op>> {
+        const ctx = { model: this.name, operation, bulk, ...payload } as unknown as HookContext<Type, Op>;
+
+        if (this._base) await this._base.hooks.runPre(ctx);
+        await this._hooks.runPre(ctx);
+
+        return ctx;
+    }
+
+    /** Runs the global and the model's post hooks of the context's operation. */
+    private async runPostHooks<Op extends HookOperation>(ctx: HookContext<Type, Op>, result: unknown): Promise<void> {
+        const postCtx = { ...ctx, result } as Parameters<HookRegistry<Type>["runPost"]>[0];
+
+        if (this._base) await this._base.hooks.runPost(postCtx);
+        await this._hooks.runPost(postCtx);
+    }
+
+    /**
+     * Stamps the timestamp fields of a document being written.
+     * `createdAt` is always stamped on insert, while replacements keep the stored one (see `applyReplaceCreatedAt()`).
+     * Inserted documents start at version `0` (replacements are versioned by `applyReplaceVersion()`), and inserted
+     * or replaced documents are stamped with the current schema version, as they are written in the current shape.
+     */
+    private stampDocument<T extends Record<string | number, unknown>>(doc: T, isInsert: boolean): T {
+        const now = new Date();
+        const { createdAt, updatedAt } = this._timestamps;
+
+        if (createdAt && isInsert) (doc as Record<string, unknown>)[createdAt] = now;
+        if (updatedAt) (doc as Record<string, unknown>)[updatedAt] = now;
+        if (this._versionKey && isInsert && doc[this._versionKey] === undefined)
+            (doc as Record<string, unknown>)[this._versionKey] = 0;
+        if (this._schemaVersion)
+            (doc as Record<string, unknown>)[this._schemaVersion.key] = this._schemaVersion.version;
+
+        return doc;
+    }
+
+    /**
+     * Stamps the timestamp fields of an update filter, and increments the version field.
+     * `createdAt` and the schema version are set with `$setOnInsert`, so they are only stamped when an upsert inserts
+     * a document: updates do not rewrite the document in the current shape, so they keep its schema version.
+     */
+    private stampUpdate(update: UpdateFilter<Type>, upsert?: boolean): UpdateFilter<Type> {
+        const now = new Date();
+        const { createdAt, updatedAt } = this._timestamps;
+
+        if (updatedAt) update.$set = { ...update.$set, [updatedAt]: now } as UpdateFilter<Type>["$set"];
+        if (createdAt && upsert && !(update.$set && createdAt in update.$set))
+            update.$setOnInsert = { ...update.$setOnInsert, [createdAt]: now } as UpdateFilter<Type>["$setOnInsert"];
+        if (this._schemaVersion && upsert) {
+            const { key, version } = this._schemaVersion;
+            update.$setOnInsert = { ...update.$setOnInsert, [key]: version } as UpdateFilter<Type>["$setOnInsert"];
+        }
+
+        return this.incrementVersion(update);
+    }
+
+    /** Increments the version field of an update filter. */
+    private incrementVersion(update: UpdateFilter<Type>): UpdateFilter<Type> {
+        if (this._versionKey) update.$inc = { ...update.$inc, [this._versionKey]: 1 } as UpdateFilter<Type>["$inc"];
+        return update;
+    }
+
+    /**
+     * Reads the fields of the stored document that a replacement keeps when it does not carry them, i.e. its
+     * `createdAt` and its version, with a single projected read.
+     *
+     * @returns The stored fields, `null` if no document matches, or `undefined` if no field needs to be read.
+     */
+    private async findReplaced(
+        filter: Filter<Type>,
+        data: Record<string | number, unknown>,
+        options?: { session?: ClientSession; sort?: FindOptions["sort"] }
+    ): Promise<BSON.Document | null | undefined> {
+        const { createdAt } = this._timestamps;
+        const paths = [
+            ...(createdAt && data[createdAt] === undefined ? [createdAt] : []),
+            ...(this._versionKey && typeof data[this._versionKey] !== "number" ? [this._versionKey] : []),
+        ];
+        if (paths.length === 0) return undefined;
+
+        return this.collection.findOne(filter, {
+            projection: Object.fromEntries(paths.map((path) => [path, 1])),
+            session: options?.session,
+            sort: options?.sort,
+        });
+    }
+
+    /**
+     * Keeps the creation date of a replaced document: a replacement without `createdAt` gets the one of the stored
+     * document (as read by `findReplaced()`), or the current date if no document matches (i.e. the replacement
+     * is upserted).
+     */
+    private applyReplaceCreatedAt(
+        data: Record<string | number, unknown>,
+        current: BSON.Document | null | undefined
+    ): void {
+        const { createdAt } = this._timestamps;
+        if (!createdAt || data[createdAt] !== undefined) return;
+
+        if (!current) data[createdAt] = new Date();
+        else if (current[createdAt] !== undefined) data[createdAt] = current[createdAt];
+    }
+
+    /**
+     * Moves the version carried by the update data into the filter, so that the update only applies to the expected
+     * version of the document.
+     *
+     * @returns The filter of the update, and the expected version (if any).
+     */
+    private applyExpectedVersion(
+        filter: Filter<Type>,
+        data: Record<string | number, unknown>
+    ): { filter: Filter<Type>; expected?: number } {
+        if (!this._versionKey || typeof data[this._versionKey] !== "number") return { filter };
+
+        const expected = data[this._versionKey] as number;
+        delete data[this._versionKey];
+
+        return { filter: { ...filter, [this._versionKey]: this.versionCondition(expected) }, expected };
+    }
+
+    /**
+     * Versions a replacement: the version it carries (or, if missing, the version of the stored document, as read by
+     * `findReplaced()`) is expected in the filter, and the replacement gets the next version.
+     *
+     * @returns The filter of the replacement, and the expected version (if a document matches).
+     */
+    private applyReplaceVersion(
+        filter: Filter<Type>,
+        data: Record<string | number, unknown>,
+        current: BSON.Document | null | undefined
+    ): { filter: Filter<Type>; expected?: number } {
+        if (!this._versionKey) return { filter };
+
+        let expected = data[this._versionKey];
+        if (typeof expected !== "number") {
+            if (!current) {
+                data[this._versionKey] = 0;
+                return { filter };
+            }
+
+            expected = (current[this._versionKey] as number | undefined) ?? 0;
+        }
+
+        data[this._versionKey] = (expected as number) + 1;
+        return {
+            filter: { ...filter, [this._versionKey]: this.versionCondition(expected as number) },
+            expected: expected as number,
+        };
+    }
+
+    /** The filter condition matching a version. Documents written before enabling the option are at version `0`. */
+    private versionCondition(version: number): unknown {
+        return version === 0 ? { $in: [0, null] } : version;
+    }
+
+    /**
+     * Checks that the document matching the filter is at the expected version.
+     *
+     * @throws {VersionConflictError} If a document matches the filter at another version.
+     */
+    private async assertVersion(filter: Filter<Type>, expected: number, session?: ClientSession): Promise<void> {
+        const versionKey = this._versionKey as string;
+        const current = await this.collection.findOne(filter, { projection: { [versionKey]: 1 }, session });
+        const version = (current?.[versionKey] as number | undefined) ?? 0;
+
+        if (current && version !== expected) throw new VersionConflictError(this._name, expected, version);
+    }
+
+    /**
+     * Scopes the filter to the current soft-delete query mode.
+     * Filters that already reference the marker field are left untouched.
+     */
+    private scopeFilter(filter: Filter<Type> = {}, mode: SoftDeleteMode = this._softDeleteMode): Filter<Type> {
+        if (!this._softDelete || mode === "include" || this._softDelete in filter) return filter;
+        return { ...filter, [this._softDelete]: mode === "only" ? { $ne: null } : null } as Filter<Type>;
+    }
+
+    /**
+     * Coerces the filter values with the model schema (e.g. strings to `ObjectId` for `ZodObjectId` fields).
+     * Values compared by equality with deterministic encrypted fields are encrypted with every key of the provider,
+     * so that values encrypted before a key rotation still match.
+     * Filters of discriminator sub-models are restricted to the documents of their discriminator value.
+     *
+     * @throws {InvalidFilterPathError} If the `strictFilter` option is enabled and a path does not exist in the schema.
+     */
+    private parseFilter(filter: MGFilter<Type> | Filter<Type> = {}): Filter<Type> {
+        const { filter: coerced, unknownPaths } = coerceFilter(this._filterSchema, filter);
+        if (this._options.strictFilter && unknownPaths.length > 0)
+            throw new InvalidFilterPathError(unknownPaths[0], this._name);
+
+        let parsed = coerced as Filter<Type>;
+        if (this._encryption?.deterministic.length) {
+            const { provider, deterministic } = this._encryption;
+            parsed = mapFilterValues(coerced, deterministic, (value) =>
+                value == null ? [value] : provider.keyIds.map((keyId) => encryptValue(value, provider, true, keyId))
+            ) as Filter<Type>;
+        }
+        if (!this._discriminatorScope) return parsed;
+
+        const { key, value } = this._discriminatorScope;
+        return (key in parsed ? { $and: [parsed, { [key]: value }] } : { ...parsed, [key]: value }) as Filter<Type>;
+    }
+
+    /** Encrypts the `encryptedFields` of a document being written, returning an encrypted copy. */
+    private encryptFields<T>(doc: T): T {
+        if (!this._encryption) return doc;
+
+        return this._encryption.fields.reduce<unknown>(
+            (result, path) => mapPath(result, path, (value) => this.encryptField(value, path)),
+            doc
+        ) as T;
+    }
+
+    /** Encrypts the value of an encrypted field with the current key, unless it is encrypted already. */
+    private encryptField(value: unknown, path: string): unknown {
+        const { provider, deterministic } = this._encryption as NonNullable<Model<Type, SchemaType>["_encryption"]>;
+        return isEncryptedValue(value) ? value : encryptValue(value, provider, deterministic.includes(path));
+    }
+
+    /**
+     * Encrypts the values set by an update (with `$set` and `$setOnInsert`) at the encrypted key paths,
+     * returning an encrypted copy.
+     *
+     * @throws {ValidateError} If the update sets a field inside an encrypted value, or targets an encrypted field
+     *                         with another operator than `$set`, `$setOnInsert` or `$unset`.
+     */
+    private encryptUpdate(update: UpdateFilter<Type>): UpdateFilter<Type> {
+        if (!this._encryption) return update;
+
+        const { fields } = this._encryption;
+        const result: BSON.Document = { ...update };
+        const issues: ZodIssue[] = [];
+
+        for (const [operator, operand] of Object.entries(update as BSON.Document)) {
+            if (!operand || operator === "$unset") continue;
+
+            if (operator === "$set" || operator === "$setOnInsert") {
+                const mapped = mapUpdateFields(operand, fields, (value, path) => this.encryptField(value, path));
+                result[operator] = mapped.fields;
+                for (const key of mapped.conflicts)
+                    issues.push({
+                        code: "custom",
+                        path: [operator, key],
+                        message: "Cannot update inside an encrypted field.",
+                    });
+                continue;
+            }
+
+            for (const key of Object.keys(operand)) {
+                const keyPath = stripArrayKeys(key);
+                const overlaps = fields.some((path) => {
+                    const target = stripArrayKeys(path);
+                    return keyPath === target || keyPath.startsWith(`${target}.`) || target.startsWith(`${keyPath}.`);
+                });
+
+                if (overlaps)
+                    issues.push({
+                        code: "custom",
+                        path: [operator, key],
+                        message: `The '${operator}' operator cannot target encrypted fields.`,
+                    });
+            }
+        }
+
+        if (issues.length > 0) throw new ValidateError(this._name, issues);
+        return result as UpdateFilter<Type>;
+    }
+
+    /** Encrypts the documents and updates of a bulk write operation. */
+    private encryptOperation(operation: AnyBulkWriteOperation<Type>): AnyBulkWriteOperation<Type> {
+        if (!this._encryption) return operation;
+
+        if ("insertOne" in operation)
+            return {
+                insertOne: { ...operation.insertOne, document: this.encryptFields(operation.insertOne.document) },
+            };
+        if ("replaceOne" in operation)
+            return {
+                replaceOne: {
+                    ...operation.replaceOne,
+                    replacement: this.encryptFields(operation.replaceOne.replacement),
+                },
+            };
+        if ("updateOne" in operation && !Array.isArray(operation.updateOne.update))
+            return { updateOne: { ...operation.updateOne, update: this.encryptUpdate(operation.updateOne.update) } };
+        if ("updateMany" in operation && !Array.isArray(operation.updateMany.update))
+            return { updateMany: { ...operation.updateMany, update: this.encryptUpdate(operation.updateMany.update) } };
+
+        return operation;
+    }
+
+    /**
+     * Decrypts the encrypted values of a document, returning a decrypted copy.
+     * Documents returned by the model are decrypted already: use this method to decrypt documents read by other means,
+     * e.g. with `aggregate()`.
+     *
+     * @param {T} doc - The document (or any value holding encrypted values, e.g. the fields of an update).
+     *
+     * @returns {T} The decrypted document.
+     * @throws {InvalidEncryptionKeyError} If a value is encrypted with a key missing from the key provider.
+     */
+    public decryptFields<T>(doc: T): T {
+        if (!this._encryption) return doc;
+
+        const { provider } = this._encryption;
+        return mapEncryptedValues(doc, (value) => decryptValue(value, provider)) as T;
+    }
+
+    /**
+     * Excludes the `hiddenFields` from the projection of the options, unless `includeHidden` is set.
+     * Projections always return the schema version field, so that projected documents can be upgraded.
+     *
+     * @returns The options to pass to the driver (without `includeHidden`), and the hidden fields to remove from the
+     *          returned documents, as inclusion projections return the hidden fields nested in an included field.
+     */
+    private hideProjection<T extends IncludeHiddenOption & { projection?: BSON.Document }>(
+        options?: T
+    ): { options: Omit<T, "includeHidden">; hiddenFields: ObjectKeyPaths<Type>[] } {
+        const { includeHidden, ...rest } = options ?? ({} as T);
+        if (this._schemaVersion && rest.projection) {
+            const { [this._schemaVersion.key]: _, ...projection } = rest.projection;
+            const isInclusion = Object.entries(projection).some(
+                ([path, value]) => path !== "_id" && value !== 0 && value !== false
+            );
+            rest.projection = isInclusion ? { ...projection, [this._schemaVersion.key]: 1 } : projection;
+        }
+        if (includeHidden || this._options.hiddenFields.length === 0) return { options: rest, hiddenFields: [] };
+
+        const hiddenFields = this._options.hiddenFields;
+        return {
+            options: { ...rest, projection: addHiddenProjection(rest.projection, hiddenFields as string[]) },
+            hiddenFields,
+        };
+    }
+
+    /**
+     * Decrypts and upgrades the document returned by a `findOneAnd*` operation (with or without the result metadata),
+     * and removes its hidden fields.
+     *
+     * **Note:** The upgraded document is never written back, as it may be the document before the operation
+     * (e.g. `returnDocument: "before"`), whose fields would overwrite the ones just written.
+     */
+    private async readResult<T extends ModifyResult<Type> | Type | null>(
+        res: T,
+        options: { includeResultMetadata?: boolean; projection?: BSON.Document },
+        hiddenFields: ObjectKeyPaths<Type>[]
+    ): Promise<T> {
+        const read = async (doc: Type | null) => {
+            if (!doc) return doc;
+
+            const [upgraded] = await this.upgradeDocuments([this.decryptFields(doc)], !!options.projection, false);
+            return this.hideFields(upgraded, hiddenFields) as Type;
+        };
+        if (!options.includeResultMetadata) return (await read(res as Type | null)) as T;
+
+        const result = res as ModifyResult<Type>;
+        return { ...result, value: await read(result.value as Type | null) } as T;
+    }
+
+    /**
+     * Upgrades a document of a previous schema version to the current version, through the chain of upgrades of the
+     * `schemaVersion` option. Documents without a version are at version `1`.
+     * Documents read by the model are upgraded already: use this method to upgrade documents read by other means,
+     * e.g. with `aggregate()`.
+     *
+     * @param {T} doc - The (decrypted) document to upgrade.
+     * @param {boolean} partial - Whether the document holds only some of the fields (e.g. read with a projection), so
+     *                            that only the present fields are validated against the schema of each version.
+     *
+     * @returns {T} The upgraded document, or the document itself if it is at the current version.
+     * @throws {ValidateError} If the document does not match the schema of its version.
+     */
+    public upgradeDocument<T>(doc: T, partial: boolean = false): T {
+        if (!this._schemaVersion || !doc) return doc;
+
+        const { version, key, upgrades } = this._schemaVersion;
+        let current = doc as Record<string, unknown>;
+        for (let from = (current[key] as number | undefined) ?? 1; from < version; from++) {
+            const { schema, up } = upgrades.get(from)!;
+            const test = (partial ? createSchemaFromData(schema, current) : schema).safeParse(current);
+            if (!test.success) throw new ValidateError(this._name, test.error.errors);
+
+            current = { ...("_id" in current && { _id: current._id }), ...up(current), [key]: from + 1 };
+        }
+
+        return current as T;
+    }
+
+    /**
+     * Upgrades the (decrypted) documents read from the collection, persisting the upgraded ones in write-back mode
+     * (unless `persist` is `false`). Partial documents (e.g. read with a projection, including the one of hidden fields)
+     * are not persisted, as their missing fields would be left in the shape of their previous version.
+     *
+     * Upgraded documents are written with the changed top-level fields, only if their schema version did not change
+     * in the meantime. Hooks, timestamps and versions are not applied.
+     */
+    private async upgradeDocuments(docs: Type[], partial: boolean, persist: boolean = true): Promise<Type[]> {
+        if (!this._schemaVersion) return docs;
+
+        const upgraded = docs.map((doc) => this.upgradeDocument(doc, partial));
+        if (!this._schemaVersion.writeBack || !persist || partial) return upgraded;
+
+        const { key } = this._schemaVersion;
+        const writes: AnyBulkWriteOperation<Type>[] = [];
+        upgraded.forEach((doc, index) => {
+            const original = docs[index] as Record<string, unknown>;
+            if (doc === original || original._id === undefined) return;
+
+            const $set = Object.fromEntries(Object.entries(doc).filter(([field, value]) => value !== original[field]));
+            const $unset = Object.fromEntries(
+                Object.keys(original)
+                    .filter((field) => !(field in doc))
+                    .map((field) => [field, ""])
+            );
+            const update = { $set, ...(Object.keys($unset).length > 0 && { $unset }) } as UpdateFilter<Type>;
+
+            writes.push({
+                updateOne: {
+                    filter: { _id: original._id, [key]: original[key] ?? null } as Filter<Type>,
+                    update: this.encryptUpdate(update),
+                },
+            });
+        });
+        if (writes.length > 0) await this.collection.bulkWrite(writes, this.withSession({}));
+
+        return upgraded;
+    }
+
     /**
      * Parses the provided data object using the model's schema and returns the result as a document of the specified type.
      *
@@ -163,13 +932,17 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
         const isPartial = option && "isPartial" in option ? option.isPartial : false;
         const partialFields = option && "partialFields" in option ? option.partialFields : undefined;
 
+        const withId = (schema: ZodObject<any>) =>
+            schema.shape._id ? schema : schema.extend({ _id: ZodObjectId.default(() => new ObjectId()) });
+
+        const base = this.schemaFor(data);
         const schema = isPartial
-            ? createSchemaFromData(this.schema, data)
+            ? createSchemaFromData(base, data)
             : partialFields && partialFields.length > 0
-            ? createSchemaFromPaths(this.schema, partialFields)
-            : this.schema.shape._id
-            ? this.schema
-            : this.schema.extend({ _id: ZodObjectId.default(() => new ObjectId()) });
+            ? partialFields.includes("_id" as ObjectKeyPaths<Type>)
+                ? createSchemaFromPaths(base, partialFields)
+                : withId(createSchemaFromPaths(base, partialFields))
+            : withId(base);
 
         let test;
         if (isStrict) test = await schema.strict().safeParseAsync(data);
@@ -193,10 +966,10 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
         const partialFields = option && "partialFields" in option ? option.partialFields : undefined;
 
         const schema = isPartial
-            ? createSchemaFromData(this.schema, data)
+            ? createSchemaFromData(this.schemaFor(data), data)
             : partialFields && partialFields.length > 0
-            ? createSchemaFromPaths(this.schema, partialFields)
-            : this.schema;
+            ? createSchemaFromPaths(this.schemaFor(data), partialFields)
+            : this.schemaFor(data);
         return schema.safeParseAsync(data).then((res) => res.success);
     }
 
@@ -233,23 +1006,148 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
         return Array.isArray(data) ? data.map(processItem) : processItem(data);
     }
 
+    /**
+     * Attaches the model's custom document-level methods to the provided document.
+     * Methods are defined as non-enumerable properties, so they are never persisted.
+     * **Note:** Documents returned by queries do not have the methods: only hydrated documents do.
+     *
+     * @param {Type} doc - The document to attach the methods to.
+     *
+     * @returns {Type & BoundMethods<Methods>} The same document, with the custom methods bound to it.
+     *
+     * @example
+     * const user = UserModel.hydrate(await UserModel.findById(id));
+     * user.fullName();
+     */
+    public hydrate<T extends Type>(doc: T): T & BoundMethods<Methods> {
+        for (const name of Object.keys(this._methods)) {
+            const method = this._methods[name];
+            Object.defineProperty(doc, name, {
+                value: (...args: unknown[]) => method.call(this, doc, ...args),
+                enumerable: false,
+                configurable: true,
+            });
+        }
+
+        return doc as T & BoundMethods<Methods>;
+    }
+
+    /**
+     * Calls a custom static or document-level method by its name.
+     * For document-level methods, the document must be passed as the first argument.
+     *
+     * @param {string} name - The name of the custom method to call.
+     * @param {unknown[]} args - The arguments to pass to the method.
+     *
+     * @returns {unknown} The return value of the called method.
+     * @throws {MethodNotFoundError} If no custom method with the specified name exists.
+     *
+     * @example
+     * const user = await UserModel.call("findByEmail", "john@doe.com");
+     */
+    public call<K extends keyof Statics & string>(name: K, ...args: Parameters<Statics[K]>): ReturnType<Statics[K]>;
+    public call<K extends keyof Methods & string>(name: K, ...args: Parameters<Methods[K]>): ReturnType<Methods[K]>;
+    public call(name: string, ...args: unknown[]): unknown;
+    public call(name: string, ...args: unknown[]): unknown {
+        if (Object.hasOwn(this._statics, name)) return this._statics[name].apply(this, args);
+        if (Object.hasOwn(this._methods, name)) return this._methods[name].apply(this, args as [Type, ...unknown[]]);
+
+        throw new MethodNotFoundError(name, this.name);
+    }
+
+    /**
+     * Registers a hook running before the specified operation(s), after the input data has been parsed.
+     * Pre hooks may mutate or reassign `ctx.data` and `ctx.filter`, and abort the operation by returning `false`
+     * (an `OperationAbortedError` is thrown).
+     *
+     * Hooks also run for the matching operations of `bulkWrite` (with `ctx.bulk` set to `true`),
+     * where aborted operations are reported in the validation errors instead.
+     *
+     * @param {Op | Op[]} operations - The operation(s) to run the hook before.
+     * @param {PreHook<Type, Op>} hook - The hook to run.
+     *
+     * @returns {this} The model, for chaining.
+     *
+     * @example
+     * UserModel.pre("insertOne", (ctx) => {
+     *     ctx.data.email = ctx.data.email.toLowerCase();
+     * });
+     */
+    public pre<Op extends HookOperation>(operations: Op | Op[], hook: PreHook<Type, Op>): this {
+        this._hooks.pre(operations, hook);
+        return this;
+    }
+
+    /**
+     * Registers a hook running after the specified operation(s), receiving the operation's result.
+     * For operations run through `bulkWrite`, the result is the bulk write result.
+     *
+     * @param {Op | Op[]} operations - The operation(s) to run the hook after.
+     * @param {PostHook<Type, Op>} hook - The hook to run.
+     *
+     * @returns {this} The model, for chaining.
+     *
+     * @example
+     * UserModel.post(["deleteOne", "deleteMany"], (ctx) => {
+     *     if (!ctx.bulk) console.log(`Deleted ${ctx.result.deletedCount} users`);
+     * });
+     */
+    public post<Op extends HookOperation>(operations: Op | Op[], hook: PostHook<Type, Op>): this {
+        this._hooks.post(operations, hook);
+        return this;
+    }
+
+    /**
+     * Returns a view of the model whose queries include soft-deleted documents.
+     * Has no effect if the `softDelete` option is disabled.
+     *
+     * @returns {this} A view of the model, sharing its collection, hooks and methods.
+     *
+     * @example
+     * const allUsers = await UserModel.withDeleted().find();
+     */
+    public withDeleted(): this {
+        return this.withSoftDeleteMode("include");
+    }
+
+    /**
+     * Returns a view of the model whose queries only match soft-deleted documents.
+     * Has no effect if the `softDelete` option is disabled.
+     *
+     * @returns {this} A view of the model, sharing its collection, hooks and methods.
+     *
+     * @example
+     * const deletedUsers = await UserModel.onlyDeleted().find();
+     */
+    public onlyDeleted(): this {
+        return this.withSoftDeleteMode("only");
+    }
+
+    private withSoftDeleteMode(mode: SoftDeleteMode): this {
+        const view = Object.create(this) as this;
+        view._softDeleteMode = mode;
+        return view;
+    }
+
     /**
      * Counts the number of documents in the collection that match the specified filter criteria.
      *
-     * @param {Filter<Type>} filter - Optional filter criteria to apply to the count operation.
+     * @param {MGFilter<Type>} filter - Optional filter criteria to apply to the count operation.
      * @param {CountDocumentsOptions} options - Optional settings for the countDocuments operation. Learn more at
      *                                          {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/CountDocumentsOptions.html this}.
      *
      * @returns {Promise<number>} A promise that resolves to the number of documents matching the criteria.
      */
-    public countDocuments(filter?: Filter<Type>, options?: CountDocumentsOptions): Promise<number> {
-        return this.collection.countDocuments(filter as Filter<Type>, options);
+    public countDocuments(filter?: MGFilter<Type>, options?: CountDocumentsOptions): Promise<number> {
+        return this.collection.countDocuments(this.scopeFilter(this.parseFilter(filter)), this.withSession(options));
     }
 
     /**
      * Estimates the number of documents in the collection using collection metadata.
      *
      * This is faster than using `countDocuments()` for large collections.
+     * **Note:** Soft-deleted documents are included in the estimation. Discriminator sub-models count all the documents
+     * of their discriminator value instead, soft-deleted ones included, as the metadata covers the whole collection.
      *
      * @param {CountDocumentsOptions} options - Optional settings for the countDocuments operation. Learn more at
      *                                          {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/CountDocumentsOptions.html this}.
@@ -257,6 +1155,11 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * @returns {Promise<number>} A promise that resolves to the estimated number of documents in the collection.
      */
     public estimatedDocumentCount(options?: CountDocumentsOptions): Promise<number> {
+        if (this._discriminatorScope)
+            return this.collection.countDocuments(
+                this.scopeFilter(this.parseFilter({}), "include"),
+                this.withSession(options)
+            );
         return this.collection.estimatedDocumentCount(options);
     }
 
@@ -264,7 +1167,7 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * Get the distinct values of the specified field in the collection.
      *
      * @param {Key} key - The field for which to return distinct values.
-     * @param {Filter<Type>} filter - Optional filter criteria to apply to the distinct operation.
+     * @param {MGFilter<Type>} filter - Optional filter criteria to apply to the distinct operation.
      * @param {DistinctOptions} options - Optional settings for the distinct operation. Learn more at
      *                                    {@link https://mongodb.github.io/node-mongodb-native/6.7/types/DistinctOptions.html this}.
      *
@@ -273,22 +1176,24 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
     public distinct<Key extends ObjectKeyPaths<Type>>(key: Key): Promise<Flatten<ResolvePath<Type, Key>>[]>;
     public distinct<Key extends ObjectKeyPaths<Type>>(
         key: Key,
-        filter: Filter<Type>
+        filter: MGFilter<Type>
     ): Promise<Flatten<ResolvePath<Type, Key>>[]>;
     public distinct<Key extends ObjectKeyPaths<Type>>(
         key: Key,
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         options: DistinctOptions
     ): Promise<Flatten<ResolvePath<Type, Key>>[]>;
     public distinct<Key extends ObjectKeyPaths<Type>>(
         key: Key,
-        filter?: Filter<Type>,
+        filter?: MGFilter<Type>,
         options?: DistinctOptions
     ): Promise<Flatten<ResolvePath<Type, Key>>[]> {
-        const fixedKey = (key as string).replaceAll(`.${DEFAULT_ARRAY_PLACEHOLDER}`, "");
-        return this.collection.distinct(fixedKey, (filter ?? {}) as Filter<Type>, options ?? {}) as Promise<
-            Flatten<ResolvePath<Type, Key>>[]
-        >;
+        const fixedKey = toMongoPath(key);
+        return this.collection.distinct(
+            fixedKey,
+            this.scopeFilter(this.parseFilter(filter)),
+            this.withSession(options) ?? {}
+        ) as Promise<Flatten<ResolvePath<Type, Key>>[]>;
     }
 
     /************************/
@@ -326,6 +1231,7 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      *                                                 {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/CreateIndexesOptions.html this}.
      *
      * @returns {Promise<string[]>} A promise that resolves to an array of index names that were created.
+     * @throws {InvalidIndexPathError} If an index path does not exist in the schema.
      *
      * @example
      * // Create a unique index on the email field in the user collection.
@@ -335,6 +1241,7 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
         indexes: MGIndexDescription<Type>[],
         options?: MGCreateIndexesOptions<Type>
     ): Promise<string[]> {
+        for (const index of indexes) this.checkIndexPaths(index);
         return this.collection.createIndexes(removeUndefinedFields(indexes) as IndexDescription[], options);
     }
 
@@ -349,15 +1256,60 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      *                                                 {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/CreateIndexesOptions.html this}.
      *
      * @returns {Promise<string>} A promise that resolves to the name of the index that was created.
+     * @throws {InvalidIndexPathError} If an index path does not exist in the schema.
      *
      * @example
      * // Create a unique index on the email field in the user collection.
      * const indexName = await UserModel.createIndex({ key: { email: 1 }, unique: true });
      */
     public createIndex(index: MGIndexSpecification<Type>, options?: MGCreateIndexesOptions<Type>): Promise<string> {
+        this.checkIndexPaths({ key: index, wildcardProjection: options?.wildcardProjection });
         return this.collection.createIndex(removeUndefinedFields(index) as IndexSpecification, options);
     }
 
+    /**
+     * Synchronizes the indexes of the collection with the `indexes` option of the model: declared indexes that do
+     * not exist are created, and declared indexes whose key or options changed are dropped and created again.
+     * Indexes are matched by name (the `name` option, or the name generated by MongoDB from the key), or else by key:
+     * an existing index with the key of a declared index under another name is changed, and dropped under its name.
+     *
+     * @param {SyncIndexesOptions} options - Whether to only report the differences (`dryRun`), and whether to drop
+     *                                       the existing indexes that are not declared (`dropExtraneous`).
+     *
+     * @returns {Promise<SyncIndexesResult>} A promise that resolves to the names of the added, changed, dropped
+     *                                       and extraneous indexes.
+     *
+     * @example
+     * const UserModel = mongooat.Model("users", schema, { indexes: [{ key: { email: 1 }, unique: true }] });
+     * const { added, changed } = await UserModel.syncIndexes({ dropExtraneous: true });
+     */
+    public async syncIndexes(options: SyncIndexesOptions = {}): Promise<SyncIndexesResult> {
+        const { dryRun = false, dropExtraneous = false } = options;
+        const declared = removeUndefinedFields(this._options.indexes) as IndexDescription[];
+        const existing = await this.collection
+            .listIndexes()
+            .toArray()
+            .catch((error) => {
+                // The collection is created with its first index
+                if (error?.codeName === "NamespaceNotFound") return [];
+                throw error;
+            });
+
+        const { added, changed, replaced, extraneous } = diffIndexes(declared, existing);
+        const result: SyncIndexesResult = {
+            added: added.map(getIndexName),
+            changed: changed.map(getIndexName),
+            dropped: dropExtraneous ? extraneous : [],
+            extraneous: dropExtraneous ? [] : extraneous,
+        };
+        if (dryRun) return result;
+
+        for (const name of [...replaced, ...result.dropped]) await this.collection.dropIndex(name);
+        if (added.length + changed.length > 0) await this.collection.createIndexes([...changed, ...added]);
+
+        return result;
+    }
+
     /**
      * Drops an index from the collection.
      *
@@ -466,23 +1418,117 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
         return this.collection.dropSearchIndex(name);
     }
 
+    /************************/
+    /************************/
+    /***    VALIDATOR     ***/
+    /************************/
+    /************************/
+    /**
+     * Compiles the model's schema into a `$jsonSchema` validator and applies it to the collection, creating the
+     * collection if it does not exist (`createCollection`) or modifying it otherwise (`collMod`).
+     *
+     * Encrypted fields are validated as binary data. The parts of the schema that cannot be expressed with
+     * `$jsonSchema` (e.g. refinements, transforms or string formats) are left unconstrained and reported in the result.
+     *
+     * @param {SyncValidatorOptions} options - The validation level and action, and whether to reject unsupported schemas.
+     *
+     * @returns {Promise<SyncValidatorResult>} A promise that resolves to the applied `$jsonSchema` document,
+     *                                         the unsupported parts of the schema and whether the collection was created.
+     *
+     * @throws {UnsupportedSchemaError} In strict mode, if parts of the schema cannot be expressed.
+     *
+     * @example
+     * const { unsupported } = await UserModel.syncValidator({ level: "moderate", action: "warn" });
+     */
+    public async syncValidator(options: SyncValidatorOptions = {}): Promise<SyncValidatorResult> {
+        // The validator applies to the whole collection, shared with the other discriminator values
+        if (this._discriminatorScope) return this._discriminatorScope.parent.syncValidator(options);
+
+        const { level = "strict", action = "error", strict = false } = options;
+        const encrypted = Object.fromEntries(
+            (this._encryption?.fields ?? []).map((path) => [path, { bsonType: "binData" }])
+        );
+
+        const { jsonSchema, unsupported } = compileJsonSchema(this._discriminator?.schema ?? this._schema, encrypted);
+        if (strict && unsupported.length > 0) throw new UnsupportedSchemaError(this._name, unsupported);
+
+        const name = this.collection.collectionName;
+        const settings = { validator: { $jsonSchema: jsonSchema }, validationLevel: level, validationAction: action };
+        const created = !(await this._db.listCollections({ name }, { nameOnly: true }).hasNext());
+
+        if (created) await this._db.createCollection(name, settings);
+        else await this._db.command({ collMod: name, ...settings });
+
+        return { jsonSchema, unsupported, created };
+    }
+
     /************************/
     /************************/
     /***       CRUD       ***/
     /************************/
     /************************/
     /**
-     * Create aggregation cursor for the collection.
+     * Create aggregation cursor for the collection, or a type-safe pipeline builder if no pipeline is provided.
      *
      * @param {BSON.Document[]} pipeline - An array of aggregation pipeline stages to execute.
-     * @param {AggregateOptions} option - Optional settings for the `aggregate` operation. Learn more at
+     * @param {MGAggregateOptions} option - Optional settings for the `aggregate` operation. Learn more at
      *                                    {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/AggregateOptions.html this}.
      *
-     * @returns {AggregationCursor<Type>} A cursor for the aggregation result.
-     * @todo Implement pipeline builder + type-safe stages.
+     * **Note:** In soft-delete mode, a `$match` stage excluding soft-deleted documents is prepended to the pipeline,
+     * after its first stage if it must come first (`$geoNear`, `$search` or `$vectorSearch`).
+     * The `hiddenFields` are excluded with a `$project` stage after the leading `$match` stages (unless `includeHidden`
+     * is set), so the leading stages can still filter on them, but the next stages cannot reference them.
+     *
+     * @returns {AggregationCursor<Type> | Pipeline<Type>} A cursor for the aggregation result, or a pipeline builder.
+     *
+     * @example
+     * // Count the users of each city.
+     * const cities = await UserModel.aggregate()
+     *     .group({ _id: "$address.city", count: { $sum: 1 } })
+     *     .sort({ count: -1 })
+     *     .exec();
+     */
+    public aggregate(): Pipeline<Type>;
+    public aggregate(pipeline: BSON.Document[], option?: MGAggregateOptions): AggregationCursor<Type>;
+    public aggregate(
+        pipeline?: BSON.Document[],
+        option?: MGAggregateOptions
+    ): AggregationCursor<Type> | Pipeline<Type> {
+        if (!pipeline) return new Pipeline(this);
+
+        const { includeHidden, ...options } = option ?? {};
+        const head = pipeline[0] ?? {};
+        const first = FIRST_STAGE_OPERATORS.some((operator) => operator in head) ? 1 : 0;
+        const scope = this.scopeFilter(this.parseFilter());
+        if (Object.keys(scope).length > 0)
+            pipeline = [...pipeline.slice(0, first), { $match: scope }, ...pipeline.slice(first)];
+
+        const hidden = addHiddenProjection(undefined, includeHidden ? [] : (this._options.hiddenFields as string[]));
+        if (hidden) {
+            const index = pipeline.findIndex((stage, i) => i >= first && !("$match" in stage));
+            const position = index === -1 ? pipeline.length : index;
+            pipeline = [...pipeline.slice(0, position), { $project: hidden }, ...pipeline.slice(position)];
+        }
+
+        return this.collection.aggregate(pipeline, this.withSession(options));
+    }
+
+    /**
+     * Returns the stages restricting the documents joined from the collection by a `$lookup` stage: a `$match` stage
+     * leaving out soft-deleted documents and the documents of other discriminator values, and a `$project` stage
+     * excluding the `hiddenFields`.
+     *
+     * @returns {BSON.Document[]} The stages to append to the pipeline of the `$lookup` stage.
      */
-    public aggregate(pipeline: BSON.Document[], option?: AggregateOptions): AggregationCursor<Type> {
-        return this.collection.aggregate(pipeline, option);
+    public lookupStages(): BSON.Document[] {
+        const stages: BSON.Document[] = [];
+        const scope = this.scopeFilter(this.parseFilter());
+        if (Object.keys(scope).length > 0) stages.push({ $match: scope });
+
+        const hidden = addHiddenProjection(undefined, this._options.hiddenFields as string[]);
+        if (hidden) stages.push({ $project: hidden });
+
+        return stages;
     }
 
     /**
@@ -491,8 +1537,14 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      *
      * **Note:** By default, this operation validates the documents before writing them to the collection.
      * If you want to bypass document validation, set the `bypassDocumentValidation` option to `true`.
+     * Pre and post hooks run for each operation. Operations aborted by a pre hook are not written
+     * and are reported in the validation errors.
      *
-     * **IMPORTANT:** This is not yet support dot-notation paths for update operations.
+     * The `$set` fields and the update operators of update operations are validated like in `updateOne()`,
+     * including dot-notation and positional key paths.
+     * If no operation is left to write, an empty result is returned without calling the server.
+     * With the `versionKey` option, update and replace operations carrying a version other than the stored one
+     * are not written, and are reported with a `VersionConflictError` in the validation errors.
      *
      * @param {AnyBulkWriteOperation<Type>[]} operations - An array of bulk write operations to perform.
      * @param {BulkWriteOptions} options - Optional settings for the `bulkWrite` operation. Learn more at
@@ -504,74 +1556,358 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
         operations: AnyBulkWriteOperation<Type>[],
         options?: BulkWriteOptions
     ): Promise<BulkWriteResultMap> {
+        options = this.withSession(options);
         const skipValidate = options?.bypassDocumentValidation ?? false;
         const errMap: BulkWriteErrorMap = [];
 
-        if (!skipValidate) {
-            for (let i = 0; i < operations.length; i++) {
-                const operation = operations[i];
-                try {
-                    if ("insertOne" in operation) {
-                        const doc = operation.insertOne.document;
-                        await this.parse(doc);
-                    } else if ("updateOne" in operation) {
-                        const doc = operation.updateOne.update;
-                        if (doc.hasOwnProperty("_id")) throw new IdFieldNotAllowedError();
-                        if (Array.isArray(doc)) continue;
-                        if ("$set" in doc && doc.$set) await this.parse(doc.$set, { isPartial: true });
-                    } else if ("updateMany" in operation) {
-                        const doc = operation.updateMany.update;
-                        if (doc.hasOwnProperty("_id")) throw new IdFieldNotAllowedError();
-                        if ("$set" in doc && doc.$set) await this.parse(doc.$set, { isPartial: true });
-                    } else if ("replaceOne" in operation) {
-                        const doc = operation.replaceOne.replacement;
-                        if (doc.hasOwnProperty("_id")) throw new IdFieldNotAllowedError();
-                        await this.parse(doc, { partialFields: ["_id"] as ObjectKeyPaths<Type>[] });
-                    }
-                } catch (err) {
-                    if (err instanceof IdFieldNotAllowedError || err instanceof ValidateError)
-                        errMap.push({ index: i, error: err });
-                    else throw err;
-                }
+        const writes: AnyBulkWriteOperation<Type>[] = [];
+        const contexts: HookContext<Type>[] = [];
+
+        for (let i = 0; i < operations.length; i++) {
+            const operation = operations[i];
+            try {
+                const [write, ctx] = await this.prepareBulkOperation(operation, skipValidate, options);
+                writes.push(this.encryptOperation(write));
+                if (ctx) contexts.push(ctx);
+            } catch (err) {
+                if (err instanceof OperationAbortedError || err instanceof VersionConflictError)
+                    errMap.push({ index: i, error: err });
+                else if (err instanceof IdFieldNotAllowedError || err instanceof ValidateError) {
+                    errMap.push({ index: i, error: err });
+                    writes.push(this.encryptOperation(operation));
+                } else throw err;
+            }
+        }
+
+        const result = writes.length > 0 ? await this.collection.bulkWrite(writes, options) : emptyBulkWriteResult();
+        for (const ctx of contexts) await this.runPostHooks(ctx, result);
+
+        return { result, validateErrors: errMap };
+    }
+
+    /**
+     * Validates a single bulk write operation (unless `skipValidate` is set), runs its pre hooks and
+     * returns the operation to write, built from the parsed and hooked data.
+     */
+    private async prepareBulkOperation(
+        operation: AnyBulkWriteOperation<Type>,
+        skipValidate: boolean,
+        options?: BulkWriteOptions
+    ): Promise<[AnyBulkWriteOperation<Type>, HookContext<Type>?]> {
+        if ("insertOne" in operation) {
+            const doc = operation.insertOne.document as Record<string | number, unknown>;
+            const data = this.stampDocument(
+                (skipValidate ? doc : removeUndefinedFields(await this.parse(doc))) as Type,
+                true
+            );
+
+            const ctx = await this.runPreHooks("insertOne", { data, options }, true);
+            return [{ insertOne: { ...operation.insertOne, document: ctx.data as OptionalId<Type> } }, ctx];
+        } else if ("updateOne" in operation || "updateMany" in operation) {
+            const method = "updateOne" in operation ? "updateOne" : "updateMany";
+            const model = "updateOne" in operation ? operation.updateOne : operation.updateMany;
+
+            const doc = model.update;
+            if (doc.hasOwnProperty("_id")) throw new IdFieldNotAllowedError();
+            if (Array.isArray(doc)) {
+                const { updatedAt } = this._timestamps;
+                const version = this._versionKey;
+                if (!updatedAt && !version) return [operation];
+
+                const update = [...doc];
+                if (updatedAt) update.push({ $set: { [updatedAt]: "$$NOW" } });
+                if (version) update.push({ $set: { [version]: { $add: [{ $ifNull: [`$${version}`, 0] }, 1] } } });
+                return [{ [method]: { ...model, update } } as AnyBulkWriteOperation<Type>];
             }
+
+            const { $set = {}, $unset, $setOnInsert, ...rest } = doc as BSON.Document;
+            const { data, operators } = skipValidate
+                ? { data: $set as DeepPartial<Type>, operators: rest as UpdateOperators<Type> }
+                : await this.parseUpdate({ ...$set, ...rest });
+
+            const ctx = await this.runPreHooks(
+                method,
+                { filter: this.scopeFilter(this.parseFilter(model.filter)), data, operators, options },
+                true
+            );
+            const version = this.applyExpectedVersion(ctx.filter, ctx.data as Record<string | number, unknown>);
+            if (version.expected !== undefined)
+                await this.assertVersion(ctx.filter, version.expected, options?.session);
+
+            const update = { ...ctx.operators } as UpdateFilter<Type>;
+            if ($unset) update.$unset = $unset;
+            if ($setOnInsert) update.$setOnInsert = $setOnInsert;
+            if (doc.$set || Object.keys(ctx.data).length > 0) update.$set = ctx.data as UpdateFilter<Type>["$set"];
+            this.stampUpdate(update, model.upsert);
+
+            return [{ [method]: { ...model, filter: version.filter, update } } as AnyBulkWriteOperation<Type>, ctx];
+        } else if ("replaceOne" in operation) {
+            const doc = operation.replaceOne.replacement as Record<string | number, unknown>;
+            if (doc.hasOwnProperty("_id")) throw new IdFieldNotAllowedError();
+            const data = this.stampDocument(
+                (skipValidate
+                    ? doc
+                    : removeUndefinedFields(
+                          await this.parse(doc, { partialFields: ["_id"] as ObjectKeyPaths<Type>[] })
+                      )) as OmitId<Type>,
+                false
+            );
+
+            const filter = this.scopeFilter(this.parseFilter(operation.replaceOne.filter));
+            const ctx = await this.runPreHooks("replaceOne", { filter, data, options }, true);
+
+            const replacement = ctx.data as Record<string | number, unknown>;
+            const carried = this._versionKey !== undefined && typeof replacement[this._versionKey] === "number";
+            const current = await this.findReplaced(ctx.filter, replacement, options);
+            this.applyReplaceCreatedAt(replacement, current);
+            const version = this.applyReplaceVersion(ctx.filter, replacement, current);
+            if (carried) await this.assertVersion(ctx.filter, version.expected as number, options?.session);
+
+            return [{ replaceOne: { ...operation.replaceOne, filter: version.filter, replacement: ctx.data } }, ctx];
+        } else if ("deleteOne" in operation || "deleteMany" in operation) {
+            const method = "deleteOne" in operation ? "deleteOne" : "deleteMany";
+            const model = "deleteOne" in operation ? operation.deleteOne : operation.deleteMany;
+
+            const ctx = await this.runPreHooks(method, { filter: this.parseFilter(model.filter), options }, true);
+            if (!this._softDelete)
+                return [{ [method]: { ...model, filter: ctx.filter } } as AnyBulkWriteOperation<Type>, ctx];
+
+            const update = this.softDeleteUpdate();
+            const filter = this.scopeFilter(ctx.filter, "exclude");
+            const softMethod = method === "deleteOne" ? "updateOne" : "updateMany";
+            return [{ [softMethod]: { ...model, filter, update } } as AnyBulkWriteOperation<Type>, ctx];
+        }
+
+        return [operation];
+    }
+
+    /**
+     * Creates a chainable, type-safe query builder for the model.
+     *
+     * @returns {Query<Type>} A new query builder.
+     *
+     * @example
+     * // Find the names of the adult users living in Paris, the oldest first.
+     * const users = await UserModel.query()
+     *     .where("address.city")
+     *     .eq("Paris")
+     *     .where("age")
+     *     .gte(18)
+     *     .sort({ age: -1 })
+     *     .select(["name"])
+     *     .exec();
+     */
+    public query(): Query<Type> {
+        return new Query(this);
+    }
+
+    /**
+     * Opens a cursor over the documents that match the specified filter criteria, without loading them all in memory.
+     *
+     * Documents are validated lazily when the `checkOnGet` option is enabled, and the `hiddenFields` are removed
+     * from each document. Hooks of the `find` operation are not run.
+     *
+     * @param {MGFilter<Type>} filter - Optional filter criteria to apply to the find operation.
+     * @param {MGCursorOptions<Type, Pr>} options - Optional settings for the cursor. Learn more at
+     *                                             {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOptions.html this}.
+     *                                             Use `batchSize` to set the number of documents fetched per batch,
+     *                                             and `onInvalid` to `skip`, `throw` or `collect` invalid documents.
+     *
+     * @returns {ModelCursor<Type, Projected<Type, Pr>>} A cursor, iterable with `for await` or as a Node.js stream.
+     *
+     * @example
+     * // Export all users, collecting the invalid ones.
+     * const cursor = UserModel.findCursor({}, { batchSize: 1000, onInvalid: "collect" });
+     * for await (const user of cursor) await exportUser(user);
+     *
+     * // Stream all users.
+     * UserModel.findCursor().stream().pipe(transform).pipe(output);
+     */
+    public findCursor<const Pr extends MGProjection<Type> = {}>(
+        filter?: MGFilter<Type>,
+        options?: MGCursorOptions<Type, Pr>
+    ): ModelCursor<Type, Projected<Type, Pr>> {
+        const { onInvalid, projection, ...findOptions } = options ?? {};
+        if (projection)
+            (findOptions as FindOptions).projection = Object.fromEntries(
+                Object.entries(projection).map(([path, value]) => [toMongoPath(path), value])
+            );
+
+        const { options: cursorOptions, hiddenFields } = this.hideProjection(
+            this.withSession(findOptions) as FindOptions
+        );
+        const cursor = this.collection.find(this.scopeFilter(this.parseFilter(filter)), cursorOptions);
+        return new ModelCursor(this, cursor as FindCursor<Type>, {
+            onInvalid,
+            projection: cursorOptions.projection,
+            hiddenFields,
+        });
+    }
+
+    /**
+     * Opens a typed change stream over the collection of the model. Requires a replica set or a sharded cluster.
+     *
+     * The documents of the events are validated when the `validate` option (defaulting to the `checkOnGet` option)
+     * is enabled, and the `hiddenFields` are removed from them. Soft-delete scoping does not apply to change events.
+     * Streams of discriminator sub-models only receive the events whose full document has their discriminator value,
+     * so update events require the `fullDocument` option, and delete events are not received.
+     *
+     * @param {BSON.Document[]} pipeline - Optional aggregation stages to filter or transform the change events.
+     * @param {MGChangeStreamOptions} options - Optional settings for the change stream. Learn more at
+     *                                          {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/ChangeStreamOptions.html this}.
+     *                                          Use `checkpoint` to resume the stream from a checkpoint store,
+     *                                          and `onInvalid` to `skip`, `throw` or `collect` invalid events.
+     *
+     * @returns {ModelChangeStream<Type>} A change stream, iterable with `for await` or consumed with handlers.
+     *
+     * @example
+     * // Index the users as they change.
+     * await UserModel.watch([], { fullDocument: "updateLookup" })
+     *     .onInsert((user) => index(user))
+     *     .onUpdate((event) => index(event.fullDocument))
+     *     .onDelete((id) => unindex(id))
+     *     .listen();
+     */
+    public watch(pipeline: BSON.Document[] = [], options?: MGChangeStreamOptions): ModelChangeStream<Type> {
+        if (this._discriminatorScope) {
+            const { key, value } = this._discriminatorScope;
+            pipeline = [{ $match: { [`fullDocument.${key}`]: value } }, ...pipeline];
         }
 
-        return this.collection.bulkWrite(operations, options).then((res) => ({ result: res, validateErrors: errMap }));
+        return new ModelChangeStream(this, pipeline, options);
     }
 
     /**
      * Finds documents in the collection that match the specified filter criteria.
      *
-     * @param {Filter<Type>} filter - Optional filter criteria to apply to the find operation.
-     * @param {FindOptions} options - Optional settings for the `find` operation. Learn more at
-     *                                {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOptions.html this}.
+     * @param {MGFilter<Type>} filter - Optional filter criteria to apply to the find operation.
+     * @param {MGFindOptions<Type, P, Pr>} options - Optional settings for the `find` operation. Learn more at
+     *                                              {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOptions.html this}.
+     *                                              Use `projection` to narrow the returned fields,
+     *                                              and `populate` to replace the specified reference paths with the referenced documents.
      *
-     * @returns {Promise<Type[]>} A promise that resolves to an array of documents matching the criteria.
+     * @returns {Promise<Populated<Projected<Type, Pr>, P>[]>} A promise that resolves to an array of documents matching the criteria.
      *
      * @example
      * // Find all user documents in the collection.
      * const users = await UserModel.find();
+     *
+     * // Find all users with their organization.
+     * const users = await UserModel.find({}, { populate: ["org"] });
+     *
+     * // Find the names and cities of all users.
+     * const users = await UserModel.find({}, { projection: { name: 1, "address.city": 1 } });
+     * // { _id: ObjectId; name: string; address: { city: string } }[]
+     */
+    public async find<const P extends ObjectKeyPaths<Type> = never, const Pr extends MGProjection<Type> = {}>(
+        filter?: MGFilter<Type>,
+        options?: MGFindOptions<Type, P, Pr>
+    ): Promise<Populated<Projected<Type, Pr>, P>[]> {
+        return this._find("find", filter, options) as Promise<Populated<Projected<Type, Pr>, P>[]>;
+    }
+
+    /**
+     * Finds a page of documents that match the specified filter criteria (offset pagination).
+     * The documents are counted and found in parallel.
+     *
+     * **Note:** `_id` is appended to the sort as a tie-breaker, so documents with the same sort values
+     * keep a stable order between pages.
+     *
+     * @param {MGFilter<Type>} filter - Optional filter criteria to apply to the find operation.
+     * @param {PaginateOptions<Type>} options - The page number (from 1), page size (default: 20) and sort order.
+     *
+     * @returns {Promise<PaginateResult<Type>>} A promise that resolves to the page of documents and the pagination details.
+     *
+     * @example
+     * // Find the second page of users, the oldest first.
+     * const { items, total, pageCount, hasNext } = await UserModel.paginate({}, { page: 2, pageSize: 20, sort: { age: -1 } });
+     */
+    public async paginate(
+        filter: MGFilter<Type> = {},
+        options: PaginateOptions<Type> = {}
+    ): Promise<PaginateResult<Type>> {
+        const page = Math.max(1, Math.floor(options.page ?? 1));
+        const pageSize = Math.max(1, Math.floor(options.pageSize ?? 20));
+        const sort = withIdTieBreaker(this.toSortEntries(options.sort));
+
+        const [total, items] = await Promise.all([
+            this.countDocuments(filter),
+            this.find(filter, { sort: Object.fromEntries(sort), skip: (page - 1) * pageSize, limit: pageSize }),
+        ]);
+        const pageCount = Math.ceil(total / pageSize);
+
+        return { items, total, page, pageCount, hasNext: page < pageCount };
+    }
+
+    /**
+     * Finds a page of documents that match the specified filter criteria, after the provided cursor token (keyset pagination).
+     *
+     * Cursor tokens are opaque and signed with the `paginationSecret` option, and hold the sort values of the last
+     * document of the page. `_id` is appended to the sort as a tie-breaker. Tokens are built before the `hiddenFields`
+     * are removed, so documents can be sorted by hidden fields.
+     *
+     * **Note:** Sort fields should not be missing or `null`, as they cannot be compared with the cursor values.
+     *
+     * @param {MGFilter<Type>} filter - Optional filter criteria to apply to the find operation.
+     * @param {CursorPaginateOptions<Type>} options - The cursor token of the previous page, page size (default: 20) and sort order.
+     *
+     * @returns {Promise<CursorPaginateResult<Type>>} A promise that resolves to the page of documents and the next cursor token.
+     * @throws {InvalidCursorTokenError} If the cursor token is malformed, was tampered with or was created with a different sort.
+     *
+     * @example
+     * // Iterate over all users, the newest first.
+     * let after: string | null = null;
+     * do {
+     *     const page = await UserModel.paginateByCursor({}, { after, limit: 100, sort: { createdAt: -1 } });
+     *     after = page.next;
+     * } while (after);
      */
-    public async find(filter?: Filter<Type>, options?: FindOptions): Promise<Type[]> {
-        return this._find("find", filter, options) as Promise<Type[]>;
+    public async paginateByCursor(
+        filter: MGFilter<Type> = {},
+        options: CursorPaginateOptions<Type> = {}
+    ): Promise<CursorPaginateResult<Type>> {
+        const limit = Math.max(1, Math.floor(options.limit ?? 20));
+        const sort = withIdTieBreaker(this.toSortEntries(options.sort));
+        const secret = this._options.paginationSecret;
+
+        if (options.after) {
+            const keyset = buildKeysetFilter(sort, decodeCursorToken(options.after, sort, secret));
+            filter = { $and: [filter, keyset] } as MGFilter<Type>;
+        }
+
+        const docs = await this.find(filter, { sort: Object.fromEntries(sort), limit: limit + 1, includeHidden: true });
+        const hasNext = docs.length > limit;
+        const next = hasNext ? encodeCursorToken(sort, docs[limit - 1], secret) : null;
+
+        return { items: this.hideFields(docs.slice(0, limit)) as Type[], next, hasNext };
+    }
+
+    /** Converts a model sort specification to ordered MongoDB sort entries. */
+    private toSortEntries(sort: QuerySort<Type> = {}): [path: string, direction: 1 | -1][] {
+        return Object.entries(sort).map(([path, direction]) => [toMongoPath(path), direction as 1 | -1]);
     }
 
     /**
      * Finds a document in the collection by its ID.
      *
      * @param {IdField<Type>} id - The ID of the document to find.
-     * @param {FindOptions} options - Optional settings for the `findById` operation. Learn more at
-     *                                {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOptions.html this}.
+     * @param {MGFindOptions<Type, P, Pr>} options - Optional settings for the `findById` operation. Learn more at
+     *                                              {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOptions.html this}.
+     *                                              Use `projection` to narrow the returned fields,
+     *                                              and `populate` to replace the specified reference paths with the referenced documents.
      *
-     * @returns {Promise<Type | null>} A promise that resolves to the document matching the ID.
-     *                                 If no document is found, the promise resolves to null.
+     * @returns {Promise<Populated<Projected<Type, Pr>, P> | null>} A promise that resolves to the document matching the ID.
+     *                                                               If no document is found, the promise resolves to null.
      *
      * @example
      * // Find a user document with the specified ID.
      * const user = await UserModel.findById(new ObjectId("64b175497dc71570edd625d2"));
      */
-    public async findById(id: IdField<Type>, options?: FindOptions): Promise<Type | null> {
-        return this.findOne({ _id: id } as Filter<Type>, options);
+    public async findById<const P extends ObjectKeyPaths<Type> = never, const Pr extends MGProjection<Type> = {}>(
+        id: IdField<Type>,
+        options?: MGFindOptions<Type, P, Pr>
+    ): Promise<Populated<Projected<Type, Pr>, P> | null> {
+        return this.findOne({ _id: id } as MGFilter<Type>, options);
     }
 
     /**
@@ -579,10 +1915,11 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      *
      * **Note:** By default, this operation uses the `$set` operator. If you assign `undefined` to a field,
      * it will be removed from the document (using the `unset` operator) rather than being set to `null` (as MongoDB's default behavior).
+     * Update operators (e.g. `$inc`, `$push`) can be used alongside the fields, and their operands are validated against the schema.
      *
      * @param {IdField<Type>} id - The ID of the document to find and update.
      * @param {UpdateType<Type>} update - The update to apply to the document.
-     * @param {FindOneAndUpdateOptions} options - Optional settings for the `findByIdAndUpdate` operation. Learn more at
+     * @param {MGFindOneAndUpdateOptions} options - Optional settings for the `findByIdAndUpdate` operation. Learn more at
      *                                            {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOneAndUpdateOptions.html this}.
      *
      * @returns {Promise<ModifyResult<Type> | Type | null>} A promise that resolves to the original document or `null` if no document is found.
@@ -594,26 +1931,26 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
     public async findByIdAndUpdate(
         id: IdField<Type>,
         update: UpdateType<Type>,
-        options: FindOneAndUpdateOptions & { includeResultMetadata: true }
+        options: MGFindOneAndUpdateOptions & { includeResultMetadata: true }
     ): Promise<ModifyResult<Type>>;
     public async findByIdAndUpdate(
         id: IdField<Type>,
         update: UpdateType<Type>,
-        options: FindOneAndUpdateOptions & { includeResultMetadata: false }
+        options: MGFindOneAndUpdateOptions & { includeResultMetadata: false }
     ): Promise<Type | null>;
     public async findByIdAndUpdate(
         id: IdField<Type>,
         update: UpdateType<Type>,
-        options: FindOneAndUpdateOptions
+        options: MGFindOneAndUpdateOptions
     ): Promise<Type | null>;
     public async findByIdAndUpdate(id: IdField<Type>, update: UpdateType<Type>): Promise<Type | null>;
     public async findByIdAndUpdate(
         id: IdField<Type>,
         update: UpdateType<Type>,
-        options?: FindOneAndUpdateOptions
+        options?: MGFindOneAndUpdateOptions
     ): Promise<ModifyResult<Type> | Type | null> {
-        if (!options) return this.findOneAndUpdate({ _id: id } as Filter<Type>, update);
-        else return this.findOneAndUpdate({ _id: id } as Filter<Type>, update, options);
+        if (!options) return this.findOneAndUpdate({ _id: id } as MGFilter<Type>, update);
+        else return this.findOneAndUpdate({ _id: id } as MGFilter<Type>, update, options);
     }
 
     /**
@@ -621,7 +1958,7 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      *
      * @param {IdField<Type>} id - The ID of the document to find and replace.
      * @param {ReplaceType<SchemaType>} replacement - The replacement document.
-     * @param {FindOneAndReplaceOptions} options - Optional settings for the `findByIdAndReplace` operation. Learn more at
+     * @param {MGFindOneAndReplaceOptions} options - Optional settings for the `findByIdAndReplace` operation. Learn more at
      *                                             {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOneAndReplaceOptions.html this}.
      *
      * @returns {Promise<ModifyResult<Type> | Type | null>} A promise that resolves to the original document or `null` if no document is found.
@@ -633,35 +1970,37 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
     public async findByIdAndReplace(
         id: IdField<Type>,
         replacement: ReplaceType<SchemaType>,
-        options: FindOneAndReplaceOptions & { includeResultMetadata: true }
+        options: MGFindOneAndReplaceOptions & { includeResultMetadata: true }
     ): Promise<ModifyResult<Type>>;
     public async findByIdAndReplace(
         id: IdField<Type>,
         replacement: ReplaceType<SchemaType>,
-        options: FindOneAndReplaceOptions & { includeResultMetadata: false }
+        options: MGFindOneAndReplaceOptions & { includeResultMetadata: false }
     ): Promise<Type | null>;
     public async findByIdAndReplace(
         id: IdField<Type>,
         replacement: ReplaceType<SchemaType>,
-        options: FindOneAndReplaceOptions
+        options: MGFindOneAndReplaceOptions
     ): Promise<Type | null>;
     public async findByIdAndReplace(id: IdField<Type>, replacement: ReplaceType<SchemaType>): Promise<Type | null>;
     public async findByIdAndReplace(
         id: IdField<Type>,
         replacement: ReplaceType<SchemaType>,
-        options?: FindOneAndReplaceOptions
+        options?: MGFindOneAndReplaceOptions
     ): Promise<ModifyResult<Type> | Type | null> {
-        if (!options) return this.findOneAndReplace({ _id: id } as Filter<Type>, replacement);
-        else return this.findOneAndReplace({ _id: id } as Filter<Type>, replacement, options);
+        if (!options) return this.findOneAndReplace({ _id: id } as MGFilter<Type>, replacement);
+        else return this.findOneAndReplace({ _id: id } as MGFilter<Type>, replacement, options);
     }
 
     /**
      * Finds a document in the collection by its ID and deletes it.
      *
      * @param {IdField<Type>} id - The ID of the document to find and delete.
-     * @param {FindOneAndDeleteOptions} options - Optional settings for the `findByIdAndDelete` operation. Learn more at
+     * @param {MGFindOneAndDeleteOptions} options - Optional settings for the `findByIdAndDelete` operation. Learn more at
      *                                            {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOneAndDeleteOptions.html this}.
      *
+     * **Note:** In soft-delete mode, the document is marked as deleted instead of being removed.
+     *
      * @returns {Promise<ModifyResult<Type> | Type | null>} A promise that resolves to the deleted document or `null` if no document is found.
      *
      * @example
@@ -670,28 +2009,30 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      */
     public async findByIdAndDelete(
         id: IdField<Type>,
-        options: FindOneAndDeleteOptions & { includeResultMetadata: true }
+        options: MGFindOneAndDeleteOptions & { includeResultMetadata: true }
     ): Promise<ModifyResult<Type>>;
     public async findByIdAndDelete(
         id: IdField<Type>,
-        options: FindOneAndDeleteOptions & { includeResultMetadata: false }
+        options: MGFindOneAndDeleteOptions & { includeResultMetadata: false }
     ): Promise<Type | null>;
-    public async findByIdAndDelete(id: IdField<Type>, options: FindOneAndDeleteOptions): Promise<Type | null>;
+    public async findByIdAndDelete(id: IdField<Type>, options: MGFindOneAndDeleteOptions): Promise<Type | null>;
     public async findByIdAndDelete(id: IdField<Type>): Promise<Type | null>;
     public async findByIdAndDelete(
         id: IdField<Type>,
-        options?: FindOneAndDeleteOptions
+        options?: MGFindOneAndDeleteOptions
     ): Promise<ModifyResult<Type> | Type | null> {
-        if (!options) return this.findOneAndDelete({ _id: id } as Filter<Type>);
-        else return this.findOneAndDelete({ _id: id } as Filter<Type>, options);
+        if (!options) return this.findOneAndDelete({ _id: id } as MGFilter<Type>);
+        else return this.findOneAndDelete({ _id: id } as MGFilter<Type>, options);
     }
 
     /**
      * Finds a document in the collection that match the specified filter criteria.
      *
-     * @param {Filter<Type>} [filter] - Optional filter criteria to apply to the find operation.
-     * @param {FindOptions} options - Optional settings for the `findOne` operation. Learn more at
-     *                                {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOptions.html this}.
+     * @param {MGFilter<Type>} [filter] - Optional filter criteria to apply to the find operation.
+     * @param {MGFindOptions<Type, P, Pr>} options - Optional settings for the `findOne` operation. Learn more at
+     *                                              {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOptions.html this}.
+     *                                              Use `projection` to narrow the returned fields,
+     *                                              and `populate` to replace the specified reference paths with the referenced documents.
      *
      * @returns {Promise<Type | null>} A promise that resolves to the first document matching the criteria.
      *
@@ -699,8 +2040,11 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * // Find a user document with the specified name.
      * const user = await UserModel.findOne({ name: "John Doe" });
      */
-    public async findOne(filter?: Filter<Type>, options?: FindOptions): Promise<Type | null> {
-        return this._find("findOne", filter, options) as Promise<Type | null>;
+    public async findOne<const P extends ObjectKeyPaths<Type> = never, const Pr extends MGProjection<Type> = {}>(
+        filter?: MGFilter<Type>,
+        options?: MGFindOptions<Type, P, Pr>
+    ): Promise<Populated<Projected<Type, Pr>, P> | null> {
+        return this._find("findOne", filter, options) as Promise<Populated<Projected<Type, Pr>, P> | null>;
     }
 
     /**
@@ -708,10 +2052,11 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      *
      * **Note:** By default, this operation uses the `$set` operator. If you assign `undefined` to a field,
      * it will be removed from the document (using the `unset` operator) rather than being set to `null` (as MongoDB's default behavior).
+     * Update operators (e.g. `$inc`, `$push`) can be used alongside the fields, and their operands are validated against the schema.
      *
-     * @param {Filter<Type>} filter - The filter criteria to locate the document to update.
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the document to update.
      * @param {UpdateType<Type>} update - The update operations to be applied to the document.
-     * @param {FindOneAndUpdateOptions} options - Options for the `findOneAndUpdate` operation. Learn more at
+     * @param {MGFindOneAndUpdateOptions} options - Options for the `findOneAndUpdate` operation. Learn more at
      *                                            {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOneAndUpdateOptions.html this}.
      *
      * @returns {Promise<ModifyResult<Type> | Type | null>} A promise that resolves to the original document or `null` if no document is found.
@@ -721,53 +2066,164 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * const user = await UserModel.findOneAndUpdate({ name: "John Doe" }, { age: 30 });
      */
     public async findOneAndUpdate(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         update: UpdateType<Type>,
-        options: FindOneAndUpdateOptions & { includeResultMetadata: true }
+        options: MGFindOneAndUpdateOptions & { includeResultMetadata: true }
     ): Promise<ModifyResult<Type>>;
     public async findOneAndUpdate(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         update: UpdateType<Type>,
-        options: FindOneAndUpdateOptions & { includeResultMetadata: false }
+        options: MGFindOneAndUpdateOptions & { includeResultMetadata: false }
     ): Promise<Type | null>;
     public async findOneAndUpdate(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         update: UpdateType<Type>,
-        options: FindOneAndUpdateOptions
+        options: MGFindOneAndUpdateOptions
     ): Promise<Type | null>;
-    public async findOneAndUpdate(filter: Filter<Type>, update: UpdateType<Type>): Promise<Type | null>;
+    public async findOneAndUpdate(filter: MGFilter<Type>, update: UpdateType<Type>): Promise<Type | null>;
     public async findOneAndUpdate(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         update: UpdateType<Type>,
-        options?: FindOneAndUpdateOptions
+        options?: MGFindOneAndUpdateOptions
     ): Promise<ModifyResult<Type> | Type | null> {
-        if (update.hasOwnProperty("_id")) throw new IdFieldNotAllowedError();
-        const updateData = await this.parse(update, { isPartial: true });
-
-        const { set, unset } = processUndefinedFieldsForUpdate(updateData);
-        const updateFilter = { $set: set as Partial<Type>, $unset: unset } as UpdateFilter<Type>;
-
-        let res;
-        if (options) {
-            if (options.includeResultMetadata)
-                return this.collection.findOneAndUpdate(
-                    filter as Filter<Type>,
-                    updateFilter,
-                    options as FindOneAndUpdateOptions & { includeResultMetadata: true }
-                );
+        const { data, operators } = await this.parseUpdate(update);
+
+        const ctx = await this.runPreHooks("findOneAndUpdate", {
+            filter: this.scopeFilter(this.parseFilter(filter)),
+            data,
+            operators,
+            options: this.withSession(options),
+        });
+
+        const version = this.applyExpectedVersion(ctx.filter, ctx.data as Record<string | number, unknown>);
+        const { set, unset } = processUndefinedFieldsForUpdate(ctx.data);
+        const updateFilter = { ...ctx.operators, $set: set as Partial<Type>, $unset: unset } as UpdateFilter<Type>;
+
+        const upsertError = ctx.options?.upsert
+            ? await this.prepareUpsert(version.filter, ctx.data, ctx.operators, updateFilter)
+            : undefined;
+        const { options: updateOptions, hiddenFields } = this.hideProjection(
+            (upsertError ? { ...ctx.options, upsert: false } : ctx.options) as MGFindOneAndUpdateOptions | undefined
+        );
+
+        const res = await this.readResult(
+            (await this.collection.findOneAndUpdate(
+                version.filter,
+                this.encryptUpdate(this.stampUpdate(updateFilter, updateOptions.upsert)),
+                updateOptions
+            )) as ModifyResult<Type> | Type | null,
+            updateOptions,
+            hiddenFields
+        );
+
+        const value = updateOptions.includeResultMetadata ? (res as ModifyResult<Type>).value : res;
+        if (upsertError && value === null) throw upsertError;
+        if (version.expected !== undefined && value === null)
+            await this.assertVersion(ctx.filter, version.expected, updateOptions.session);
+
+        await this.runPostHooks(ctx, res);
+        return res;
+    }
+
+    /**
+     * Updates a document that matches the filter criteria, or creates it if none matches.
+     * The created document is validated against the full schema, and gets the default values of the untouched fields.
+     *
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the document to update.
+     * @param {UpdateType<Type>} update - The update operations to be applied to the document.
+     * @param {MGFindOneAndUpdateOptions} options - Optional settings for the `findOneAndUpdate` operation. Learn more at
+     *                                            {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOneAndUpdateOptions.html this}.
+     *
+     * @returns {Promise<UpsertResult<Type>>} A promise that resolves to the updated or created document, and whether it was created.
+     * @throws {ValidateError} If no document matches and the document to create is invalid.
+     *
+     * @example
+     * // Increment the visits of a user, creating the user if needed.
+     * const { document, created } = await UserModel.upsert({ email: "john@doe.com" }, { name: "John Doe", $inc: { visits: 1 } });
+     */
+    public async upsert(
+        filter: MGFilter<Type>,
+        update: UpdateType<Type>,
+        options?: Omit<MGFindOneAndUpdateOptions, "upsert" | "returnDocument" | "includeResultMetadata">
+    ): Promise<UpsertResult<Type>> {
+        const res = await this.findOneAndUpdate(filter, update, {
+            ...options,
+            upsert: true,
+            returnDocument: "after",
+            includeResultMetadata: true,
+        });
+
+        return { document: res.value as Type, created: !res.lastErrorObject?.updatedExisting };
+    }
+
+    /**
+     * Finds a document that matches the filter criteria, or creates it from the filter equality fields and the provided data.
+     * Existing documents are left untouched, and soft-deleted documents are ignored.
+     * The `findOneAndUpdate` hooks are run, with the parsed document to create as `data` (like `insertOne()`).
+     *
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the document.
+     * @param {Partial<InsertType<SchemaType>>} data - The fields of the document to create, besides the filter equality fields.
+     * @param {MGFindOneAndUpdateOptions} options - Optional settings for the `findOneAndUpdate` operation. Learn more at
+     *                                            {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOneAndUpdateOptions.html this}.
+     *
+     * @returns {Promise<UpsertResult<Type>>} A promise that resolves to the found or created document, and whether it was created.
+     * @throws {ValidateError} If the document to create is invalid.
+     *
+     * @example
+     * // Find a user by email, or create it.
+     * const { document, created } = await UserModel.findOrCreate({ email: "john@doe.com" }, { name: "John Doe" });
+     */
+    public async findOrCreate(
+        filter: MGFilter<Type>,
+        data: Partial<InsertType<SchemaType>> = {},
+        options?: Omit<MGFindOneAndUpdateOptions, "upsert" | "returnDocument" | "includeResultMetadata">
+    ): Promise<UpsertResult<Type>> {
+        const parsedFilter = this.parseFilter(filter);
+        const { equality } = this.getUpsertEqualityFields(parsedFilter);
+        const doc = this.stampDocument(
+            removeUndefinedFields(
+                await this.parse(buildUpsertDocument(equality, data as Record<string | number, unknown>))
+            ) as Type,
+            true
+        );
+
+        const ctx = await this.runPreHooks("findOneAndUpdate", {
+            filter: parsedFilter,
+            data: doc as DeepPartial<Type>,
+            operators: {},
+            options: this.withSession(options),
+        });
 
-            res = this.collection.findOneAndUpdate(filter as Filter<Type>, updateFilter, options);
-        } else res = this.collection.findOneAndUpdate(filter as Filter<Type>, updateFilter);
+        const { _id, ...fields } = ctx.data as Type;
+        const { options: findOptions, hiddenFields } = this.hideProjection(
+            ctx.options as MGFindOneAndUpdateOptions | undefined
+        );
+
+        const res = await this.collection.findOneAndUpdate(
+            this.scopeFilter(ctx.filter, "exclude"),
+            this.encryptUpdate({ $setOnInsert: "_id" in equality ? fields : { _id, ...fields } } as UpdateFilter<Type>),
+            { ...findOptions, upsert: true, returnDocument: "after", includeResultMetadata: true }
+        );
 
-        return res.then((doc) => doc as Type | null);
+        const result = {
+            ...res,
+            value: await this.readResult(
+                res.value as Type | null,
+                { projection: findOptions.projection },
+                hiddenFields
+            ),
+        } as ModifyResult<Type>;
+
+        await this.runPostHooks(ctx, result);
+        return { document: result.value as Type, created: !res.lastErrorObject?.updatedExisting };
     }
 
     /**
      * Finds a document in the collection that match the specified filter criteria and replaces it.
      *
-     * @param {Filter<Type>} filter - The filter criteria to locate the document to update.
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the document to update.
      * @param {ReplaceType<SchemaType>} replacement - The replacement document.
-     * @param {FindOneAndReplaceOptions} options - Optional settings for the `findOneAndReplace` operation. Learn more at
+     * @param {MGFindOneAndReplaceOptions} options - Optional settings for the `findOneAndReplace` operation. Learn more at
      *                                             {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOneAndReplaceOptions.html this}.
      *
      * @returns {Promise<ModifyResult<Type> | Type | null>} A promise that resolves to the original document or `null` if no document is found.
@@ -777,55 +2233,76 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * const replacedUser = await UserModel.findOneAndReplace({ name: "John Doe" }, { name: "Jane Doe" });
      */
     public async findOneAndReplace(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         replacement: ReplaceType<SchemaType>,
-        options: FindOneAndReplaceOptions & { includeResultMetadata: true }
+        options: MGFindOneAndReplaceOptions & { includeResultMetadata: true }
     ): Promise<ModifyResult<Type>>;
     public async findOneAndReplace(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         replacement: ReplaceType<SchemaType>,
-        options: FindOneAndReplaceOptions & { includeResultMetadata: false }
+        options: MGFindOneAndReplaceOptions & { includeResultMetadata: false }
     ): Promise<Type | null>;
     public async findOneAndReplace(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         replacement: ReplaceType<SchemaType>,
-        options: FindOneAndReplaceOptions
+        options: MGFindOneAndReplaceOptions
     ): Promise<Type | null>;
-    public async findOneAndReplace(filter: Filter<Type>, replacement: ReplaceType<SchemaType>): Promise<Type | null>;
+    public async findOneAndReplace(filter: MGFilter<Type>, replacement: ReplaceType<SchemaType>): Promise<Type | null>;
     public async findOneAndReplace(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         replacement: ReplaceType<SchemaType>,
-        options?: FindOneAndReplaceOptions
+        options?: MGFindOneAndReplaceOptions
     ): Promise<ModifyResult<Type> | Type | null> {
         if (replacement.hasOwnProperty("_id")) throw new IdFieldNotAllowedError();
-        const replaceData = removeUndefinedFields(
-            await this.parse(replacement as Record<string | number, unknown>, {
-                partialFields: ["_id"] as ObjectKeyPaths<Type>[],
-            })
-        ) as OmitId<Type>;
-
-        let res;
-        if (options) {
-            if (options.includeResultMetadata)
-                return this.collection.findOneAndReplace(
-                    filter as Filter<Type>,
-                    replaceData,
-                    options as FindOneAndUpdateOptions & { includeResultMetadata: true }
-                );
+        const replaceData = this.stampDocument(
+            removeUndefinedFields(
+                await this.parse(replacement as Record<string | number, unknown>, {
+                    partialFields: ["_id"] as ObjectKeyPaths<Type>[],
+                })
+            ) as OmitId<Type>,
+            false
+        );
+
+        const ctx = await this.runPreHooks("findOneAndReplace", {
+            filter: this.scopeFilter(this.parseFilter(filter)),
+            data: replaceData,
+            options: this.withSession(options),
+        });
+
+        const { options: replaceOptions, hiddenFields } = this.hideProjection(
+            ctx.options as MGFindOneAndReplaceOptions | undefined
+        );
+        const data = ctx.data as Record<string | number, unknown>;
+        const current = await this.findReplaced(ctx.filter, data, replaceOptions);
+        this.applyReplaceCreatedAt(data, current);
+        const version = this.applyReplaceVersion(ctx.filter, data, current);
+
+        const res = await this.readResult(
+            (await this.collection.findOneAndReplace(version.filter, this.encryptFields(ctx.data), replaceOptions)) as
+                | ModifyResult<Type>
+                | Type
+                | null,
+            replaceOptions,
+            hiddenFields
+        );
 
-            res = this.collection.findOneAndReplace(filter as Filter<Type>, replaceData, options);
-        } else res = this.collection.findOneAndReplace(filter as Filter<Type>, replaceData);
+        const value = replaceOptions.includeResultMetadata ? (res as ModifyResult<Type>).value : res;
+        if (version.expected !== undefined && value === null)
+            await this.assertVersion(ctx.filter, version.expected, replaceOptions.session);
 
-        return res.then((doc) => doc as Type | null);
+        await this.runPostHooks(ctx, res);
+        return res;
     }
 
     /**
      * Finds a document in the collection that match the specified filter criteria and deletes it.
      *
-     * @param {Filter<Type>} filter - The filter criteria to locate the document to delete.
-     * @param {FindOneAndDeleteOptions} options - Options for the `findOneAndDelete` operation. Learn more at
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the document to delete.
+     * @param {MGFindOneAndDeleteOptions} options - Options for the `findOneAndDelete` operation. Learn more at
      *                                            {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/FindOneAndDeleteOptions.html this}.
      *
+     * **Note:** In soft-delete mode, the document is marked as deleted instead of being removed.
+     *
      * @returns {Promise<ModifyResult<Type> | Type | null>} A promise that resolves to the deleted document or `null` if no document is found.
      *
      * @example
@@ -833,48 +2310,136 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * const user = await UserModel.findOneAndDelete({ name: "John Doe" });
      */
     public async findOneAndDelete(
-        filter: Filter<Type>,
-        options: FindOneAndDeleteOptions & { includeResultMetadata: true }
+        filter: MGFilter<Type>,
+        options: MGFindOneAndDeleteOptions & { includeResultMetadata: true }
     ): Promise<ModifyResult<Type>>;
     public async findOneAndDelete(
-        filter: Filter<Type>,
-        options: FindOneAndDeleteOptions & { includeResultMetadata: false }
+        filter: MGFilter<Type>,
+        options: MGFindOneAndDeleteOptions & { includeResultMetadata: false }
     ): Promise<Type | null>;
-    public async findOneAndDelete(filter: Filter<Type>, options: FindOneAndDeleteOptions): Promise<Type | null>;
-    public async findOneAndDelete(filter: Filter<Type>): Promise<Type | null>;
+    public async findOneAndDelete(filter: MGFilter<Type>, options: MGFindOneAndDeleteOptions): Promise<Type | null>;
+    public async findOneAndDelete(filter: MGFilter<Type>): Promise<Type | null>;
     public async findOneAndDelete(
-        filter: Filter<Type>,
-        options?: FindOneAndDeleteOptions
+        filter: MGFilter<Type>,
+        options?: MGFindOneAndDeleteOptions
     ): Promise<ModifyResult<Type> | Type | null> {
-        let res;
-        if (options) {
-            if (options.includeResultMetadata)
-                return this.collection.findOneAndDelete(
-                    filter as Filter<Type>,
-                    options as FindOneAndDeleteOptions & { includeResultMetadata: true }
-                );
+        const ctx = await this.runPreHooks("findOneAndDelete", {
+            filter: this.parseFilter(filter),
+            options: this.withSession(options),
+        });
 
-            res = this.collection.findOneAndDelete(filter as Filter<Type>, options);
-        } else res = this.collection.findOneAndDelete(filter as Filter<Type>);
+        const { options: deleteOptions, hiddenFields } = this.hideProjection(
+            ctx.options as MGFindOneAndDeleteOptions | undefined
+        );
+        const res = await this.readResult(
+            (this._softDelete
+                ? await this.collection.findOneAndUpdate(
+                      this.scopeFilter(ctx.filter, "exclude"),
+                      this.softDeleteUpdate(),
+                      deleteOptions as FindOneAndUpdateOptions
+                  )
+                : await this.collection.findOneAndDelete(ctx.filter, deleteOptions)) as
+                | ModifyResult<Type>
+                | Type
+                | null,
+            deleteOptions,
+            hiddenFields
+        );
 
-        return res.then((doc) => doc as Type | null);
+        await this.runPostHooks(ctx, res);
+        return res;
     }
 
     private async _find(
         method: "find" | "findOne",
-        filter: Filter<Type> = {},
-        options?: FindOptions
+        filter: MGFilter<Type> = {},
+        { populate, projection, ...findOptions }: MGFindOptions<Type, string, MGProjection<Type>> = {}
     ): Promise<Type[] | Type | null> {
         const isCheckOnGet = this.checkOnGet;
+        if (projection)
+            (findOptions as FindOptions).projection = Object.fromEntries(
+                Object.entries(projection).map(([path, value]) => [toMongoPath(path), value])
+            );
+
+        const ctx = await this.runPreHooks(method, {
+            filter: this.scopeFilter(this.parseFilter(filter)),
+            options: this.withSession(findOptions),
+        });
+        const { options, hiddenFields } = this.hideProjection(
+            ctx.options as (FindOptions & IncludeHiddenOption) | undefined
+        );
+        const read = async (docs: Type[]) =>
+            (
+                await this.upgradeDocuments(
+                    docs.map((doc) => this.decryptFields(doc)),
+                    !!options.projection
+                )
+            ).map((doc) => this.hideFields(doc, hiddenFields) as Type);
 
+        // Projected documents are validated against a partial schema, without the fields left out by the projection
+        // or hidden
+        const partialFields = getHiddenExcludedPaths(this.schema, options.projection, hiddenFields);
+        const parseOptions = { isStrict: false, partialFields: partialFields as ObjectKeyPaths<Type>[] } as const;
+
+        let res: Type[] | Type | null;
         if (method === "find") {
-            const docs = await this.collection.find(filter as Filter<Type>, options).toArray();
-            return (
-                isCheckOnGet ? await Promise.all(docs.map((doc) => this.parse(doc, { isStrict: false }))) : docs
-            ) as Type[];
+            const docs = await read(await this.collection.find<Type>(ctx.filter, options).toArray());
+            res = (isCheckOnGet ? await Promise.all(docs.map((doc) => this.parse(doc, parseOptions))) : docs) as Type[];
         } else {
-            const doc = await this.collection.findOne<Type>(filter as Filter<Type>, options);
-            return isCheckOnGet && doc ? await this.parse(doc, { isStrict: false }) : doc;
+            const found = await this.collection.findOne<Type>(ctx.filter, options);
+            const doc = found && (await read([found]))[0];
+            res = (isCheckOnGet && doc ? await this.parse(doc, parseOptions) : doc) as Type | null;
+        }
+
+        await this.runPostHooks(ctx, res);
+        if (res && populate?.length) await this.populate(Array.isArray(res) ? res : [res], populate);
+
+        return res;
+    }
+
+    /**
+     * Replaces the references at the specified paths of the documents with the referenced documents, in place.
+     * The referenced documents are fetched with a single batched `$in` query per path.
+     * References without a matching document are replaced with `null`.
+     *
+     * @throws {InvalidRefPathError} If a path is not a reference created with `ZodRef`.
+     */
+    private async populate(docs: Type[], paths: string[]): Promise<void> {
+        // The objects and arrays holding the references
+        type Holder = Record<string | number, unknown> | unknown[];
+
+        for (const path of paths) {
+            const target = getRefTarget(this._schema, path);
+            if (!target) throw new InvalidRefPathError(path, this._name);
+
+            const refs: [holder: Holder, key: string | number, id: ObjectId][] = [];
+            const collect = (holder: Holder, key: string | number, keys: string[]): void => {
+                const value = Array.isArray(holder) ? holder[Number(key)] : holder[key];
+                if (value == null) return;
+
+                if (Array.isArray(value)) {
+                    const [head, ...rest] = keys;
+                    if (head === DEFAULT_ARRAY_PLACEHOLDER) value.forEach((_, idx) => collect(value, idx, rest));
+                    else if (head !== undefined && !isNaN(Number(head))) collect(value, Number(head), rest);
+                    else value.forEach((_, idx) => collect(value, idx, keys));
+                } else if (keys.length > 0) {
+                    if (typeof value === "object") collect(value as Holder, keys[0], keys.slice(1));
+                } else if (value instanceof ObjectId) refs.push([holder, key, value]);
+            };
+
+            const [head, ...rest] = path.split(".");
+            for (const doc of docs) collect(doc as Holder, head, rest);
+            if (refs.length === 0) continue;
+
+            const ids = [...new Map(refs.map(([, , id]) => [id.toHexString(), id])).values()];
+            const found = await target.find({ _id: { $in: ids } });
+            const byId = new Map(found.map((doc) => [String(doc._id), doc]));
+
+            for (const [holder, key, id] of refs) {
+                const populated = byId.get(id.toHexString()) ?? null;
+                if (Array.isArray(holder)) holder[Number(key)] = populated;
+                else holder[key] = populated;
+            }
         }
     }
 
@@ -919,33 +2484,49 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
         data: InsertType<SchemaType> | InsertType<SchemaType>[],
         options?: InsertOneOptions | BulkWriteOptions
     ): Promise<Type | Type[]> {
+        options = this.withSession(options);
+
         if (Array.isArray(data)) {
-            const insertData = await Promise.all(
+            const parsedData = await Promise.all(
                 data.map(async (doc) =>
-                    removeUndefinedFields((await this.parse(doc as Record<string | number, unknown>)) as Type)
+                    this.stampDocument(
+                        removeUndefinedFields((await this.parse(doc as Record<string | number, unknown>)) as Type),
+                        true
+                    )
                 )
             );
 
+            const ctx = await this.runPreHooks("insertMany", { data: parsedData, options });
+            const insertData = ctx.data;
+
             const result = await this.collection.insertMany(
-                insertData as OptionalUnlessRequiredId<Type>[],
-                options as BulkWriteOptions
+                insertData.map((doc) => this.encryptFields(doc)) as OptionalUnlessRequiredId<Type>[],
+                ctx.options as BulkWriteOptions
             );
 
             insertData.forEach((data, index) => {
                 data._id = result.insertedIds[index];
             });
 
+            await this.runPostHooks(ctx, insertData);
             return insertData;
         } else {
-            const insertData = removeUndefinedFields(
-                await this.parse(data as Record<string | number, unknown>)
-            ) as Type;
+            const parsedData = this.stampDocument(
+                removeUndefinedFields(await this.parse(data as Record<string | number, unknown>)) as Type,
+                true
+            );
+
+            const ctx = await this.runPreHooks("insertOne", { data: parsedData, options });
+            const insertData = ctx.data;
+
             const result = await this.collection.insertOne(
-                insertData as OptionalUnlessRequiredId<Type>,
-                options as InsertOneOptions
+                this.encryptFields(insertData) as OptionalUnlessRequiredId<Type>,
+                ctx.options as InsertOneOptions
             );
 
             insertData._id = result.insertedId;
+
+            await this.runPostHooks(ctx, insertData);
             return insertData;
         }
     }
@@ -955,8 +2536,9 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      *
      * **Note:** By default, this operation uses the `$set` operator. If you assign `undefined` to a field,
      * it will be removed from the document (using the `unset` operator) rather than being set to `null` (as MongoDB's default behavior).
+     * Update operators (e.g. `$inc`, `$push`) can be used alongside the fields, and their operands are validated against the schema.
      *
-     * @param {Filter<Type>} filter - The filter criteria to locate the document to update.
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the document to update.
      * @param {UpdateType<Type>} update - The update operations to be applied to the document.
      * @param {UpdateOptions} options - Optional settings for the update operation. Learn more at
      *                                  {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/UpdateOptions.html this}.
@@ -968,7 +2550,7 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * const result = await UserModel.updateOne({ name: "John Doe" }, { age: 31 });
      */
     public async updateOne(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         update: UpdateType<Type>,
         options?: UpdateOptions
     ): Promise<UpdateResult> {
@@ -980,8 +2562,9 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      *
      * **Note:** By default, this operation uses the `$set` operator. If you assign `undefined` to a field,
      * it will be removed from the document (using the `unset` operator) rather than being set to `null` (as MongoDB's default behavior).
+     * Update operators (e.g. `$inc`, `$push`) can be used alongside the fields, and their operands are validated against the schema.
      *
-     * @param {Filter<Type>} filter - The filter criteria to locate the documents to update.
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the documents to update.
      * @param {UpdateType<Type>} update - The update operations to be applied to the documents.
      * @param {UpdateOptions} options - Optional settings for the update operation. Learn more at
      *                                  {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/UpdateOptions.html this}.
@@ -993,7 +2576,7 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * const result = await UserModel.updateMany({ age: { $lt: 30 } }, { age: 30 });
      */
     public async updateMany(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         update: UpdateType<Type>,
         options?: UpdateOptions
     ): Promise<UpdateResult> {
@@ -1002,26 +2585,159 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
 
     private async _update(
         method: "updateOne" | "updateMany",
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         update: UpdateType<Type>,
         options?: UpdateOptions
     ): Promise<UpdateResult> {
-        if (update.hasOwnProperty("_id")) throw new IdFieldNotAllowedError();
-        const updateData = await this.parse(update, { isPartial: true });
-
-        const { set, unset } = processUndefinedFieldsForUpdate(updateData);
-        return this.collection[method](
-            filter as Filter<Type>,
-            { $set: set as Partial<Type>, $unset: unset } as UpdateFilter<Type>,
-            options
+        const { data, operators } = await this.parseUpdate(update);
+        const ctx = await this.runPreHooks(method, {
+            filter: this.scopeFilter(this.parseFilter(filter)),
+            data,
+            operators,
+            options: this.withSession(options),
+        });
+
+        const version = this.applyExpectedVersion(ctx.filter, ctx.data as Record<string | number, unknown>);
+        const { set, unset } = processUndefinedFieldsForUpdate(ctx.data);
+        const updateFilter = { ...ctx.operators, $set: set as Partial<Type>, $unset: unset } as UpdateFilter<Type>;
+
+        const upsertError = ctx.options?.upsert
+            ? await this.prepareUpsert(version.filter, ctx.data, ctx.operators, updateFilter)
+            : undefined;
+        const updateOptions = (upsertError ? { ...ctx.options, upsert: false } : ctx.options) as
+            | UpdateOptions
+            | undefined;
+
+        const res = await this.collection[method](
+            version.filter,
+            this.encryptUpdate(this.stampUpdate(updateFilter, updateOptions?.upsert)),
+            updateOptions
         );
+        if (upsertError && res.matchedCount === 0) throw upsertError;
+        if (version.expected !== undefined && res.matchedCount === 0)
+            await this.assertVersion(ctx.filter, version.expected, updateOptions?.session);
+
+        await this.runPostHooks(ctx, res);
+        return res;
+    }
+
+    /**
+     * Prepares the update of an upsert. The document that would be created (the filter equality fields merged with
+     * the update fields) is validated against the full schema, and the default values of the fields left untouched
+     * by the filter and the update (including the generated `_id`) are added to the update with `$setOnInsert`.
+     *
+     * Fields targeted by update operators are created by the operators, so they are not required.
+     *
+     * @returns {Promise<ValidateError | undefined>} The validation error of the document that would be created, if invalid.
+     *                                               The update should then run without `upsert`, and the error be thrown
+     *                                               if no document matches.
+     */
+    private async prepareUpsert(
+        filter: Filter<Type>,
+        data: DeepPartial<Type>,
+        operators: UpdateOperators<Type>,
+        update: UpdateFilter<Type>
+    ): Promise<ValidateError | undefined> {
+        const { equality, unseeded } = this.getUpsertEqualityFields(filter);
+        const operatorPaths = [
+            ...Object.values(operators).flatMap((fields) => Object.keys(fields ?? {})),
+            ...(Object.values(operators.$rename ?? {}) as string[]),
+        ];
+        const partialFields = operatorPaths.map((path) =>
+            path
+                .split(".")
+                .map((key) => (/^(\d+|\$.*)$/.test(key) ? DEFAULT_ARRAY_PLACEHOLDER : key))
+                .join(".")
+        ) as ObjectKeyPaths<Type>[];
+
+        try {
+            const doc = await this.parse(buildUpsertDocument(equality, data), { partialFields });
+            const touched = [
+                ...Object.keys(equality).filter((path) => !unseeded.includes(path)),
+                ...Object.keys(data),
+                ...operatorPaths,
+            ];
+
+            const fields = getInsertOnlyFields(removeUndefinedFields(doc), touched);
+            if (Object.keys(fields).length > 0)
+                update.$setOnInsert = { ...update.$setOnInsert, ...fields } as UpdateFilter<Type>["$setOnInsert"];
+        } catch (err) {
+            if (err instanceof ValidateError) return err;
+            throw err;
+        }
+    }
+
+    /**
+     * Extracts the equality fields of an upsert filter, decrypted.
+     * Deterministic encrypted fields matched with every key of the provider (as rewritten by `parseFilter()`) are
+     * included with their original value, but MongoDB does not copy them into the inserted document, as they are
+     * matched with `$in`: their paths are returned as `unseeded`, to be set on insert.
+     */
+    private getUpsertEqualityFields(filter: Filter<Type>): { equality: Record<string, unknown>; unseeded: string[] } {
+        const equality = this.decryptFields(getFilterEqualityFields(filter));
+        const unseeded: string[] = [];
+        if (!this._encryption?.deterministic.length) return { equality, unseeded };
+
+        const { provider, deterministic } = this._encryption;
+        const conditions = [filter, ...(Array.isArray(filter.$and) ? filter.$and : [])] as BSON.Document[];
+        for (const condition of conditions)
+            for (const path of deterministic) {
+                const values = condition[path]?.$in;
+                const isRewritten =
+                    Object.keys(condition[path] ?? {}).length === 1 &&
+                    Array.isArray(values) &&
+                    values.length === provider.keyIds.length &&
+                    values.every(
+                        (value, index) =>
+                            isEncryptedValue(value) && getEncryptionInfo(value).keyId === provider.keyIds[index]
+                    );
+                if (!isRewritten || path in equality) continue;
+
+                equality[path] = decryptValue(values[0], provider);
+                unseeded.push(path);
+            }
+
+        return { equality, unseeded };
+    }
+
+    /**
+     * Splits the update into the fields to set (including dot-notation and positional key paths) and the update operators,
+     * and validates them against the schema.
+     *
+     * @throws {IdFieldNotAllowedError} If the update targets the `_id` field.
+     * @throws {ValidateError} If the fields or the operands of the update operators fail the schema validation.
+     */
+    private async parseUpdate(
+        update: Record<string | number, unknown>
+    ): Promise<{ data: DeepPartial<Type>; operators: UpdateOperators<Type> }> {
+        const { data, paths, operators } = splitUpdate(update);
+
+        const targets = [
+            ...Object.keys(data),
+            ...Object.keys(paths),
+            ...Object.values(operators).flatMap((fields) => Object.keys(fields ?? {})),
+            ...Object.values(operators.$rename ?? {}),
+        ];
+        if (targets.some((path) => path === "_id" || String(path).startsWith("_id.")))
+            throw new IdFieldNotAllowedError();
+
+        const parsedPaths = await parseUpdatePaths(this.schema, paths);
+        const parsedOperators = await parseUpdateOperators(this.schema, operators);
+
+        const issues = [...parsedPaths.issues, ...parsedOperators.issues];
+        if (issues.length > 0) throw new ValidateError(this.name, issues);
+
+        return {
+            data: { ...(await this.parse(data, { isPartial: true })), ...parsedPaths.paths } as DeepPartial<Type>,
+            operators: parsedOperators.operators as UpdateOperators<Type>,
+        };
     }
 
     /**
      * Replaces a single document in the collection that matches the given filter criteria.
      * The entire document is replaced with the provided replacement document.
      *
-     * @param {Filter<Type>} filter - The filter criteria to locate the document to replace.
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the document to replace.
      * @param {ReplaceType<SchemaType>} replacement - The replacement document that will replace the existing document.
      * @param {ReplaceOptions} options - Optional settings for the replace operation. Learn more at
      *                                   {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/ReplaceOptions.html this}.
@@ -1033,24 +2749,51 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * const result = await UserModel.replaceOne({ name: "John Doe" }, { name: "John Doe", age: 31 });
      */
     public async replaceOne(
-        filter: Filter<Type>,
+        filter: MGFilter<Type>,
         replacement: ReplaceType<SchemaType>,
         options?: ReplaceOptions
     ): Promise<UpdateResult> {
         if (replacement.hasOwnProperty("_id")) throw new IdFieldNotAllowedError();
-        const replaceData = removeUndefinedFields(
-            await this.parse(replacement as Record<string | number, unknown>, {
-                partialFields: ["_id"] as ObjectKeyPaths<Type>[],
-            })
-        ) as OmitId<Type>;
+        const replaceData = this.stampDocument(
+            removeUndefinedFields(
+                await this.parse(replacement as Record<string | number, unknown>, {
+                    partialFields: ["_id"] as ObjectKeyPaths<Type>[],
+                })
+            ) as OmitId<Type>,
+            false
+        );
 
-        return this.collection.replaceOne(filter as Filter<Type>, replaceData, options) as Promise<UpdateResult>;
+        const ctx = await this.runPreHooks("replaceOne", {
+            filter: this.scopeFilter(this.parseFilter(filter)),
+            data: replaceData,
+            options: this.withSession(options),
+        });
+
+        const replaceOptions = ctx.options as ReplaceOptions | undefined;
+        const data = ctx.data as Record<string | number, unknown>;
+        const current = await this.findReplaced(ctx.filter, data, replaceOptions);
+        this.applyReplaceCreatedAt(data, current);
+        const version = this.applyReplaceVersion(ctx.filter, data, current);
+
+        const res = (await this.collection.replaceOne(
+            version.filter,
+            this.encryptFields(ctx.data),
+            replaceOptions
+        )) as UpdateResult;
+        if (version.expected !== undefined && res.matchedCount === 0)
+            await this.assertVersion(ctx.filter, version.expected, replaceOptions?.session);
+
+        await this.runPostHooks(ctx, res);
+        return res;
     }
 
     /**
      * Deletes a single document in the collection that matches the given filter criteria.
      *
-     * @param {Filter<Type>} filter - The filter criteria to locate the document to delete.
+     * **Note:** In soft-delete mode, the document is marked as deleted instead of being removed.
+     * Use `forceDelete()` to remove documents permanently.
+     *
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the document to delete.
      * @param {DeleteOptions} options - Optional settings for the delete operation. Learn more at
      *                                  {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/DeleteOptions.html this}.
      *
@@ -1060,14 +2803,17 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * // Delete a user document from the collection.
      * const result = await UserModel.deleteOne({ name: "John Doe" });
      */
-    public async deleteOne(filter: Filter<Type>, options?: DeleteOptions): Promise<DeleteResult> {
+    public async deleteOne(filter: MGFilter<Type>, options?: DeleteOptions): Promise<DeleteResult> {
         return this._delete("deleteOne", filter, options);
     }
 
     /**
      * Deletes multiple documents in the collection that match the given filter criteria.
      *
-     * @param {Filter<Type>} filter - The filter criteria to locate the documents to delete.
+     * **Note:** In soft-delete mode, the documents are marked as deleted instead of being removed.
+     * Use `forceDelete()` to remove documents permanently.
+     *
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the documents to delete.
      * @param {DeleteOptions} options - Optional settings for the delete operation. Learn more at
      *                                  {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/DeleteOptions.html this}.
      *
@@ -1077,15 +2823,165 @@ export class Model<Type extends WithId<Record<string | number, unknown>>, Schema
      * // Delete multiple user documents from the collection.
      * const result = await UserModel.deleteMany({ age: { $lt: 30 } });
      */
-    public async deleteMany(filter: Filter<Type>, options?: DeleteOptions): Promise<DeleteResult> {
+    public async deleteMany(filter: MGFilter<Type>, options?: DeleteOptions): Promise<DeleteResult> {
         return this._delete("deleteMany", filter, options);
     }
 
+    /**
+     * Permanently deletes the documents that match the given filter criteria, bypassing soft-delete mode.
+     * Soft-deleted documents are matched as well.
+     *
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the documents to delete.
+     * @param {DeleteOptions} options - Optional settings for the delete operation. Learn more at
+     *                                  {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/DeleteOptions.html this}.
+     *
+     * @returns {Promise<DeleteResult>} A promise that resolves to the result of the delete operation.
+     *
+     * @example
+     * // Permanently delete all soft-deleted users.
+     * const result = await UserModel.forceDelete({ deletedAt: { $ne: null } });
+     */
+    public async forceDelete(filter: MGFilter<Type>, options?: DeleteOptions): Promise<DeleteResult> {
+        return this._delete("deleteMany", filter, options, true);
+    }
+
+    /**
+     * Restores the soft-deleted documents that match the given filter criteria by removing their deletion marker.
+     * The `updateMany` hooks are run, with the marker set to `undefined` in the update data, and the `updatedAt`
+     * timestamp and the version of the documents are updated.
+     *
+     * @param {MGFilter<Type>} filter - The filter criteria to locate the documents to restore.
+     * @param {UpdateOptions} options - Optional settings for the update operation. Learn more at
+     *                                  {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/UpdateOptions.html this}.
+     *
+     * @returns {Promise<UpdateResult>} A promise that resolves to the result of the update operation.
+     *
+     * @example
+     * // Restore a soft-deleted user.
+     * const result = await UserModel.restore({ name: "John Doe" });
+     */
+    public async restore(filter: MGFilter<Type>, options?: UpdateOptions): Promise<UpdateResult> {
+        if (!this._softDelete)
+            return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 0, upsertedId: null };
+
+        const ctx = await this.runPreHooks("updateMany", {
+            filter: this.scopeFilter(this.parseFilter(filter), "only"),
+            data: { [this._softDelete]: undefined } as DeepPartial<Type>,
+            operators: {},
+            options: this.withSession(options),
+        });
+
+        const { set, unset } = processUndefinedFieldsForUpdate(ctx.data);
+        const updateFilter = { ...ctx.operators, $set: set as Partial<Type>, $unset: unset } as UpdateFilter<Type>;
+
+        const res = await this.collection.updateMany(
+            ctx.filter,
+            this.encryptUpdate(this.stampUpdate(updateFilter)),
+            ctx.options as UpdateOptions | undefined
+        );
+
+        await this.runPostHooks(ctx, res);
+        return res;
+    }
+
+    /**
+     * Re-encrypts the encrypted fields of the documents with the current key of the key provider, after a key rotation.
+     * Values encrypted with the current key are left untouched, and each value keeps its mode (deterministic or not).
+     * Documents are updated in batches, only if their encrypted values did not change in the meantime.
+     *
+     * **Note:** Hooks, timestamps and versions are not applied, and soft-deleted documents are re-encrypted too.
+     *
+     * @param {MGFilter<Type>} filter - Optional filter criteria of the documents to re-encrypt.
+     * @param {{ batchSize?: number; session?: ClientSession }} options - The number of documents read and written
+     *                                                                   per batch (default: 500), and the session.
+     *
+     * @returns {Promise<number>} A promise that resolves to the number of re-encrypted documents.
+     *
+     * @example
+     * // Re-encrypt the users with the new current key, then remove the previous key from the provider.
+     * const count = await UserModel.rotateEncryptionKey();
+     */
+    public async rotateEncryptionKey(
+        filter: MGFilter<Type> = {},
+        options: { batchSize?: number; session?: ClientSession } = {}
+    ): Promise<number> {
+        if (!this._encryption) return 0;
+
+        const { provider } = this._encryption;
+        const { batchSize = 500, session } = this.withSession(options) ?? {};
+        const fields = [...new Set(this._encryption.fields.map((path) => path.split(".")[0]))];
+        const cursor = this.collection.find(this.parseFilter(filter), {
+            projection: Object.fromEntries(fields.map((field) => [field, 1])),
+            batchSize,
+            session,
+        });
+
+        let count = 0;
+        let writes: AnyBulkWriteOperation<Type>[] = [];
+        const flush = async () => {
+            if (writes.length > 0) count += (await this.collection.bulkWrite(writes, { session })).modifiedCount;
+            writes = [];
+        };
+
+        for await (const doc of cursor) {
+            const current: BSON.Document = {};
+            const rotated: BSON.Document = {};
+
+            for (const field of fields) {
+                const value = mapEncryptedValues(doc[field], (encrypted) => {
+                    const { keyId, deterministic } = getEncryptionInfo(encrypted);
+                    if (keyId === provider.currentKeyId) return encrypted;
+
+                    return encryptValue(decryptValue(encrypted, provider), provider, deterministic);
+                });
+                if (value === doc[field]) continue;
+
+                current[field] = doc[field];
+                rotated[field] = value;
+            }
+            if (Object.keys(rotated).length === 0) continue;
+
+            writes.push({
+                updateOne: {
+                    filter: { _id: doc._id, ...current } as Filter<Type>,
+                    update: { $set: rotated } as UpdateFilter<Type>,
+                },
+            });
+            if (writes.length >= batchSize) await flush();
+        }
+
+        await flush();
+        return count;
+    }
+
     private async _delete(
         method: "deleteOne" | "deleteMany",
-        filter: Filter<Type>,
-        options?: DeleteOptions
+        filter: MGFilter<Type>,
+        options?: DeleteOptions,
+        force: boolean = false
     ): Promise<DeleteResult> {
-        return this.collection[method](filter as Filter<Type>, options);
+        const ctx = await this.runPreHooks(method, {
+            filter: this.parseFilter(filter),
+            options: this.withSession(options),
+        });
+
+        let res: DeleteResult;
+        if (this._softDelete && !force) {
+            const method = ctx.operation === "deleteOne" ? "updateOne" : "updateMany";
+            const { acknowledged, modifiedCount } = await this.collection[method](
+                this.scopeFilter(ctx.filter, "exclude"),
+                this.softDeleteUpdate(),
+                ctx.options as UpdateOptions | undefined
+            );
+            res = { acknowledged, deletedCount: modifiedCount };
+        } else res = await this.collection[method](ctx.filter, ctx.options as DeleteOptions | undefined);
+
+        await this.runPostHooks(ctx, res);
+        return res;
+    }
+
+    /** The update marking documents as soft-deleted, stamped like other updates. */
+    private softDeleteUpdate(): UpdateFilter<Type> {
+        return this.stampUpdate({ $set: { [this._softDelete as string]: new Date() } } as UpdateFilter<Type>);
     }
 }
@@ -1,14 +1,39 @@
 import { z } from "zod";
 import { Model } from "./model.js";
+import { HookRegistry } from "./hooks.js";
 import { MongoClient } from "mongodb";
+import { AsyncLocalStorage } from "node:async_hooks";
 
 import DBNotSetError from "./errors/dbNotSet.js";
+import ModelExistedError from "./errors/modelExisted.js";
 
-import type { ValidSchemaType } from "./types.js";
+import type {
+    PreHook,
+    PostHook,
+    ModelMethods,
+    ModelStatics,
+    HookOperation,
+    ManagedFields,
+    ValidSchemaType,
+    SyncIndexesResult,
+    SyncIndexesOptions,
+    ManagedFieldOptions,
+    DiscriminatedUnionSchema,
+} from "./types.js";
 import type { ZodObject, ZodRawShape } from "zod";
 import type { TypeOf, GetPaths } from "./model.js";
 import type { ModelOptions } from "./options/modelOptions.js";
-import type { BSON, Collection, CreateCollectionOptions, Db, DbOptions, MongoClientOptions, WithId } from "mongodb";
+import type {
+    Db,
+    BSON,
+    WithId,
+    DbOptions,
+    Collection,
+    ClientSession,
+    MongoClientOptions,
+    TransactionOptions,
+    CreateCollectionOptions,
+} from "mongodb";
 
 // type infer, paths inspired by Zod
 namespace Mongooat {
@@ -67,6 +92,9 @@ class Mongooat {
 
     private _currDb?: Db;
     private _base: MongoClient;
+    private _models: Map<string, Model<any, any>> = new Map();
+    private _sessionStorage: AsyncLocalStorage<ClientSession> = new AsyncLocalStorage();
+    private _hooks: HookRegistry<any> = new HookRegistry();
 
     constructor(url: string, options?: MongoClientOptions) {
         this._url = url;
@@ -84,6 +112,21 @@ class Mongooat {
         return this._base;
     }
 
+    /**
+     * Get the current database.
+     *
+     * @throws {DBNotSetError} If the database is not set.
+     */
+    public getDb(): Db {
+        if (!this._currDb) throw new DBNotSetError();
+        return this._currDb;
+    }
+
+    /** Get the session of the transaction running in the current async context, if any. */
+    public get session(): ClientSession | undefined {
+        return this._sessionStorage.getStore();
+    }
+
     /** Get the names of all databases on the MongoDB server. */
     public async getDbNames(): Promise<string[]> {
         return this._base
@@ -130,26 +173,200 @@ class Mongooat {
     }
 
     /**
-     * Creates and returns a new Model instance with the specified name, schema, and options.
+     * Runs the provided callback inside a transaction. Every `Model` operation called within the callback
+     * automatically joins the transaction's session, unless a `session` is explicitly passed in its options.
+     *
+     * The transaction is committed when the callback resolves and aborted when it rejects.
+     * Transient transaction errors and unknown commit results are retried.
+     *
+     * **Note:**
+     * - Transactions require a replica set or a sharded cluster.
+     * - Calling `transaction()` inside a running transaction reuses the outer transaction.
+     * - The callback may be called more than once, so it should not have side effects outside the database.
+     *
+     * @param {(session: ClientSession) => Promise<T>} fn - The callback to run inside the transaction.
+     * @param {TransactionOptions} options - Optional settings for the transaction. Learn more at
+     *                                       {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/TransactionOptions.html this}.
+     *
+     * @returns {Promise<T>} A promise that resolves to the value returned by the callback.
+     *
+     * @example
+     * await mongooat.transaction(async () => {
+     *     const user = await UserModel.insertOne({ name: "John Doe" });
+     *     await AccountModel.insertOne({ userId: user._id, balance: 0 });
+     * });
+     */
+    public async transaction<T>(fn: (session: ClientSession) => Promise<T>, options?: TransactionOptions): Promise<T> {
+        const current = this.session;
+        if (current?.inTransaction()) return fn(current);
+
+        const session = this._base.startSession();
+        try {
+            return await session.withTransaction(
+                (session) => this._sessionStorage.run(session, () => fn(session)),
+                options
+            );
+        } finally {
+            await session.endSession();
+        }
+    }
+
+    /** Get the global hooks, running for every model before the model's own hooks. */
+    public get hooks(): HookRegistry<any> {
+        return this._hooks;
+    }
+
+    /**
+     * Registers a global hook running before the specified operation(s) of every model.
+     * See `Model.pre()` for more details.
+     *
+     * @example
+     * mongooat.pre("deleteMany", (ctx) => Object.keys(ctx.filter).length > 0);
+     */
+    public pre<Op extends HookOperation>(operations: Op | Op[], hook: PreHook<any, Op>): this {
+        this._hooks.pre(operations, hook);
+        return this;
+    }
+
+    /**
+     * Registers a global hook running after the specified operation(s) of every model.
+     * See `Model.post()` for more details.
+     *
+     * @example
+     * mongooat.post(["insertOne", "insertMany"], (ctx) => console.log(`${ctx.model}: inserted`));
+     */
+    public post<Op extends HookOperation>(operations: Op | Op[], hook: PostHook<any, Op>): this {
+        this._hooks.post(operations, hook);
+        return this;
+    }
+
+    /** Get all registered models, keyed by model name. */
+    public get models(): ReadonlyMap<string, Model<any, any>> {
+        return this._models;
+    }
+
+    /**
+     * Get a registered model by its name.
+     *
+     * @param {string} name - The name of the model to retrieve.
+     *
+     * @returns {M | undefined} The registered model, or `undefined` if no model is registered with that name.
+     *
+     * @example
+     * const UserModel = mongooat.getModel("users");
+     */
+    public getModel<M extends Model<any, any> = Model<any, any>>(name: string): M | undefined {
+        return this._models.get(name) as M | undefined;
+    }
+
+    /** Check if a model with the specified name is registered. */
+    public hasModel(name: string): boolean {
+        return this._models.has(name);
+    }
+
+    /**
+     * Removes a model from the registry, allowing the name to be registered again.
+     *
+     * **Note:** This does not drop the underlying collection.
+     *
+     * @param {string} name - The name of the model to remove.
+     *
+     * @returns {boolean} `true` if the model was registered and has been removed, otherwise `false`.
+     */
+    public removeModel(name: string): boolean {
+        return this._models.delete(name);
+    }
+
+    /**
+     * Synchronizes the indexes of every registered model with their `indexes` option, one model after another.
+     * See `Model.syncIndexes()` for more details.
+     *
+     * @param {SyncIndexesOptions} options - Optional settings applied to every model.
+     *
+     * @returns {Promise<Record<string, SyncIndexesResult>>} A promise that resolves to the results, keyed by model name.
+     *
+     * @example
+     * const results = await mongooat.syncAllIndexes({ dryRun: true });
+     */
+    public async syncAllIndexes(options?: SyncIndexesOptions): Promise<Record<string, SyncIndexesResult>> {
+        const results: Record<string, SyncIndexesResult> = {};
+        for (const [name, model] of this._models) results[name] = await model.syncIndexes(options);
+
+        return results;
+    }
+
+    /**
+     * Creates, registers and returns a new Model instance with the specified name, schema, and options.
      *
      * **Note:**
      * - `_id` field must not be an `ZodArray`, `ZodTuple`, `ZodUndefined`, `ZodOptional` or `ZodUnknown`.
      * - If the `_id` field is invalid, the schema type resolves to `never`.
+     * - Model names are unique per `Mongooat` instance. Use `removeModel()` before registering a name again.
+     * - Fields managed by the model options (e.g. `timestamps`, `softDelete`) are added to the model type automatically.
+     * - The schema may be a `z.discriminatedUnion` of object schemas, for several kinds of documents sharing
+     *   the collection. Documents are validated with the option of their discriminator value, and the sub-model of
+     *   a value is returned by `discriminator()`.
      *
      * @param {string} name - The name of the model to create.
-     * @param {ZodObject<ST>} schema - A Zod schema object defining the structure and validation rules for the model's data.
-     * @param {ModelOptions<ST>} [options] - Optional configuration options for the model.
+     * @param {ZodObject<ST> | ZodDiscriminatedUnion} schema - A Zod schema object (or a discriminated union of them)
+     *                                                         defining the structure and validation rules for the model's data.
+     * @param {ModelOptions<MT, S, M>} [options] - Optional configuration options for the model, including custom
+     *                                            `statics` and document-level `methods`.
+     *
+     * @returns {Model<MT, ST, S, M> & S} - A new Model instance, extended with the custom static methods.
+     * @throws {ModelExistedError} If a model with the same name is already registered.
+     * @throws {MethodExistedError} If a custom method conflicts with a built-in or another custom method.
+     *
+     * @example
+     * const UserModel = mongooat.Model("users", schema, {
+     *     statics: {
+     *         findByEmail(email: string): Promise<User | null> {
+     *             return this.findOne({ email });
+     *         },
+     *     },
+     *     methods: {
+     *         fullName: (user) => `${user.firstName} ${user.lastName}`,
+     *     },
+     * });
      *
-     * @returns {Model<MT, ST>} - A new Model instance.
+     * const user = await UserModel.findByEmail("john@doe.com");
+     * if (user) UserModel.methods.fullName(user);
      */
-    public Model<MT extends WithId<z.infer<ZodObject<ST>>>, ST extends ZodRawShape>(
+    public Model<
+        MT extends WithId<z.infer<ZodObject<ST>>>,
+        ST extends ZodRawShape,
+        S extends ModelStatics = {},
+        M extends ModelMethods<MT> = {},
+        const O extends ManagedFieldOptions = {}
+    >(
         name: string,
         schema: z.ZodObject<ST> & ValidSchemaType<ST>,
-        options?: ModelOptions<MT>
-    ): Model<MT, ST> {
+        options?: ModelOptions<MT, S, M> & O
+    ): Model<MT & ManagedFields<O>, ST, S, M> & S;
+    public Model<
+        const K extends string,
+        Options extends z.ZodDiscriminatedUnionOption<K>[],
+        MT extends WithId<z.infer<z.ZodDiscriminatedUnion<K, Options>>>,
+        S extends ModelStatics = {},
+        M extends ModelMethods<MT> = {},
+        const O extends ManagedFieldOptions = {}
+    >(
+        name: string,
+        schema: z.ZodDiscriminatedUnion<K, Options>,
+        options?: ModelOptions<MT, S, M> & O
+    ): Model<MT & ManagedFields<O>, Options[number]["shape"], S, M, K> & S;
+    public Model(
+        name: string,
+        schema: ZodObject<ZodRawShape> | DiscriminatedUnionSchema,
+        options?: ModelOptions<any, any, any>
+    ): Model<any, any> {
         if (!this._currDb) throw new DBNotSetError();
+        if (this._models.has(name)) throw new ModelExistedError(name);
+
+        const model = new Model(name, schema, this._currDb, options, this);
+        this._models.set(name, model);
 
-        return new Model<MT, ST>(name, schema, this._currDb, options);
+        return model;
     }
 }
 
@@ -1,19 +1,121 @@
-import { ObjectKeyPaths } from "../types.js";
+import type { WithId } from "mongodb";
+import type { Model } from "../model.js";
+import type {
+    ModelMethods,
+    ModelStatics,
+    ObjectKeyPaths,
+    EncryptionOptions,
+    MGIndexDescription,
+    SoftDeleteOption,
+    TimestampsOption,
+    VersionKeyOption,
+    SchemaVersionOption,
+} from "../types.js";
 
 /** Represents the options for configuring a model. */
-export declare type ModelOptions<MT extends Record<string, unknown> = {}> = {
+export declare type ModelOptions<
+    MT extends Record<string, unknown> = {},
+    S extends ModelStatics = {},
+    M extends ModelMethods<MT> = {}
+> = {
     /** The name of the MongoDB collection associated with the model. */
     collectionName?: string;
 
     /** Specifies if validation should occur after retrieving data from the database (default: false). */
     checkOnGet?: boolean;
 
-    /** An array of field names that should be hidden from the output. */
+    /**
+     * An array of field names that should be hidden from the output. They are excluded with the projection of
+     * find operations and aggregations, unless the `includeHidden` option is set.
+     */
     hiddenFields?: ObjectKeyPaths<MT>[];
+
+    /**
+     * The indexes of the collection (default: none), e.g. `[{ key: { email: 1 }, unique: true }]`.
+     * They are created, changed or dropped with `syncIndexes()`, and their paths must exist in the schema.
+     */
+    indexes?: MGIndexDescription<MT>[];
+
+    /**
+     * Automatically manages `createdAt` and `updatedAt` date fields (default: false).
+     * Field names can be customized, e.g. `{ createdAt: "created_at", updatedAt: false }`.
+     */
+    timestamps?: TimestampsOption;
+
+    /**
+     * Enables soft-delete mode (default: false). Deleted documents are marked with a `deletedAt` date
+     * instead of being removed, and are excluded from queries, updates and replacements by default.
+     * The marker field name can be customized, e.g. `{ deletedAt: "removedAt" }`.
+     */
+    softDelete?: SoftDeleteOption;
+
+    /**
+     * Enables optimistic concurrency control (default: false). Every write increments a `__v` version field,
+     * and updates or replacements carrying the version they expect throw a `VersionConflictError` if it changed.
+     * The version field name can be customized, e.g. `versionKey: "version"`.
+     */
+    versionKey?: VersionKeyOption;
+
+    /**
+     * Enables per-document schema versioning (default: false). Written documents are stamped with the current version,
+     * and documents of previous versions are upgraded through the chain of `upgrades` when they are read, before
+     * being validated. With `writeBack`, the upgraded documents are persisted.
+     */
+    schemaVersion?: SchemaVersionOption | false;
+
+    /**
+     * Fields encrypted at rest with AES-256-GCM (default: none), e.g. `["ssn", "address.street"]`.
+     * Values are encrypted when written and decrypted when read, and require the `encryption` option.
+     */
+    encryptedFields?: ObjectKeyPaths<MT>[];
+
+    /**
+     * The encryption settings of the `encryptedFields`: the key provider (e.g. a `LocalKeyProvider`),
+     * and the fields to encrypt deterministically to support equality queries.
+     */
+    encryption?: EncryptionOptions<MT> | false;
+
+    /**
+     * The secret used to sign the cursor tokens of `paginateByCursor()`.
+     * If not set, a random secret is generated, so tokens are only valid within the current process.
+     */
+    paginationSecret?: string;
+
+    /**
+     * Rejects filters referencing paths that do not exist in the schema with an `InvalidFilterPathError` (default: false).
+     * Filter values are coerced with the schema either way (e.g. strings to `ObjectId` for `ZodObjectId` fields).
+     */
+    strictFilter?: boolean;
+
+    /**
+     * Custom static methods, accessible directly on the model (e.g. `UserModel.findByEmail(email)`).
+     * Inside a static method, `this` refers to the model.
+     */
+    statics?: S & ThisType<ModelThis<MT>>;
+
+    /**
+     * Custom document-level methods, receiving the parsed document as the first argument.
+     * Inside a method, `this` refers to the model. Only documents passed to `hydrate()` have the methods attached.
+     */
+    methods?: M & ModelMethods<MT> & ThisType<ModelThis<MT>>;
 };
 
+/** The `this` type of custom methods, resolving to the model itself. */
+type ModelThis<MT> = MT extends WithId<Record<string | number, unknown>> ? Model<MT, any> : Model<any, any>;
+
 export const DefaultModelOptions: Required<ModelOptions> = {
     collectionName: "",
     checkOnGet: false,
     hiddenFields: [],
+    indexes: [],
+    timestamps: false,
+    softDelete: false,
+    versionKey: false,
+    schemaVersion: false,
+    encryptedFields: [],
+    encryption: false,
+    paginationSecret: "",
+    strictFilter: false,
+    statics: {},
+    methods: {},
 };
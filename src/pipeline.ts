@@ -0,0 +1,225 @@
+import { toMongoPath } from "./helpers/toMongoPath.js";
+
+import ValidateError from "./errors/validateError.js";
+
+import type { z } from "zod";
+import type { Model, TypeOf } from "./model.js";
+import type {
+    ArrayKeys,
+    CheckRefs,
+    QuerySort,
+    GroupOutput,
+    UnwindOutput,
+    LookupOutput,
+    ObjectKeyPaths,
+    ProjectOutput,
+    AddFieldsOutput,
+    MGAggregateOptions,
+} from "./types.js";
+import type { BSON, Filter, WithId, AggregationCursor } from "mongodb";
+
+/** Extracts the output document type of a pipeline. */
+export type PipelineOutput<P extends Pipeline<any, any>> = P extends Pipeline<any, infer Out> ? Out : never;
+
+/**
+ * A fluent, type-safe aggregation pipeline builder, created with `Model.aggregate()`.
+ *
+ * The output document type evolves with every stage, and field references (e.g. `"$address.city"`)
+ * are checked against the paths of the documents entering the stage.
+ *
+ * @template Type - The type of the model's documents.
+ * @template Out - The type of the documents output by the last stage.
+ *
+ * @example
+ * const cities = await UserModel.aggregate()
+ *     .match({ age: { $gte: 18 } })
+ *     .group({ _id: "$address.city", count: { $sum: 1 }, names: { $push: "$name" } })
+ *     .sort({ count: -1 })
+ *     .exec();
+ * // { _id: string; count: number; names: string[] }[]
+ */
+export class Pipeline<Type extends WithId<Record<string | number, unknown>>, Out = Type> {
+    private _model: Model<Type, any>;
+    private _stages: BSON.Document[];
+
+    constructor(model: Model<Type, any>, stages: BSON.Document[] = []) {
+        this._model = model;
+        this._stages = stages;
+    }
+
+    /** A getter for the stages of the pipeline. */
+    public get stages(): BSON.Document[] {
+        return [...this._stages];
+    }
+
+    /** Filters the documents with a `$match` stage. */
+    public match(filter: Filter<Out>): Pipeline<Type, Out> {
+        return this.stage({ $match: filter });
+    }
+
+    /**
+     * Reshapes the documents with a `$project` stage.
+     * Fields can be included (`1`), excluded (`0`) or computed from expressions.
+     *
+     * @example
+     * UserModel.aggregate().project({ name: 1, city: "$address.city" });
+     * // { _id: ObjectId; name: string; city: string }
+     */
+    public project<const S extends Record<string, unknown>>(
+        spec: S & CheckRefs<Out, S>
+    ): Pipeline<Type, ProjectOutput<Out, S>> {
+        return this.stage({ $project: spec });
+    }
+
+    /**
+     * Groups the documents with a `$group` stage.
+     *
+     * @example
+     * UserModel.aggregate().group({ _id: "$address.city", total: { $sum: "$age" } });
+     * // { _id: string; total: number }
+     */
+    public group<const S extends { _id: unknown } & Record<string, unknown>>(
+        spec: S & CheckRefs<Out, S>
+    ): Pipeline<Type, GroupOutput<Out, S>> {
+        return this.stage({ $group: spec });
+    }
+
+    /**
+     * Deconstructs an array field with an `$unwind` stage, outputting a document for each element.
+     *
+     * @example
+     * UserModel.aggregate().unwind("$roles");
+     * // { ...; roles: string }
+     */
+    public unwind<K extends ArrayKeys<Out>>(
+        path: `$${K}` | { path: `$${K}`; includeArrayIndex?: string; preserveNullAndEmptyArrays?: boolean }
+    ): Pipeline<Type, UnwindOutput<Out, K>> {
+        return this.stage({ $unwind: path });
+    }
+
+    /**
+     * Joins the documents of another model with a `$lookup` stage.
+     * The joined documents are scoped like the queries of the model (soft-deleted documents and the documents of other
+     * discriminator values are left out), and their `hiddenFields` are excluded.
+     *
+     * **Note:** The `encryptedFields` of the joined documents are not decrypted.
+     *
+     * @example
+     * UserModel.aggregate().lookup({ from: OrgModel, localField: "orgId", foreignField: "_id", as: "orgs" });
+     * // { ...; orgs: Org[] }
+     */
+    public lookup<M extends Model<any, any>, const As extends string>(options: {
+        from: M;
+        localField: FieldPath<Out>;
+        foreignField: ObjectKeyPaths<TypeOf<M>>;
+        as: As;
+    }): Pipeline<Type, LookupOutput<Out, As, TypeOf<M>>> {
+        const match = { $expr: { $eq: [`$${toMongoPath(options.foreignField)}`, "$$localField"] } };
+        return this.stage({
+            $lookup: {
+                from: options.from.collection.collectionName,
+                let: { localField: `$${toMongoPath(options.localField)}` },
+                pipeline: [{ $match: match }, ...options.from.lookupStages()],
+                as: options.as,
+            },
+        });
+    }
+
+    /** Sorts the documents with a `$sort` stage. */
+    public sort(sort: QuerySort<Out & Record<string | number, unknown>>): Pipeline<Type, Out> {
+        const spec = Object.entries(sort).map(([path, direction]) => [toMongoPath(path), direction]);
+        return this.stage({ $sort: Object.fromEntries(spec) });
+    }
+
+    /** Skips the specified number of documents with a `$skip` stage. */
+    public skip(skip: number): Pipeline<Type, Out> {
+        return this.stage({ $skip: skip });
+    }
+
+    /** Limits the number of documents with a `$limit` stage. */
+    public limit(limit: number): Pipeline<Type, Out> {
+        return this.stage({ $limit: limit });
+    }
+
+    /**
+     * Adds (or replaces) fields computed from expressions with an `$addFields` stage.
+     *
+     * @example
+     * UserModel.aggregate().addFields({ city: "$address.city" });
+     * // { ...; city: string }
+     */
+    public addFields<const S extends Record<string, unknown>>(
+        spec: S & CheckRefs<Out, S>
+    ): Pipeline<Type, AddFieldsOutput<Out, S>> {
+        return this.stage({ $addFields: spec });
+    }
+
+    /**
+     * Runs multiple sub-pipelines on the same documents with a `$facet` stage.
+     * Each sub-pipeline is built from the current output documents.
+     *
+     * @example
+     * UserModel.aggregate().facet({
+     *     adults: (p) => p.match({ age: { $gte: 18 } }).count("total"),
+     *     names: (p) => p.project({ name: 1 }),
+     * });
+     * // { adults: { total: number }[]; names: { _id: ObjectId; name: string }[] }
+     */
+    public facet<F extends Record<string, (pipeline: Pipeline<Type, Out>) => Pipeline<Type, any>>>(
+        facets: F
+    ): Pipeline<Type, { -readonly [K in keyof F]: PipelineOutput<ReturnType<F[K]>>[] }> {
+        const spec = Object.entries(facets).map(([name, build]) => [name, build(new Pipeline(this._model)).stages]);
+        return this.stage({ $facet: Object.fromEntries(spec) });
+    }
+
+    /** Counts the documents with a `$count` stage, outputting a single document with the count in the specified field. */
+    public count<const Name extends string>(field: Name): Pipeline<Type, { [K in Name]: number }> {
+        return this.stage({ $count: field });
+    }
+
+    /**
+     * Runs the pipeline and returns a cursor for the output documents.
+     *
+     * @param {MGAggregateOptions} options - Optional settings for the `aggregate` operation. Learn more at
+     *                                     {@link https://mongodb.github.io/node-mongodb-native/6.7/interfaces/AggregateOptions.html this}.
+     */
+    public cursor(options?: MGAggregateOptions): AggregationCursor<Out> {
+        return this._model.aggregate(this._stages, options) as unknown as AggregationCursor<Out>;
+    }
+
+    /**
+     * Runs the pipeline and returns the output documents.
+     * If a schema is provided, every output document is validated (and transformed) by it.
+     *
+     * @param {z.ZodType} schema - An optional Zod schema validating the output documents.
+     * @param {MGAggregateOptions} options - Optional settings for the `aggregate` operation.
+     *
+     * @throws {ValidateError} If an output document fails the schema validation.
+     *
+     * @example
+     * const cities = await UserModel.aggregate()
+     *     .group({ _id: "$address.city", count: { $sum: 1 } })
+     *     .exec(z.object({ _id: z.string(), count: z.number().int() }));
+     */
+    public async exec(schema?: undefined, options?: MGAggregateOptions): Promise<Out[]>;
+    public async exec<S extends z.ZodTypeAny>(schema: S, options?: MGAggregateOptions): Promise<z.infer<S>[]>;
+    public async exec(schema?: z.ZodTypeAny, options?: MGAggregateOptions): Promise<unknown[]> {
+        const docs = await this.cursor(options).toArray();
+        if (!schema) return docs;
+
+        return Promise.all(
+            docs.map(async (doc) => {
+                const test = await schema.safeParseAsync(doc);
+                if (!test.success) throw new ValidateError(this._model.name, test.error.errors);
+                return test.data;
+            })
+        );
+    }
+
+    private stage<T>(stage: BSON.Document): Pipeline<Type, T> {
+        return new Pipeline(this._model, [...this._stages, stage]);
+    }
+}
+
+/** The key paths of a pipeline document. */
+type FieldPath<T> = T extends Record<string | number, unknown> ? ObjectKeyPaths<T> : string;
@@ -0,0 +1,246 @@
+import { toMongoPath } from "./helpers/toMongoPath.js";
+
+import MissingQueryPathError from "./errors/missingQueryPath.js";
+
+import type { Model } from "./model.js";
+import type { ModelCursor } from "./cursor.js";
+import type {
+    Flatten,
+    PathValue,
+    QuerySort,
+    Projected,
+    ResolvePath,
+    MGProjection,
+    MGFindOptions,
+    MGCursorOptions,
+    ObjectKeyPaths,
+    MGFilter,
+    MGIndexSpecification,
+} from "./types.js";
+import type { BSON, WithId, FindOptions } from "mongodb";
+
+/**
+ * A chainable, type-safe query builder, created with `Model.query()`.
+ *
+ * Paths are constrained by the model's key paths, and condition values are typed from the selected path.
+ * The query honors the model's `checkOnGet` and `hiddenFields` options.
+ *
+ * @template Type - The type of the model's documents.
+ * @template Result - The type of the documents returned by the query.
+ * @template Path - The path selected with `where()`, used by the next conditions.
+ *
+ * @example
+ * const users = await UserModel.query()
+ *     .where("address.city")
+ *     .eq("Paris")
+ *     .where("age")
+ *     .gte(18)
+ *     .sort({ age: -1 })
+ *     .skip(10)
+ *     .limit(20)
+ *     .select(["name", "age"])
+ *     .exec();
+ */
+export class Query<
+    Type extends WithId<Record<string | number, unknown>>,
+    Result = Type,
+    Path extends ObjectKeyPaths<Type> = never
+> {
+    private _model: Model<Type, any>;
+    private _filters: MGFilter<Type>[] = [];
+    private _conditions: Record<string, BSON.Document> = {};
+    private _options: Omit<FindOptions, "projection"> = {};
+    private _projection?: MGProjection<Type>;
+    private _path?: string;
+
+    constructor(model: Model<Type, any>) {
+        this._model = model;
+    }
+
+    /** A getter for the filter built by the query. */
+    public get filter(): MGFilter<Type> {
+        const conditions = Object.keys(this._conditions).length > 0 ? [this._conditions as MGFilter<Type>] : [];
+        const filters = [...this._filters, ...conditions];
+
+        if (filters.length === 0) return {};
+        return filters.length === 1 ? filters[0] : ({ $and: filters } as MGFilter<Type>);
+    }
+
+    /** A getter for the find options built by the query. */
+    public get options(): FindOptions {
+        if (!this._projection) return { ...this._options };
+
+        const projection = Object.keys(this._projection).map((path) => [toMongoPath(path), 1]);
+        return { ...this._options, projection: Object.fromEntries(projection) };
+    }
+
+    /**
+     * Selects the path used by the next conditions, or adds a raw filter to the query.
+     *
+     * @param {P | MGFilter<Type>} path - The key path to apply the next conditions to, or a raw filter.
+     *
+     * @example
+     * UserModel.query().where("age").gte(18);
+     * UserModel.query().where({ name: "John Doe" });
+     */
+    public where<P extends ObjectKeyPaths<Type>>(path: P): Query<Type, Result, P>;
+    public where(filter: MGFilter<Type>): this;
+    public where<P extends ObjectKeyPaths<Type>>(path: P | MGFilter<Type>): Query<Type, Result, P> | this {
+        if (typeof path === "string") this._path = toMongoPath(path);
+        else this._filters.push(path as MGFilter<Type>);
+
+        return this;
+    }
+
+    /** Matches documents where the selected path equals the value. */
+    public eq(value: PathValue<Type, Path>): this {
+        return this.condition("$eq", value);
+    }
+
+    /** Matches documents where the selected path does not equal the value. */
+    public ne(value: PathValue<Type, Path>): this {
+        return this.condition("$ne", value);
+    }
+
+    /** Matches documents where the selected path is greater than the value. */
+    public gt(value: Flatten<ResolvePath<Type, Path>>): this {
+        return this.condition("$gt", value);
+    }
+
+    /** Matches documents where the selected path is greater than or equal to the value. */
+    public gte(value: Flatten<ResolvePath<Type, Path>>): this {
+        return this.condition("$gte", value);
+    }
+
+    /** Matches documents where the selected path is less than the value. */
+    public lt(value: Flatten<ResolvePath<Type, Path>>): this {
+        return this.condition("$lt", value);
+    }
+
+    /** Matches documents where the selected path is less than or equal to the value. */
+    public lte(value: Flatten<ResolvePath<Type, Path>>): this {
+        return this.condition("$lte", value);
+    }
+
+    /** Matches documents where the selected path equals any of the values. */
+    public in(values: PathValue<Type, Path>[]): this {
+        return this.condition("$in", values);
+    }
+
+    /** Matches documents where the selected path equals none of the values. */
+    public nin(values: PathValue<Type, Path>[]): this {
+        return this.condition("$nin", values);
+    }
+
+    /** Matches documents where the selected path matches the regular expression. */
+    public regex(pattern: RegExp | string): this {
+        return this.condition("$regex", pattern);
+    }
+
+    /**
+     * Sorts the documents by the specified paths, in the order of the keys.
+     *
+     * @param {QuerySort<Type>} sort - The sort direction of each path (`1` ascending, `-1` descending).
+     */
+    public sort(sort: QuerySort<Type>): this {
+        const spec = Object.entries(sort).map(([path, direction]) => [toMongoPath(path), direction]);
+        this._options.sort = { ...(this._options.sort as BSON.Document), ...Object.fromEntries(spec) };
+
+        return this;
+    }
+
+    /** Skips the specified number of documents. */
+    public skip(skip: number): this {
+        this._options.skip = skip;
+        return this;
+    }
+
+    /** Limits the number of documents returned. */
+    public limit(limit: number): this {
+        this._options.limit = limit;
+        return this;
+    }
+
+    /**
+     * Returns only the specified paths (and `_id`) of the documents, narrowing the result type accordingly.
+     *
+     * **Note:** With the `checkOnGet` option, the selected documents are validated against the selected fields.
+     *
+     * @param {P[]} paths - The key paths to return.
+     */
+    public select<const P extends ObjectKeyPaths<Type>>(
+        paths: P[]
+    ): Query<Type, Projected<Type, { [K in P]: 1 }>, Path> {
+        this._projection = Object.fromEntries(paths.map((path) => [path, 1])) as MGProjection<Type>;
+        return this as unknown as Query<Type, Projected<Type, { [K in P]: 1 }>, Path>;
+    }
+
+    /**
+     * Forces the query to use the specified index.
+     *
+     * @param {MGIndexSpecification<Type> | string} hint - The index specification or the index name.
+     */
+    public hint(hint: MGIndexSpecification<Type> | string): this {
+        this._options.hint = hint as BSON.Document | string;
+        return this;
+    }
+
+    /**
+     * Executes the query.
+     *
+     * @returns {Promise<Result[]>} A promise that resolves to the documents matching the query.
+     */
+    public async exec(): Promise<Result[]> {
+        const options = { ...this._options, projection: this._projection } as MGFindOptions<Type>;
+        return (await this._model.find(this.filter, options)) as unknown as Result[];
+    }
+
+    /**
+     * Counts the documents matching the query's filter, ignoring `skip`, `limit` and `select`.
+     *
+     * @returns {Promise<number>} A promise that resolves to the number of matching documents.
+     */
+    public async count(): Promise<number> {
+        return this._model.countDocuments(this.filter);
+    }
+
+    /**
+     * Checks whether at least one document matches the query's filter.
+     *
+     * @returns {Promise<boolean>} A promise that resolves to `true` if a matching document exists.
+     */
+    public async exists(): Promise<boolean> {
+        return (await this._model.countDocuments(this.filter, { limit: 1 })) > 0;
+    }
+
+    /**
+     * Finds the distinct values of the specified path among the documents matching the query's filter.
+     *
+     * @param {Key} key - The key path to find distinct values for.
+     *
+     * @returns {Promise<Flatten<ResolvePath<Type, Key>>[]>} A promise that resolves to the distinct values.
+     */
+    public async distinct<Key extends ObjectKeyPaths<Type>>(key: Key): Promise<Flatten<ResolvePath<Type, Key>>[]> {
+        return this._model.distinct(key, this.filter);
+    }
+
+    /**
+     * Iterates over the documents matching the query with a cursor, without loading them all in memory.
+     *
+     * **Note:** Hooks of the `find` operation are not run when iterating.
+     *
+     * @example
+     * for await (const user of UserModel.query().where("age").gte(18)) console.log(user.name);
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<Result> {
+        const options = { ...this._options, projection: this._projection } as MGCursorOptions<Type>;
+        yield* this._model.findCursor(this.filter, options) as unknown as ModelCursor<Type, Result>;
+    }
+
+    private condition(operator: string, value: unknown): this {
+        if (!this._path) throw new MissingQueryPathError(operator);
+
+        this._conditions[this._path] = { ...this._conditions[this._path], [operator]: value };
+        return this;
+    }
+}
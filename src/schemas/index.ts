@@ -1,3 +1,4 @@
+export { ZodRef } from "./ref.js";
 export { ZodBinary } from "./binary.js";
 export { ZodRegExp } from "./regexp.js";
 export { ZodObjectId } from "./objectId.js";
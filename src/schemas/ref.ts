@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { ObjectId } from "mongodb";
+import { DEFAULT_ARRAY_PLACEHOLDER } from "../constants.js";
+import { unwrapZodType } from "../helpers/unwrapZodType.js";
+
+import type { Model, TypeOf } from "../model.js";
+import type { Ref } from "../types.js";
+
+/** Maps every reference schema to the getter of its target model. */
+const refTargets = new WeakMap<z.ZodTypeAny, () => Model<any, any>>();
+
+/**
+ * `ZodRef` is a Zod schema designed for validating MongoDB ObjectIds that reference a document of another model.
+ * The target model is resolved lazily, so models can reference each other regardless of their definition order.
+ *
+ * @param {() => M} model - A function returning the referenced model.
+ *
+ * @example
+ * const UserModel = mongooat.Model(
+ *     "users",
+ *     z.object({
+ *         name: z.string(),
+ *         org: ZodRef(() => OrgModel),
+ *         friends: z.array(ZodRef(() => UserModel)).optional(),
+ *     })
+ * );
+ */
+export function ZodRef<M extends Model<any, any>>(model: () => M) {
+    const schema = z
+        .custom<Ref<TypeOf<M>>>((value: ObjectId | string) => ObjectId.isValid(value), {
+            message: "Invalid ObjectID",
+        })
+        .transform(
+            (value: ObjectId | string) => (typeof value === "string" ? new ObjectId(value) : value) as Ref<TypeOf<M>>
+        );
+
+    refTargets.set(schema, model);
+    return schema;
+}
+
+/** Checks whether the schema is a reference schema created with `ZodRef`. */
+export function isZodRef(schema: z.ZodTypeAny): boolean {
+    return refTargets.has(schema);
+}
+
+/**
+ * Resolves the target model of the reference schema at the specified path.
+ *
+ * Array placeholders and indexes in the path are optional, and a path to an array of references resolves
+ * to the target model of its elements.
+ *
+ * @returns {Model<any, any> | undefined} The target model, or `undefined` if the path is not a reference.
+ */
+export function getRefTarget(schema: z.ZodTypeAny, path: string): Model<any, any> | undefined {
+    let current: z.ZodTypeAny | undefined = schema;
+
+    for (const key of path.split(".")) {
+        current = unwrapZodType(current);
+        if (current instanceof z.ZodArray) {
+            current = unwrapZodType(current.element);
+            if (key === DEFAULT_ARRAY_PLACEHOLDER || !isNaN(Number(key))) continue;
+        }
+
+        current = current instanceof z.ZodObject ? current.shape[key] : undefined;
+        if (!current) return undefined;
+    }
+
+    current = unwrapZodType(current);
+    if (current instanceof z.ZodArray) current = unwrapZodType(current.element);
+
+    return refTargets.get(current)?.();
+}
@@ -1,6 +1,35 @@
 import type { z, ZodString } from "zod";
 import type MongooatError from "./errors/mongooatError.js";
-import type { BulkWriteResult, CreateIndexesOptions, IndexDescription, IndexDirection, ObjectId } from "mongodb";
+import type ValidateError from "./errors/validateError.js";
+import type Mongooat from "./mongooat.js";
+import type { Model } from "./model.js";
+import type {
+    BSON,
+    Filter,
+    ObjectId,
+    Condition,
+    FindOptions,
+    DeleteResult,
+    ModifyResult,
+    UpdateResult,
+    ResumeToken,
+    ClientSession,
+    AggregateOptions,
+    IndexDirection,
+    BulkWriteResult,
+    IndexDescription,
+    UpdateDescription,
+    ChangeStreamOptions,
+    CreateIndexesOptions,
+    FindOneAndUpdateOptions,
+    FindOneAndDeleteOptions,
+    FindOneAndReplaceOptions,
+    ChangeStreamDocument,
+    ChangeStreamInsertDocument,
+    ChangeStreamUpdateDocument,
+    ChangeStreamDeleteDocument,
+    ChangeStreamReplaceDocument,
+} from "mongodb";
 import type { DEFAULT_PATH_OPTIONS, POSITIONAL_OPERATOR_MAP, WILDCARD_INDEX_MAP } from "./constants.js";
 
 /************************/
@@ -82,17 +111,19 @@ type RemoveUndefined<T> = T extends undefined ? never : T;
  */
 export type ObjectKeyPaths<O extends Record<string | number, unknown>> = ExtractKeyPaths<O, never>;
 
-/** Extracts all possible key paths of an object. */
-type ExtractKeyPaths<O extends Record<string | number, unknown>, ArrKeyPath extends string> = {
-    [K in Extract<keyof O, string>]:
-        | K
-        | ArrKeyPath
-        | (NonNullable<O[K]> extends Array<any>
-              ? ExtractArrayPaths<NonNullable<O[K]>, K, ArrKeyPath>
-              : NonNullable<O[K]> extends Record<string | number, unknown>
-              ? `${K}.${ExtractKeyPaths<NonNullable<O[K]>, ArrKeyPath>}`
-              : never);
-}[Extract<keyof O, string>];
+/** Extracts all possible key paths of an object, or of each member of a union of objects. */
+type ExtractKeyPaths<O extends Record<string | number, unknown>, ArrKeyPath extends string> = O extends unknown
+    ? {
+          [K in Extract<keyof O, string>]:
+              | K
+              | ArrKeyPath
+              | (NonNullable<O[K]> extends Array<any>
+                    ? ExtractArrayPaths<NonNullable<O[K]>, K, ArrKeyPath>
+                    : NonNullable<O[K]> extends Record<string | number, unknown>
+                    ? `${K}.${ExtractKeyPaths<NonNullable<O[K]>, ArrKeyPath>}`
+                    : never);
+      }[Extract<keyof O, string>]
+    : never;
 
 /** Extracts all possible key paths of an array. */
 type ExtractArrayPaths<
@@ -313,6 +344,26 @@ export type MGIndexSpecification<T extends Record<string | number, unknown>> = {
     [K in KeyPathsWithWildcard<T>]?: IndexDirection;
 };
 
+/** The options of `Model.syncIndexes()` and `Mongooat.syncAllIndexes()`. */
+export type SyncIndexesOptions = {
+    /** Whether to only report the differences, without creating or dropping indexes (default: `false`). */
+    dryRun?: boolean;
+    /** Whether to drop the existing indexes that are not declared (default: `false`). */
+    dropExtraneous?: boolean;
+};
+
+/** The result of `Model.syncIndexes()`, listing index names. */
+export type SyncIndexesResult = {
+    /** The declared indexes that did not exist and were created. */
+    added: string[];
+    /** The declared indexes whose name, key or options changed, which were dropped and created again. */
+    changed: string[];
+    /** The undeclared indexes that were dropped (with the `dropExtraneous` option). */
+    dropped: string[];
+    /** The undeclared indexes that were left in place (without the `dropExtraneous` option). */
+    extraneous: string[];
+};
+
 type KeyPathsWithWildcard<O extends Record<string | number, unknown>> = RemoveInvalidWildcardPaths<
     ExtractKeyPaths<O, WildcardIndexPlaceHolders>
 >;
@@ -324,6 +375,856 @@ type RemoveInvalidWildcardPaths<T extends string> =
         ? `${A}.${B}`
         : T;
 
+/************************/
+/************************/
+/***    VALIDATOR     ***/
+/************************/
+/************************/
+/** The options of `Model.syncValidator()`. */
+export type SyncValidatorOptions = {
+    /** The documents validated by the server: `"strict"` (default) validates all inserts and updates, `"moderate"` skips the updates of invalid documents, and `"off"` disables validation. */
+    level?: "off" | "strict" | "moderate";
+    /** Whether invalid writes are rejected (`"error"`, default) or only logged (`"warn"`). */
+    action?: "error" | "warn";
+    /** Whether to throw an `UnsupportedSchemaError` instead of applying the validator when parts of the schema cannot be expressed (default: `false`). */
+    strict?: boolean;
+};
+
+/** The result of `Model.syncValidator()`. */
+export type SyncValidatorResult = {
+    /** The `$jsonSchema` document applied to the collection. */
+    jsonSchema: BSON.Document;
+    /** The parts of the schema that cannot be expressed with `$jsonSchema`, which are left unconstrained by the validator. */
+    unsupported: UnsupportedSchemaMap;
+    /** Whether the collection was created, or modified if it already existed. */
+    created: boolean;
+};
+
+/************************/
+/************************/
+/***    TIMESTAMPS    ***/
+/************************/
+/************************/
+/**
+ * The `timestamps` option of a model. Set to `true` to use the default `createdAt` and `updatedAt` field names,
+ * or specify custom field names (`false` disables a field).
+ */
+export type TimestampsOption = boolean | { createdAt?: string | false; updatedAt?: string | false };
+
+/** The timestamp fields added to the model type by the `timestamps` option. */
+export type TimestampFields<TS> = TimestampField<TS, "createdAt"> & TimestampField<TS, "updatedAt">;
+
+/** Resolves a single timestamp field, using the default field name unless renamed or disabled. */
+type TimestampField<TS, Key extends "createdAt" | "updatedAt"> = TS extends true
+    ? { [K in Key]: Date }
+    : TS extends { [K in Key]: infer Name }
+    ? Name extends string
+        ? { [K in Name]: Date }
+        : {}
+    : TS extends object
+    ? { [K in Key]: Date }
+    : {};
+
+/************************/
+/************************/
+/***   SOFT DELETE    ***/
+/************************/
+/************************/
+/**
+ * The `softDelete` option of a model. Set to `true` to use the default `deletedAt` marker field,
+ * or specify a custom field name.
+ */
+export type SoftDeleteOption = boolean | { deletedAt?: string };
+
+/** The marker field added to the model type by the `softDelete` option. */
+export type SoftDeleteFields<SD> = SD extends true
+    ? { deletedAt?: Date | null }
+    : SD extends { deletedAt: infer Name extends string }
+    ? { [K in Name]?: Date | null }
+    : SD extends object
+    ? { deletedAt?: Date | null }
+    : {};
+
+/** The query modes of a soft-delete model. */
+export type SoftDeleteMode = "exclude" | "include" | "only";
+
+/************************/
+/************************/
+/***    VERSIONING    ***/
+/************************/
+/************************/
+/**
+ * The `versionKey` option of a model. Set to `true` to use the default `__v` version field,
+ * or specify a custom field name.
+ */
+export type VersionKeyOption = boolean | string;
+
+/**
+ * The version field added to the model type by the `versionKey` option.
+ * It is optional, as documents written before enabling the option do not have it.
+ */
+export type VersionFields<VK> = VK extends true ? { __v?: number } : VK extends string ? { [K in VK]?: number } : {};
+
+/** Upgrades the documents of a schema version to the next version. */
+export type SchemaUpgrade<S extends z.ZodObject<any> = z.ZodObject<any>> = {
+    /** The schema version of the documents upgraded by this step. */
+    version: number;
+    /** The schema of the documents at this version, validated before the upgrade. */
+    schema: S;
+    /** Upgrades a document to the next version. The `_id` field is kept. */
+    up(doc: z.infer<S>): Record<string, unknown>;
+};
+
+/** The `schemaVersion` option of a model. */
+export type SchemaVersionOption = {
+    /** The current schema version, stamped on written documents. Documents without a version are at version `1`. */
+    version: number;
+    /** The upgrades from each previous version to the next one, e.g. `[{ version: 1, ... }, { version: 2, ... }]` for version 3. */
+    upgrades: SchemaUpgrade[];
+    /** The field storing the schema version of the documents (default: `_schemaVersion`). */
+    key?: string;
+    /** Whether to persist the upgraded documents read by `find()` and `findOne()` without a projection (default: `false`). */
+    writeBack?: boolean;
+};
+
+/** The schema version field added to the model type by the `schemaVersion` option. */
+export type SchemaVersionFields<SV> = SV extends { key: infer K extends string }
+    ? { [P in K]?: number }
+    : SV extends SchemaVersionOption
+    ? { _schemaVersion?: number }
+    : {};
+
+/************************/
+/************************/
+/***    ENCRYPTION    ***/
+/************************/
+/************************/
+/**
+ * Provides the keys encrypting the `encryptedFields` of a model (32-byte keys, for AES-256-GCM).
+ * Each encrypted value stores the id of its key, so values encrypted with a previous key can still be decrypted
+ * after a key rotation.
+ */
+export type EncryptionKeyProvider = {
+    /** The id of the key encrypting new values. */
+    readonly currentKeyId: string;
+    /** The ids of all the available keys, used to match deterministic values encrypted with any of them. */
+    readonly keyIds: readonly string[];
+    /** Returns the key with the specified id. */
+    getKey(keyId: string): Buffer;
+};
+
+/** The `encryption` option of a model. */
+export type EncryptionOptions<T extends Record<string | number, unknown>> = {
+    /** The provider of the encryption keys. */
+    keyProvider: EncryptionKeyProvider;
+    /**
+     * The encrypted fields to encrypt deterministically, so that they can be matched by equality queries.
+     * Deterministic encryption reveals which documents share a value, so only use it for fields that need to be queried.
+     */
+    deterministicFields?: ObjectKeyPaths<T>[];
+};
+
+/************************/
+/************************/
+/***  MANAGED FIELDS  ***/
+/************************/
+/************************/
+/** The model options that add managed fields to the model type. */
+export type ManagedFieldOptions = {
+    timestamps?: TimestampsOption;
+    softDelete?: SoftDeleteOption;
+    versionKey?: VersionKeyOption;
+    schemaVersion?: SchemaVersionOption | false;
+};
+
+/** The fields added to the model type by the model options. */
+export type ManagedFields<O extends ManagedFieldOptions> = TimestampFields<O["timestamps"]> &
+    SoftDeleteFields<O["softDelete"]> &
+    VersionFields<O["versionKey"]> &
+    SchemaVersionFields<O["schemaVersion"]>;
+
+/************************/
+/************************/
+/***  DISCRIMINATORS  ***/
+/************************/
+/************************/
+/** A discriminated union of object schemas, describing the kinds of documents sharing a collection. */
+export type DiscriminatedUnionSchema = z.ZodDiscriminatedUnion<string, z.ZodDiscriminatedUnionOption<string>[]>;
+
+/** The discriminator values of a model type, e.g. `"click" | "view"` for `{ kind: "click" } | { kind: "view" }`. */
+export type DiscriminatorValue<T, K extends string> = [K] extends [never]
+    ? never
+    : T extends { [P in K]: infer V }
+    ? V
+    : never;
+
+/** Narrows a model type to the documents of a discriminator value. */
+export type DiscriminatedType<T, K extends string, V> = Extract<T, { [P in K]: V }>;
+
+/** Narrows the schema shapes to the shape of a discriminator value, where the discriminator defaults to the value. */
+export type DiscriminatedShape<ST extends z.ZodRawShape, K extends string, V> = ST extends unknown
+    ? V extends z.infer<ST[K]>
+        ? Omit<ST, K> & { [P in K]: z.ZodDefault<ST[K]> }
+        : never
+    : never;
+
+/************************/
+/************************/
+/***    REFERENCES    ***/
+/************************/
+/************************/
+declare const refTarget: unique symbol;
+
+/**
+ * An `ObjectId` referencing a document of another model, created by the `ZodRef` schema.
+ * The target document type is carried as a phantom type, so a plain `ObjectId` is still assignable.
+ */
+export type Ref<T> = ObjectId & { readonly [refTarget]?: T };
+
+/**
+ * Narrows the populated paths of a document type to the type of the referenced documents.
+ * References without a matching document are populated with `null`.
+ *
+ * @example
+ * type User = { name: string; org: Ref<Org>; friends: Ref<User>[] };
+ *
+ * type PopulatedUser = Populated<User, "org" | "friends">;
+ * // { name: string; org: Org | null; friends: (User | null)[] }
+ */
+export type Populated<T, Paths extends string> = [Paths] extends [never] ? T : PopulateValue<T, Paths>;
+
+/** Populates the value with the remaining paths, relative to the value itself (`""`). */
+type PopulateValue<V, Paths extends string> = V extends Array<infer E>
+    ? Populated<E, StripArrayKey<Paths>>[]
+    : V extends ObjectId
+    ? "" extends Paths
+        ? RefTarget<V>
+        : V
+    : V extends Record<string | number, unknown>
+    ? { [K in keyof V]: Populated<V[K], SubPaths<Paths, Extract<K, string>>> }
+    : V;
+
+/** Resolves the type of the referenced document, or keeps the value if it is not a reference. */
+type RefTarget<V> = V extends { readonly [refTarget]?: infer T } ? (unknown extends T ? V : T | null) : V;
+
+/** Returns the remaining paths below the specified key. */
+type SubPaths<Paths extends string, Key extends string> = Paths extends Key
+    ? ""
+    : Paths extends `${Key}.${infer Rest}`
+    ? Rest
+    : never;
+
+/** Removes the leading array placeholder or index from the paths. */
+type StripArrayKey<Paths extends string> = Paths extends `${DefaultArrayPlaceholder | number}`
+    ? ""
+    : Paths extends `${DefaultArrayPlaceholder | number}.${infer Rest}`
+    ? Rest
+    : Paths;
+
+/************************/
+/************************/
+/***     METHODS      ***/
+/************************/
+/************************/
+/** Custom static methods, bound to the model instance. */
+export type ModelStatics = { [name: string]: (...args: any[]) => unknown };
+
+/** Custom document-level methods, receiving the parsed document as the first argument. */
+export type ModelMethods<MT> = { [name: string]: (doc: MT, ...args: any[]) => unknown };
+
+/** Document-level methods bound to a document, without the leading document argument. */
+export type BoundMethods<M> = {
+    [K in keyof M]: M[K] extends (doc: any, ...args: infer A) => infer R ? (...args: A) => R : never;
+};
+
+/************************/
+/************************/
+/***      HOOKS       ***/
+/************************/
+/************************/
+/** Model operations that support lifecycle hooks. */
+export type HookOperation = keyof HookPayloadMap<any>;
+
+/** The data exposed to hooks for each operation. Pre hooks may mutate or reassign these values. */
+type HookPayloadMap<T> = {
+    insertOne: { data: T };
+    insertMany: { data: T[] };
+    updateOne: { filter: Filter<T>; data: DeepPartial<T>; operators: UpdateOperators<T> };
+    updateMany: { filter: Filter<T>; data: DeepPartial<T>; operators: UpdateOperators<T> };
+    replaceOne: { filter: Filter<T>; data: OmitId<T> };
+    findOneAndUpdate: { filter: Filter<T>; data: DeepPartial<T>; operators: UpdateOperators<T> };
+    findOneAndReplace: { filter: Filter<T>; data: OmitId<T> };
+    findOneAndDelete: { filter: Filter<T> };
+    find: { filter: Filter<T> };
+    findOne: { filter: Filter<T> };
+    deleteOne: { filter: Filter<T> };
+    deleteMany: { filter: Filter<T> };
+};
+
+/** The result exposed to post hooks for each operation. */
+type HookResultMap<T> = {
+    insertOne: T;
+    insertMany: T[];
+    updateOne: UpdateResult;
+    updateMany: UpdateResult;
+    replaceOne: UpdateResult;
+    findOneAndUpdate: ModifyResult<T> | T | null;
+    findOneAndReplace: ModifyResult<T> | T | null;
+    findOneAndDelete: ModifyResult<T> | T | null;
+    find: T[];
+    findOne: T | null;
+    deleteOne: DeleteResult;
+    deleteMany: DeleteResult;
+};
+
+/** The payload of a hook context, without the common context fields. */
+export type HookPayload<T, Op extends HookOperation> = HookPayloadMap<T>[Op] & { options?: BSON.Document };
+
+/** The context passed to pre hooks. */
+export type HookContext<T, Op extends HookOperation = HookOperation> = Op extends HookOperation
+    ? {
+          /** The name of the model running the operation. */
+          model: string;
+          /** The operation being run. */
+          operation: Op;
+          /** Whether the operation is part of a `bulkWrite` call. */
+          bulk: boolean;
+      } & HookPayload<T, Op>
+    : never;
+
+/** The context passed to post hooks. Operations run through `bulkWrite` receive the bulk write result. */
+export type PostHookContext<T, Op extends HookOperation = HookOperation> = Op extends HookOperation
+    ? HookContext<T, Op> & ({ bulk: false; result: HookResultMap<T>[Op] } | { bulk: true; result: BulkWriteResult })
+    : never;
+
+/** A hook running before an operation. Returning `false` aborts the operation. */
+export type PreHook<T, Op extends HookOperation = HookOperation> = (
+    ctx: HookContext<T, Op>
+) => void | boolean | Promise<void | boolean>;
+
+/** A hook running after an operation. */
+export type PostHook<T, Op extends HookOperation = HookOperation> = (
+    ctx: PostHookContext<T, Op>
+) => void | Promise<void>;
+
+/************************/
+/************************/
+/***      UPDATE      ***/
+/************************/
+/************************/
+/**
+ * The key paths that can be targeted by updates. Array placeholders are replaced by the positional operators
+ * (e.g. `items.$.qty`, `items.$[].qty` or `items.$[item].qty`), and the `_id` field is not allowed.
+ */
+export type UpdatePaths<T> = T extends Record<string | number, unknown>
+    ? ToPositionalPath<Exclude<ObjectKeyPaths<T>, "_id" | `_id.${string}`>>
+    : never;
+
+/**
+ * The fields to set with dot-notation and positional key paths. Assigning `undefined` unsets the field.
+ *
+ * @example
+ * UserModel.updateOne({ _id: id }, { "address.city": "Paris", "roles.$[role]": "admin" }, { arrayFilters: [{ role: "user" }] });
+ */
+export type UpdatePathValues<T> = {
+    [K in Extract<UpdatePaths<T>, `${string}.${string}`>]?: T extends Record<string | number, unknown>
+        ? AssignStringToObjectId<ResolvePath<T, ToIndexPath<K>>>
+        : never;
+};
+
+/** The positional operators of update paths, where the identifier placeholder stands for any array filter identifier. */
+type PositionalOperator =
+    | Exclude<PositionalOperatorPlaceholder, (typeof POSITIONAL_OPERATOR_MAP)["$[<identifier>]"]>
+    | `$[${string}]`;
+
+/** Replaces the array placeholders of a key path with the positional operators. */
+type ToPositionalPath<P extends string> = P extends `${infer Key}.${infer Rest}`
+    ? `${Key extends DefaultArrayPlaceholder ? PositionalOperator : Key}.${ToPositionalPath<Rest>}`
+    : P extends DefaultArrayPlaceholder
+    ? PositionalOperator
+    : P;
+
+/** Replaces the positional operators of an update path with an array index, to resolve its value type. */
+type ToIndexPath<P extends string> = P extends `${infer Key}.${infer Rest}`
+    ? `${Key extends PositionalOperator ? 0 : Key}.${ToIndexPath<Rest>}`
+    : P extends PositionalOperator
+    ? "0"
+    : P;
+
+/** The update key paths whose value is of the specified type. */
+type UpdatePathsOfType<T, V> = T extends Record<string | number, unknown>
+    ? { [K in UpdatePaths<T>]-?: NonNullable<ResolvePath<T, ToIndexPath<K>>> extends V ? K : never }[UpdatePaths<T>]
+    : never;
+
+/** Resolves the value type of an update key path. */
+type UpdateValue<T, K extends string> = T extends Record<string | number, unknown>
+    ? AssignStringToObjectId<NonNullable<ResolvePath<T, ToIndexPath<K>>>>
+    : never;
+
+/** Resolves the element type of the array at an update key path. */
+type UpdateElement<T, K extends string> = T extends Record<string | number, unknown>
+    ? AssignStringToObjectId<NonNullable<Flatten<ResolvePath<T, ToIndexPath<K>>>>>
+    : never;
+
+/** The result of `Model.upsert()` and `Model.findOrCreate()`. */
+export type UpsertResult<T> = {
+    /** The updated, found or created document. */
+    document: T;
+    /** Whether the document was created. */
+    created: boolean;
+};
+
+/** The modifiers of the `$push` operator. */
+type PushModifiers<E> = {
+    $each: E[];
+    $slice?: number;
+    $position?: number;
+    $sort?: 1 | -1 | (E extends Record<string | number, unknown> ? QuerySort<E> : never);
+};
+
+/**
+ * Typed MongoDB update operators. Keys are constrained to the model's key paths of the matching type,
+ * and operands are validated against the schema of the targeted field.
+ *
+ * @example
+ * UserModel.updateOne({ name: "John Doe" }, { $inc: { age: 1 }, $push: { roles: { $each: ["admin"], $slice: -5 } } });
+ */
+export type UpdateOperators<T> = {
+    /** Increments the numeric fields by the specified amounts. */
+    $inc?: { [K in UpdatePathsOfType<T, number>]?: number };
+    /** Multiplies the numeric fields by the specified factors. */
+    $mul?: { [K in UpdatePathsOfType<T, number>]?: number };
+    /** Updates the fields if the specified values are less than their current values. */
+    $min?: { [K in UpdatePaths<T>]?: UpdateValue<T, K> };
+    /** Updates the fields if the specified values are greater than their current values. */
+    $max?: { [K in UpdatePaths<T>]?: UpdateValue<T, K> };
+    /** Appends an element (or several, with `$each`) to the array fields. */
+    $push?: { [K in UpdatePathsOfType<T, unknown[]>]?: UpdateElement<T, K> | PushModifiers<UpdateElement<T, K>> };
+    /** Appends an element (or several, with `$each`) to the array fields, unless already present. */
+    $addToSet?: { [K in UpdatePathsOfType<T, unknown[]>]?: UpdateElement<T, K> | { $each: UpdateElement<T, K>[] } };
+    /** Removes the elements equal to the value, or matching the condition, from the array fields. */
+    $pull?: {
+        [K in UpdatePathsOfType<T, unknown[]>]?: UpdateElement<T, K> extends Record<string | number, unknown>
+            ? Filter<UpdateElement<T, K>>
+            : UpdateElement<T, K> | Condition<UpdateElement<T, K>>;
+    };
+    /** Removes the first (`-1`) or last (`1`) element of the array fields. */
+    $pop?: { [K in UpdatePathsOfType<T, unknown[]>]?: 1 | -1 };
+    /** Renames the fields to the specified key paths. */
+    $rename?: { [K in UpdatePaths<T>]?: UpdatePaths<T> };
+    /** Sets the date fields to the current date. */
+    $currentDate?: { [K in UpdatePathsOfType<T, Date>]?: true | { $type: "date" } };
+};
+
+/************************/
+/************************/
+/***      QUERY       ***/
+/************************/
+/************************/
+/**
+ * Resolves the value type of a key path for query conditions.
+ * Paths through arrays also accept a single element, as MongoDB matches array elements.
+ */
+export type PathValue<O extends Record<string | number, unknown>, Path extends string> =
+    | ResolvePath<O, Path>
+    | Flatten<ResolvePath<O, Path>>;
+
+/**
+ * Extended `Filter` that also accepts strings for `ObjectId` values.
+ * Filter values are coerced with the model schema before being sent to the server.
+ */
+export type MGFilter<T> = Filter<AssignStringToObjectId<T>>;
+
+/** Extended `FindOptions` that supports model key paths for `projection` and populating reference paths. */
+export type MGFindOptions<
+    T extends Record<string | number, unknown>,
+    Paths extends string = never,
+    Projection extends MGProjection<T> = {}
+> = Omit<FindOptions, "projection"> &
+    IncludeHiddenOption & {
+        /** The model key paths to include (`1`) or exclude (`0`). The result type is narrowed accordingly. */
+        projection?: Projection & { [K in Exclude<keyof Projection, keyof MGProjection<T>>]: never };
+        /** The reference paths to populate with the referenced documents. */
+        populate?: Paths[];
+    };
+
+/** Defines the sort direction for each specified key path within the model. */
+export type QuerySort<T extends Record<string | number, unknown>> = { [K in ObjectKeyPaths<T>]?: 1 | -1 };
+
+/************************/
+/************************/
+/***    PAGINATION    ***/
+/************************/
+/************************/
+/** Options of the offset pagination. */
+export type PaginateOptions<T extends Record<string | number, unknown>> = {
+    /** The page number, starting from 1 (default: 1). */
+    page?: number;
+    /** The number of documents per page (default: 20). */
+    pageSize?: number;
+    /** The sort order of the documents. `_id` is appended as a tie-breaker. */
+    sort?: QuerySort<T>;
+};
+
+/** A page of documents returned by the offset pagination. */
+export type PaginateResult<T> = {
+    items: T[];
+    total: number;
+    page: number;
+    pageCount: number;
+    hasNext: boolean;
+};
+
+/** Options of the keyset (cursor) pagination. */
+export type CursorPaginateOptions<T extends Record<string | number, unknown>> = {
+    /** The cursor token of the previous page, or `null` for the first page. */
+    after?: string | null;
+    /** The number of documents per page (default: 20). */
+    limit?: number;
+    /** The sort order of the documents. `_id` is appended as a tie-breaker. */
+    sort?: QuerySort<T>;
+};
+
+/** A page of documents returned by the keyset (cursor) pagination. */
+export type CursorPaginateResult<T> = {
+    items: T[];
+    /** The cursor token of the next page, or `null` if this is the last page. */
+    next: string | null;
+    hasNext: boolean;
+};
+
+/************************/
+/************************/
+/***      CURSOR      ***/
+/************************/
+/************************/
+/**
+ * The behavior of a cursor when a document fails the `checkOnGet` validation:
+ * - `throw`: Throws the `ValidateError` (default).
+ * - `skip`: Skips the document.
+ * - `collect`: Skips the document and collects it in the cursor's `invalid` list.
+ */
+export type InvalidDocumentBehavior = "throw" | "skip" | "collect";
+
+/** A document that failed the `checkOnGet` validation, collected by a cursor. */
+export type InvalidDocument = { document: BSON.Document; error: ValidateError };
+
+/** Extended `FindOptions` for model cursors. */
+export type MGCursorOptions<T extends Record<string | number, unknown>, Projection extends MGProjection<T> = {}> = Omit<
+    MGFindOptions<T, never, Projection>,
+    "populate"
+> & {
+    /** The behavior when a document fails the `checkOnGet` validation. Defaults to `throw`. */
+    onInvalid?: InvalidDocumentBehavior;
+};
+
+/************************/
+/************************/
+/***  CHANGE STREAM   ***/
+/************************/
+/************************/
+/**
+ * The fields changed by an update event, by dot-notation key path. Array elements are reached by index
+ * (e.g. `address.city` or `items.0.qty`).
+ */
+export type ChangedFields<T> = T extends Record<string | number, unknown>
+    ? { [K in Exclude<ObjectKeyPaths<T>, "_id"> as ToEventPath<K>]?: ResolvePath<T, ToElementPath<K>> }
+    : never;
+
+/** Replaces the array placeholders of a key path with array indexes, as reported by change events. */
+type ToEventPath<P extends string> = P extends `${infer Key}.${infer Rest}`
+    ? `${Key extends DefaultArrayPlaceholder ? number : Key}.${ToEventPath<Rest>}`
+    : P extends DefaultArrayPlaceholder
+    ? `${number}`
+    : P;
+
+/** Replaces the array placeholders of a key path with the first index, to resolve the element value type. */
+type ToElementPath<P extends string> = P extends `${infer Key}.${infer Rest}`
+    ? `${Key extends DefaultArrayPlaceholder ? 0 : Key}.${ToElementPath<Rest>}`
+    : P extends DefaultArrayPlaceholder
+    ? "0"
+    : P;
+
+/** Extended `UpdateDescription` with the changed fields typed from the model. */
+export type MGUpdateDescription<T extends BSON.Document> = Omit<
+    UpdateDescription<T>,
+    "updatedFields" | "removedFields"
+> & {
+    /** The fields set by the update, with their new values. */
+    updatedFields?: ChangedFields<T>;
+    /** The fields removed by the update. */
+    removedFields?: (keyof ChangedFields<T> & string)[];
+};
+
+/** Extended `ChangeStreamUpdateDocument` with the changed fields typed from the model. */
+export type MGChangeStreamUpdateDocument<T extends BSON.Document> = Omit<
+    ChangeStreamUpdateDocument<T>,
+    "updateDescription"
+> & {
+    updateDescription: MGUpdateDescription<T>;
+};
+
+/**
+ * A change event of a model's collection. The documents of `insert`, `update`, `replace` and `delete` events
+ * are typed from the model, and validated with its schema when enabled.
+ */
+export type MGChangeStreamDocument<T extends BSON.Document> =
+    | ChangeStreamInsertDocument<T>
+    | MGChangeStreamUpdateDocument<T>
+    | ChangeStreamReplaceDocument<T>
+    | ChangeStreamDeleteDocument<T>
+    | Exclude<
+          ChangeStreamDocument<T>,
+          | ChangeStreamInsertDocument<T>
+          | ChangeStreamUpdateDocument<T>
+          | ChangeStreamReplaceDocument<T>
+          | ChangeStreamDeleteDocument<T>
+      >;
+
+/** Persists the resume tokens of change streams, so that they can resume where they stopped after a restart. */
+export type ChangeStreamCheckpointStore = {
+    /** Loads the last saved resume token of the stream, if any. */
+    load(key: string): Promise<ResumeToken | undefined>;
+    /** Saves the resume token of the last processed event of the stream. */
+    save(key: string, token: ResumeToken): Promise<void>;
+};
+
+/** Extended `ChangeStreamOptions` for model change streams. */
+export type MGChangeStreamOptions = ChangeStreamOptions & {
+    /**
+     * Whether to validate the documents and changed fields of the events with the model's schema.
+     * Defaults to the model's `checkOnGet` option.
+     */
+    validate?: boolean;
+    /** The behavior when an event fails the validation. Defaults to `throw`. */
+    onInvalid?: InvalidDocumentBehavior;
+    /**
+     * Resumes the stream from the last checkpoint of the store, and saves the resume token of each event once processed
+     * (i.e. when the next event is requested). The key defaults to the model's name.
+     */
+    checkpoint?: { store: ChangeStreamCheckpointStore; key?: string };
+};
+
+/************************/
+/************************/
+/***    PROJECTION    ***/
+/************************/
+/************************/
+/** The option returning the `hiddenFields` of the model, which are excluded from the results by default. */
+export type IncludeHiddenOption = {
+    /** Returns the `hiddenFields` of the model (default: false). */
+    includeHidden?: boolean;
+};
+
+/** Options for `aggregate()`, supporting the `includeHidden` option. */
+export type MGAggregateOptions = AggregateOptions & IncludeHiddenOption;
+
+/** Options for `findOneAndUpdate()`, supporting the `includeHidden` option. */
+export type MGFindOneAndUpdateOptions = FindOneAndUpdateOptions & IncludeHiddenOption;
+
+/** Options for `findOneAndReplace()`, supporting the `includeHidden` option. */
+export type MGFindOneAndReplaceOptions = FindOneAndReplaceOptions & IncludeHiddenOption;
+
+/** Options for `findOneAndDelete()`, supporting the `includeHidden` option. */
+export type MGFindOneAndDeleteOptions = FindOneAndDeleteOptions & IncludeHiddenOption;
+
+/** Projection that includes (`1`) or excludes (`0`) model key paths. */
+export type MGProjection<T extends Record<string | number, unknown>> = {
+    [K in ObjectKeyPaths<T> | "_id"]?: 0 | 1 | boolean;
+};
+
+/**
+ * Narrows the document type to the fields returned by the projection, including nested paths.
+ * The `_id` field is returned unless explicitly excluded.
+ *
+ * @example
+ * type User = { _id: ObjectId; name: string; age: number; address: { city: string; zip: string } };
+ *
+ * type Picked = Projected<User, { name: 1; "address.city": 1 }>;
+ * // { _id: ObjectId; name: string; address: { city: string } }
+ * type Omitted = Projected<User, { age: 0; "address.zip": 0 }>;
+ * // { _id: ObjectId; name: string; address: { city: string } }
+ */
+export type Projected<T, Projection> = [keyof Projection] extends [never]
+    ? T
+    : [Exclude<Projection[keyof Projection], 0 | false | undefined>] extends [never]
+    ? OmitPaths<T, Extract<keyof Projection, string>>
+    : PickPaths<T, IncludedPaths<Projection>> &
+          (Projection extends { _id: 0 | false } ? {} : T extends { _id: infer Id } ? { _id: Id } : {});
+
+/** Extracts the paths included by the projection. */
+type IncludedPaths<Projection> = Extract<
+    { [K in keyof Projection]-?: Projection[K] extends 0 | false | undefined ? never : K }[keyof Projection],
+    string
+>;
+
+/** Picks the specified paths of the value, relative to the value itself (`""`). */
+type PickPaths<V, Paths extends string> = "" extends Paths
+    ? V
+    : V extends readonly unknown[]
+    ? PickPaths<V[number], StripArrayKey<Paths>>[]
+    : V extends Record<string | number, unknown>
+    ? {
+          [K in keyof V as K extends PathHead<Paths> ? K : never]: PickPaths<V[K], SubPaths<Paths, Extract<K, string>>>;
+      }
+    : V;
+
+/** Omits the specified paths of the value. */
+type OmitPaths<V, Paths extends string> = V extends readonly unknown[]
+    ? OmitPaths<V[number], StripArrayKey<Paths>>[]
+    : V extends Record<string | number, unknown>
+    ? {
+          [K in keyof V as K extends Paths ? never : K]: K extends PathHead<Paths>
+              ? OmitPaths<V[K], SubPaths<Paths, Extract<K, string>>>
+              : V[K];
+      }
+    : V;
+
+/** Returns the first key of the paths. */
+type PathHead<Paths extends string> = Paths extends `${infer Head}.${string}` ? Head : Paths;
+
+/************************/
+/************************/
+/***     PIPELINE     ***/
+/************************/
+/************************/
+/** A reference to a field of the documents in a pipeline stage, e.g. `"$address.city"`. */
+export type FieldRef<T> = `$${FieldPaths<T>}`;
+
+/** The key paths of a pipeline document, without array placeholders. */
+type FieldPaths<T> = T extends Record<string | number, unknown> ? RemoveArrayKeyPaths<ObjectKeyPaths<T>> : never;
+
+/**
+ * Checks the field references of a stage specification against the document paths.
+ * Invalid references resolve to the valid ones, so they are reported by the compiler.
+ * Variables (e.g. `"$$NOW"`) are not checked.
+ */
+export type CheckRefs<T, E> = E extends `$$${string}`
+    ? E
+    : E extends `$${string}`
+    ? E extends FieldRef<T>
+        ? E
+        : FieldRef<T>
+    : E extends readonly unknown[]
+    ? { [I in keyof E]: CheckRefs<T, E[I]> }
+    : E extends Record<string, unknown>
+    ? { [K in keyof E]: CheckRefs<T, E[K]> }
+    : E;
+
+/**
+ * Resolves the output type of an expression.
+ * Field references resolve to the type of the field, literals are widened and operator expressions resolve to `unknown`.
+ */
+export type ExpressionType<T, E> = E extends `$$${string}`
+    ? unknown
+    : E extends `$${infer Path}`
+    ? T extends Record<string | number, unknown>
+        ? ResolvePath<T, Path>
+        : unknown
+    : E extends string
+    ? string
+    : E extends number
+    ? number
+    : E extends boolean
+    ? boolean
+    : E extends readonly unknown[]
+    ? unknown[]
+    : E extends Record<string, unknown>
+    ? Extract<keyof E, `$${string}`> extends never
+        ? { -readonly [K in keyof E]: ExpressionType<T, E[K]> }
+        : unknown
+    : E;
+
+/** The output document of a `$project` stage. */
+export type ProjectOutput<T, S> = [Exclude<S[keyof S], 0 | false>] extends [never]
+    ? Omit<T, Extract<keyof S, string>>
+    : {
+          -readonly [K in keyof S as S[K] extends 0 | false ? never : TopLevelKey<K>]: S[K] extends 1 | true
+              ? K extends keyof T
+                  ? T[K]
+                  : unknown
+              : ExpressionType<T, S[K]>;
+      } & (S extends { _id: 0 | false } ? {} : "_id" extends keyof T ? { _id: T["_id"] } : {});
+
+type TopLevelKey<K> = K extends `${infer Head}.${string}` ? Head : K;
+
+/** The output document of a `$group` stage. */
+export type GroupOutput<T, S> = {
+    -readonly [K in keyof S]: K extends "_id" ? ExpressionType<T, S[K]> : AccumulatorType<T, S[K]>;
+};
+
+/** Resolves the output type of a `$group` accumulator. */
+type AccumulatorType<T, A> = A extends { $sum: any } | { $avg: any } | { $count: any }
+    ? number
+    : A extends { $push: infer E } | { $addToSet: infer E }
+    ? ExpressionType<T, E>[]
+    : A extends { $min: infer E } | { $max: infer E } | { $first: infer E } | { $last: infer E }
+    ? ExpressionType<T, E>
+    : unknown;
+
+/** The output document of an `$addFields` stage. */
+export type AddFieldsOutput<T, S> = Omit<T, keyof S> & { -readonly [K in keyof S]: ExpressionType<T, S[K]> };
+
+/** The top-level keys of a document holding an array. */
+export type ArrayKeys<T> = Extract<
+    { [K in keyof T]-?: NonNullable<T[K]> extends readonly unknown[] ? K : never }[keyof T],
+    string
+>;
+
+/** The output document of an `$unwind` stage. */
+export type UnwindOutput<T, K extends keyof T> = Omit<T, K> & { [P in K]: Flatten<T[P]> };
+
+/** The output document of a `$lookup` stage. */
+export type LookupOutput<T, As extends string, F> = Omit<T, As> & { [K in As]: F[] };
+
+/************************/
+/************************/
+/***    MIGRATIONS    ***/
+/************************/
+/************************/
+/** The argument of the `up` and `down` functions of a migration. */
+export type MigrationContext = {
+    /** The `Mongooat` instance running the migration. */
+    mongooat: Mongooat;
+    /** The registered models, keyed by model name. */
+    models: ReadonlyMap<string, Model<any, any>>;
+    /** The session of the transaction running the migration, if any. Model operations join it automatically. */
+    session?: ClientSession;
+};
+
+/** A migration module, applied in the order of the list passed to the `Migrator`. */
+export type Migration = {
+    /** The unique version of the migration, e.g. `"2024-06-01-add-email-index"`. */
+    version: string;
+    /** An optional description of the migration, shown in the status. */
+    description?: string;
+    /** Whether to run the migration inside a transaction when the deployment supports it (default: `true`). */
+    transaction?: boolean;
+    /** Applies the migration. */
+    up(ctx: MigrationContext): Promise<void>;
+    /** Reverts the migration. Migrations without `down` cannot be rolled back. */
+    down?(ctx: MigrationContext): Promise<void>;
+};
+
+/** The options of a `Migrator`. */
+export type MigratorOptions = {
+    /** The collection storing the applied migrations and the lock (default: `"_mongooat_migrations"`). */
+    collectionName?: string;
+    /** The duration after which a lock left by a crashed process can be taken over, in milliseconds (default: 10 minutes). */
+    lockTimeout?: number;
+};
+
+/**
+ * The status of a migration: `"applied"`, `"pending"`, `"changed"` (applied, but modified since) or
+ * `"missing"` (applied, but no longer in the list of migrations).
+ */
+export type MigrationStatus = {
+    version: string;
+    description?: string;
+    state: "applied" | "pending" | "changed" | "missing";
+    appliedAt?: Date;
+};
+
 /************************/
 /************************/
 /***    CONSTANTS     ***/
@@ -341,6 +1242,7 @@ type PositionalOperatorPlaceholder = (typeof POSITIONAL_OPERATOR_MAP)[keyof type
 /************************/
 /************************/
 export type InvalidSchemaMap = { path: string; reason: string }[];
+export type UnsupportedSchemaMap = { path: string; reason: string }[];
 export type BulkWriteErrorMap = {
     index: number;
     error: MongooatError;
@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import { MemoryCheckpointStore } from "../../src/checkpoint.js";
+import ValidateError from "../../src/errors/validateError.js";
+
+import { fakeChangeStream, fakeCollection } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection whose change stream emits the events, standing in for a replica set. */
+function fakeStore(events: Record<string, unknown>[]) {
+    const stream = fakeChangeStream(events);
+    return { ...fakeCollection({ watch: () => stream }), stream };
+}
+
+describe("changeStream.ModelChangeStream", () => {
+    const schema = z.object({ name: z.string(), secret: z.string().optional() });
+    const options = { checkOnGet: true, hiddenFields: ["secret" as const] };
+
+    const id = new ObjectId();
+    const insert = {
+        _id: { _data: "1" },
+        operationType: "insert",
+        documentKey: { _id: id },
+        fullDocument: { _id: id, name: "John", secret: "s3cr3t" },
+    };
+    const update = {
+        _id: { _data: "2" },
+        operationType: "update",
+        documentKey: { _id: id },
+        updateDescription: { updatedFields: { name: "Jane", secret: "n3w" }, removedFields: ["secret"] },
+    };
+    const invalid = { ...update, _id: { _data: "3" }, updateDescription: { updatedFields: { name: 42 } } };
+    const remove = { _id: { _data: "4" }, operationType: "delete", documentKey: { _id: id } };
+
+    it("should validate the events and remove hidden fields", async () => {
+        const { db, stream } = fakeStore([insert, update]);
+        const model = new Model("users", schema, db, options);
+
+        const events = [];
+        for await (const event of model.watch()) events.push(event);
+
+        assert.deepInclude(events[0], { fullDocument: { _id: id, name: "John" } });
+        assert.deepInclude(events[1], { updateDescription: { updatedFields: { name: "Jane" }, removedFields: [] } });
+        assert.isTrue(stream.closed);
+    });
+
+    it("should throw, skip or collect invalid events", async () => {
+        const model = new Model("users", schema, fakeStore([invalid]).db, options);
+        try {
+            await model.watch().next();
+            assert.fail("Expected a ValidateError");
+        } catch (err) {
+            assert.instanceOf(err, ValidateError);
+        }
+
+        const collecting = new Model("users", schema, fakeStore([invalid, remove]).db, options).watch([], {
+            onInvalid: "collect",
+        });
+        assert.strictEqual((await collecting.next())?.operationType, "delete");
+        assert.lengthOf(collecting.invalid, 1);
+    });
+
+    it("should resume from the checkpoint and save the tokens of processed events", async () => {
+        const store = new MemoryCheckpointStore();
+        await store.save("sync", { _data: "0" });
+
+        const { db, calls } = fakeStore([insert, update]);
+        const stream = new Model("users", schema, db, options).watch([], { checkpoint: { store, key: "sync" } });
+
+        await stream.next();
+        assert.deepEqual(calls[0].args[1].resumeAfter, { _data: "0" });
+        assert.deepEqual(await store.load("sync"), { _data: "0" });
+
+        await stream.next();
+        assert.deepEqual(await store.load("sync"), { _data: "1" });
+        assert.deepEqual(stream.resumeToken, { _data: "2" });
+    });
+
+    it("should run the handlers of each operation type", async () => {
+        const { db } = fakeStore([insert, update, remove]);
+        const calls: unknown[] = [];
+
+        await new Model("users", schema, db, options)
+            .watch()
+            .onInsert((doc) => void calls.push(["insert", doc.name]))
+            .onUpdate((event) => void calls.push(["update", event.updateDescription.updatedFields?.name]))
+            .onDelete((deletedId) => void calls.push(["delete", deletedId]))
+            .listen();
+
+        assert.deepEqual(calls, [
+            ["insert", "John"],
+            ["update", "Jane"],
+            ["delete", id],
+        ]);
+    });
+});
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import { ModelCursor } from "../../src/cursor.js";
+import ValidateError from "../../src/errors/validateError.js";
+
+import { fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+import type { FindCursor, WithId } from "mongodb";
+
+describe("cursor.ModelCursor", () => {
+    const schema = z.object({ name: z.string(), secret: z.string().optional() });
+    const model = new Model("users", schema, fakeCollection().db, { checkOnGet: true, hiddenFields: ["secret"] });
+
+    type User = WithId<z.infer<typeof schema>>;
+    /** Creates a fake driver cursor over the documents, typed as the cursor wrapped by `ModelCursor`. */
+    const driverCursor = (docs: Record<string, unknown>[]) => {
+        const cursor = fakeCursor(docs);
+        return { cursor: cursor as unknown as FindCursor<User>, state: cursor };
+    };
+
+    const valid = { _id: new ObjectId(), name: "John", secret: "s3cr3t" };
+    const invalid = { _id: new ObjectId(), name: 42 };
+
+    it("should validate documents and remove hidden fields", async () => {
+        const { cursor, state } = driverCursor([valid]);
+        const docs = [];
+        for await (const doc of new ModelCursor(model, cursor)) docs.push(doc);
+
+        assert.deepEqual(docs, [{ _id: valid._id, name: "John" }]);
+        assert.isTrue(state.closed);
+    });
+
+    it("should throw a ValidateError on invalid documents by default", async () => {
+        const { cursor, state } = driverCursor([invalid, valid]);
+        try {
+            for await (const _ of new ModelCursor(model, cursor));
+            assert.fail("Expected a ValidateError");
+        } catch (err) {
+            assert.instanceOf(err, ValidateError);
+        }
+        assert.isTrue(state.closed);
+    });
+
+    it("should skip invalid documents", async () => {
+        const { cursor } = driverCursor([invalid, valid]);
+        const modelCursor = new ModelCursor(model, cursor, { onInvalid: "skip" });
+
+        assert.deepEqual(await modelCursor.next(), { _id: valid._id, name: "John" });
+        assert.isNull(await modelCursor.next());
+        assert.isEmpty(modelCursor.invalid);
+    });
+
+    it("should collect invalid documents", async () => {
+        const { cursor } = driverCursor([invalid, valid]);
+        const modelCursor = new ModelCursor(model, cursor, { onInvalid: "collect" });
+        const docs = [];
+        for await (const doc of modelCursor) docs.push(doc);
+
+        assert.lengthOf(docs, 1);
+        assert.lengthOf(modelCursor.invalid, 1);
+        assert.deepEqual(modelCursor.invalid[0].document, invalid);
+        assert.instanceOf(modelCursor.invalid[0].error, ValidateError);
+    });
+
+    it("should remove the hidden fields of the collected documents", async () => {
+        const { cursor } = driverCursor([{ ...invalid, secret: "s3cr3t" }]);
+        const modelCursor = new ModelCursor(model, cursor, { onInvalid: "collect" });
+
+        assert.isNull(await modelCursor.next());
+        assert.deepEqual(modelCursor.invalid[0].document, invalid);
+    });
+
+    it("should validate projected documents against the projected fields", async () => {
+        const { cursor } = driverCursor([{ _id: valid._id, secret: "s3cr3t" }]);
+        const modelCursor = new ModelCursor(model, cursor, { projection: { secret: 1 } });
+
+        assert.deepEqual(await modelCursor.next(), { _id: valid._id });
+    });
+
+    it("should stream documents", async () => {
+        const { cursor } = driverCursor([valid, valid]);
+        const docs = [];
+        for await (const doc of new ModelCursor(model, cursor).stream()) docs.push(doc);
+
+        assert.lengthOf(docs, 2);
+    });
+});
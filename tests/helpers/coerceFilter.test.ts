@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { assert } from "chai";
+import type { Model } from "../../src/model.js";
+import { BSON, ObjectId } from "mongodb";
+import { ZodRef } from "../../src/schemas/ref.js";
+import { ZodObjectId } from "../../src/schemas/objectId.js";
+import { ZodDecimal128 } from "../../src/schemas/decimal128.js";
+import { coerceFilter } from "../../src/helpers/coerceFilter.js";
+
+describe("helpers.coerceFilter", () => {
+    const id = "64b175497dc71570edd625d2";
+    const schema = z.object({
+        _id: ZodObjectId,
+        name: z.string(),
+        orgId: ZodRef(() => ({} as Model<any, any>)),
+        price: ZodDecimal128.optional(),
+        tags: z.array(ZodObjectId),
+        items: z.array(z.object({ productId: ZodObjectId, qty: z.number() })),
+        address: z.object({ city: z.string(), ownerId: ZodObjectId.nullable() }),
+    });
+
+    it("should coerce ObjectId and Decimal128 values, including inside operators", () => {
+        const { filter, unknownPaths } = coerceFilter(schema, {
+            _id: { $in: [id, "not-an-id"] },
+            orgId: { $ne: id },
+            price: { $gte: "9.99" },
+            tags: id,
+            "address.ownerId": { $not: { $eq: id } },
+            items: { $elemMatch: { productId: id, qty: { $gt: 1 } } },
+            $or: [{ "items.productId": id }, { name: id }],
+        });
+
+        assert.deepEqual(unknownPaths, []);
+        assert.deepEqual(filter._id.$in, [new ObjectId(id), "not-an-id"]);
+        assert.instanceOf(filter.orgId.$ne, ObjectId);
+        assert.instanceOf(filter.price.$gte, BSON.Decimal128);
+        assert.instanceOf(filter.tags, ObjectId);
+        assert.instanceOf(filter["address.ownerId"].$not.$eq, ObjectId);
+        assert.deepEqual(filter.items.$elemMatch, { productId: new ObjectId(id), qty: { $gt: 1 } });
+        assert.instanceOf(filter.$or[0]["items.productId"], ObjectId);
+        assert.strictEqual(filter.$or[1].name, id);
+    });
+
+    it("should report unknown top-level and nested paths", () => {
+        const { unknownPaths } = coerceFilter(schema, {
+            nickname: "John",
+            "address.country": "FR",
+            address: { city: "Paris", zip: "75001" },
+            items: { $elemMatch: { sku: "A1" } },
+            $and: [{ age: { $gt: 18 } }],
+        });
+
+        assert.deepEqual(unknownPaths, ["nickname", "address.country", "address.zip", "items.sku", "age"]);
+    });
+
+    it("should resolve the paths of union options", () => {
+        const { filter, unknownPaths } = coerceFilter(
+            z.object({
+                target: z.discriminatedUnion("type", [
+                    z.object({ type: z.literal("user"), userId: ZodObjectId }),
+                    z.object({ type: z.literal("team"), teamId: ZodObjectId }),
+                ]),
+            }),
+            { "target.type": "team", "target.teamId": id, "target.orgId": id }
+        );
+
+        assert.deepEqual(unknownPaths, ["target.orgId"]);
+        assert.instanceOf(filter["target.teamId"], ObjectId);
+    });
+});
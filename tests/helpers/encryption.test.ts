@@ -0,0 +1,76 @@
+import { assert } from "chai";
+import { BSON, ObjectId } from "mongodb";
+import { randomBytes } from "node:crypto";
+import { LocalKeyProvider } from "../../src/keyProvider.js";
+import InvalidEncryptionKeyError from "../../src/errors/invalidEncryptionKey.js";
+import {
+    decryptValue,
+    encryptValue,
+    getEncryptionInfo,
+    mapFilterValues,
+    mapPath,
+    mapUpdateFields,
+} from "../../src/helpers/encryption.js";
+
+describe("helpers.encryption", () => {
+    const provider = new LocalKeyProvider({ old: randomBytes(32), new: randomBytes(32).toString("base64") });
+
+    it("should round-trip values, keeping their BSON type", () => {
+        for (const value of ["123-45-6789", 42, new Date(0), new ObjectId(), { street: "1 Main St" }, ["a", "b"]]) {
+            const encrypted = encryptValue(value, provider, false);
+            assert.instanceOf(encrypted, BSON.Binary);
+            assert.deepEqual(decryptValue(encrypted, provider), value);
+        }
+    });
+
+    it("should encrypt deterministically only in deterministic mode", () => {
+        const [a, b] = [encryptValue("ssn", provider, true), encryptValue("ssn", provider, true)];
+        const [c, d] = [encryptValue("ssn", provider, false), encryptValue("ssn", provider, false)];
+
+        assert.isTrue(a.buffer.every((byte, i) => byte === b.buffer[i]));
+        assert.isFalse(c.buffer.every((byte, i) => byte === d.buffer[i]));
+        assert.deepEqual(getEncryptionInfo(a), { keyId: "new", deterministic: true });
+    });
+
+    it("should decrypt values encrypted with a previous key, and reject unknown keys", () => {
+        const encrypted = encryptValue("ssn", provider, false, "old");
+        assert.strictEqual(getEncryptionInfo(encrypted).keyId, "old");
+        assert.strictEqual(decryptValue(encrypted, provider), "ssn");
+
+        const other = new LocalKeyProvider({ other: randomBytes(32) });
+        assert.throws(() => decryptValue(encrypted, other), InvalidEncryptionKeyError);
+        assert.throws(() => new LocalKeyProvider({ short: randomBytes(16) }), InvalidEncryptionKeyError);
+        assert.throws(() => new LocalKeyProvider({ ["k".repeat(256)]: randomBytes(32) }), InvalidEncryptionKeyError);
+    });
+
+    it("should map the values at key paths of documents, updates and filters", () => {
+        const upper = (value: unknown) => String(value).toUpperCase();
+        const doc = { name: "john", cards: [{ number: "a" }, { number: "b" }] };
+
+        assert.deepEqual(mapPath(doc, "cards.<idx>.number", upper), {
+            name: "john",
+            cards: [{ number: "A" }, { number: "B" }],
+        });
+        assert.deepEqual(doc.cards[0], { number: "a" });
+
+        const paths = ["ssn", "cards.<idx>.number"];
+        const { fields, conflicts } = mapUpdateFields(
+            { ssn: "x", "cards.$.number": "y", cards: [{ number: "z" }], "ssn.part": "w" },
+            paths,
+            upper
+        );
+        assert.deepEqual(fields, { ssn: "X", "cards.$.number": "Y", cards: [{ number: "Z" }], "ssn.part": "w" });
+        assert.deepEqual(conflicts, ["ssn.part"]);
+
+        const filter = mapFilterValues(
+            { ssn: "x", "cards.number": { $ne: "y" }, $or: [{ ssn: { $in: ["z"] } }, { name: "john" }] },
+            paths,
+            (value) => [upper(value), value]
+        );
+        assert.deepEqual(filter, {
+            ssn: { $in: ["X", "x"] },
+            "cards.number": { $nin: ["Y", "y"] },
+            $or: [{ ssn: { $in: ["Z", "z"] } }, { name: "john" }],
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { assert } from "chai";
+import {
+    createSchemaFromData,
+    createSchemaFromPaths,
+    getProjectionExcludedPaths,
+} from "../../src/helpers/generateSchema.js";
+
+describe("helpers.generateSchema", () => {
+    const schema = z.object({
+        name: z.string(),
+        age: z.number(),
+        address: z.object({ city: z.string(), zip: z.string() }).optional(),
+        items: z.array(z.object({ sku: z.string(), qty: z.number() })),
+    });
+
+    /**
+     * Test the createSchemaFromData function.
+     */
+    describe("createSchemaFromData", () => {
+        const event = z.discriminatedUnion("kind", [
+            z.object({ kind: z.literal("click"), x: z.number(), y: z.number() }),
+            z.object({ kind: z.literal("view"), url: z.string() }),
+        ]);
+
+        it("should resolve a discriminated union to the option of the discriminator value", async () => {
+            const partial = createSchemaFromData(event, { kind: "click", x: 10 });
+            assert.deepEqual(await partial.parseAsync({ kind: "click", x: 10 }), { kind: "click", x: 10 });
+            assert.isFalse(partial.safeParse({ kind: "click", x: "10" }).success);
+        });
+
+        it("should resolve nested discriminated unions, and keep the union without a known discriminator value", () => {
+            const schema = z.object({ name: z.string(), event });
+            const partial = createSchemaFromData(schema, { event: { kind: "view", url: "/home" } });
+            assert.isTrue(partial.safeParse({ event: { kind: "view", url: "/home" } }).success);
+            assert.isFalse(partial.safeParse({ event: { kind: "view" } }).success);
+
+            const unknown = createSchemaFromData(schema, { event: { kind: "scroll" } });
+            assert.isFalse(unknown.safeParse({ event: { kind: "scroll" } }).success);
+        });
+    });
+
+    /**
+     * Test the createSchemaFromPaths function.
+     */
+    describe("createSchemaFromPaths", () => {
+        it("should remove top-level and nested paths from the schema", async () => {
+            const partial = createSchemaFromPaths(schema, ["age", "address.zip", "items.<idx>.qty"] as any);
+            const data = { name: "John", address: { city: "Paris" }, items: [{ sku: "A1" }] };
+            assert.deepEqual(await partial.parseAsync(data), data);
+        });
+
+        it("should not mutate the original schema", () => {
+            createSchemaFromPaths(schema, ["address.zip", "items.<idx>.qty"] as any);
+            const data = { name: "John", age: 30, address: { city: "Paris" }, items: [{ sku: "A1" }] };
+            assert.isFalse(schema.safeParse(data).success);
+            assert.hasAllKeys(schema.shape.address.unwrap().shape, ["city", "zip"]);
+            assert.hasAllKeys(schema.shape.items.element.shape, ["sku", "qty"]);
+        });
+    });
+
+    /**
+     * Test the getProjectionExcludedPaths function.
+     */
+    describe("getProjectionExcludedPaths", () => {
+        it("should return the excluded paths of an exclusion projection", () => {
+            const result = getProjectionExcludedPaths(schema, { age: 0, "address.zip": 0 });
+            assert.deepEqual(result, ["age", "address.zip"]);
+        });
+
+        it("should return the paths left out by an inclusion projection", () => {
+            const result = getProjectionExcludedPaths(schema, { name: 1, "address.city": 1 });
+            assert.deepEqual(result, ["age", "address.zip", "items"]);
+        });
+
+        it("should return the nested array paths left out by an inclusion projection", () => {
+            const result = getProjectionExcludedPaths(schema, { "items.<idx>.sku": 1 });
+            assert.deepEqual(result, ["name", "age", "address", "items.<idx>.qty"]);
+        });
+
+        it("should accept MongoDB paths without array placeholders", () => {
+            const result = getProjectionExcludedPaths(schema, { "items.sku": 1 });
+            assert.deepEqual(result, ["name", "age", "address", "items.<idx>.qty"]);
+        });
+
+        it("should leave out the '_id' field only if explicitly excluded", () => {
+            assert.deepEqual(getProjectionExcludedPaths(schema, { _id: 0 }), ["_id"]);
+            assert.deepEqual(getProjectionExcludedPaths(schema, { name: 1, age: 1, address: 1, items: 1, _id: 0 }), [
+                "_id",
+            ]);
+        });
+    });
+});
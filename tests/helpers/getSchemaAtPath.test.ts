@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { getSchemaAtPath } from "../../src/helpers/getSchemaAtPath.js";
+
+describe("helpers.getSchemaAtPath", () => {
+    it("should resolve the fields of objects, arrays and records by dot-notation path", () => {
+        const city = z.string();
+        const qty = z.number();
+        const schema = z.object({
+            address: z.object({ city }).optional(),
+            items: z.array(z.object({ qty })),
+            tags: z.record(z.string()),
+        });
+
+        assert.strictEqual(getSchemaAtPath(schema, "address.city"), city);
+        for (const path of ["items.0.qty", "items.<idx>.qty", "items.$.qty", "items.$[].qty", "items.$[item].qty"])
+            assert.strictEqual(getSchemaAtPath(schema, path), qty);
+        assert.strictEqual(getSchemaAtPath(schema, "items.qty", { implicitIndexes: true }), qty);
+        assert.instanceOf(getSchemaAtPath(schema, "tags.color"), z.ZodString);
+        assert.isUndefined(getSchemaAtPath(schema, "items.qty"));
+        assert.isUndefined(getSchemaAtPath(schema, "address.zip"));
+    });
+
+    it("should resolve the fields of refined, transformed and lazy nested objects", () => {
+        const street = z.string();
+        const schema = z.object({
+            address: z
+                .object({ street, zip: z.string() })
+                .refine((address) => address.zip.length === 5)
+                .optional(),
+            profile: z.lazy(() => z.object({ contact: z.object({ street }).transform((contact) => contact) })),
+        });
+
+        assert.strictEqual(getSchemaAtPath(schema, "address.street"), street);
+        assert.strictEqual(getSchemaAtPath(schema, "profile.contact.street"), street);
+        assert.isUndefined(getSchemaAtPath(schema, "address.city"));
+    });
+});
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { addHiddenProjection, getHiddenExcludedPaths } from "../../src/helpers/hiddenFields.js";
+
+describe("helpers.hiddenFields", () => {
+    const hiddenFields = ["password", "tokens.<idx>.secret"];
+
+    it("should add the hidden paths to missing and exclusion projections", () => {
+        assert.deepEqual(addHiddenProjection(undefined, hiddenFields), { password: 0, "tokens.secret": 0 });
+        assert.deepEqual(addHiddenProjection({ age: 0, tokens: 0 }, hiddenFields), { age: 0, tokens: 0, password: 0 });
+        assert.deepEqual(addHiddenProjection({ "password.hash": 0 }, hiddenFields), {
+            password: 0,
+            "tokens.secret": 0,
+        });
+        assert.strictEqual(addHiddenProjection(undefined, []), undefined);
+    });
+
+    it("should remove the hidden paths from inclusion projections", () => {
+        assert.deepEqual(addHiddenProjection({ name: 1, password: 1, _id: 0 }, hiddenFields), { name: 1, _id: 0 });
+        assert.deepEqual(addHiddenProjection({ tokens: 1, "password.hash": 1 }, hiddenFields), { tokens: 1 });
+        assert.deepEqual(addHiddenProjection({ password: 1 }, hiddenFields), { _id: 1 });
+    });
+
+    it("should leave out the hidden paths from the validated schema", () => {
+        const schema = z.object({
+            name: z.string(),
+            password: z.string(),
+            tokens: z.array(z.object({ secret: z.string(), label: z.string() })),
+        });
+
+        assert.deepEqual(getHiddenExcludedPaths(schema, addHiddenProjection(undefined, hiddenFields), hiddenFields), [
+            "password",
+            "tokens.<idx>.secret",
+        ]);
+        assert.deepEqual(getHiddenExcludedPaths(schema, addHiddenProjection({ name: 1 }, hiddenFields), hiddenFields), [
+            "tokens",
+            "password",
+            "tokens.<idx>.secret",
+        ]);
+    });
+});
@@ -0,0 +1,60 @@
+import { assert } from "chai";
+import { diffIndexes, getIndexName, getIndexPaths } from "../../src/helpers/indexes.js";
+
+describe("helpers.indexes", () => {
+    const existing = [
+        { v: 2, key: { _id: 1 }, name: "_id_" },
+        { v: 2, key: { email: 1 }, name: "email_1", unique: true },
+        { v: 2, key: { createdAt: -1 }, name: "createdAt_-1", expireAfterSeconds: 3600 },
+        { v: 2, key: { name: 1 }, name: "name_1", collation: { locale: "en", strength: 2, caseLevel: false } },
+        { v: 2, key: { _fts: "text", _ftsx: 1 }, name: "bio_text", weights: { bio: 1 }, default_language: "english" },
+        { v: 2, key: { legacy: 1 }, name: "legacy_1" },
+    ];
+
+    it("should name indexes like MongoDB, and list their paths", () => {
+        assert.strictEqual(getIndexName({ key: { email: 1, "address.city": -1 } }), "email_1_address.city_-1");
+        assert.strictEqual(getIndexName({ key: { email: 1 }, name: "by_email" }), "by_email");
+        assert.deepEqual(getIndexPaths({ key: { "$**": 1 }, wildcardProjection: { "tags.name": 1 } }), ["tags.name"]);
+        assert.deepEqual(getIndexPaths({ key: { "address.$**": 1, name: 1 } }), ["address", "name"]);
+    });
+
+    it("should report the added, changed and extraneous indexes", () => {
+        const { added, changed, extraneous } = diffIndexes(
+            [
+                { key: { email: 1 }, unique: true },
+                { key: { createdAt: -1 }, expireAfterSeconds: 60 },
+                { key: { name: 1 }, collation: { locale: "en", strength: 2 } },
+                { key: { bio: "text" } },
+                { key: { age: 1 }, sparse: true },
+            ],
+            existing
+        );
+
+        assert.deepEqual(added, [{ key: { age: 1 }, sparse: true }]);
+        assert.deepEqual(changed, [{ key: { createdAt: -1 }, expireAfterSeconds: 60 }]);
+        assert.deepEqual(extraneous, ["legacy_1"]);
+    });
+
+    it("should detect changed keys and boolean options of indexes with the same name", () => {
+        const { changed } = diffIndexes([{ key: { email: 1 } }, { key: { legacy: -1 }, name: "legacy_1" }], existing);
+
+        assert.deepEqual(changed.map(getIndexName), ["email_1", "legacy_1"]);
+    });
+
+    it("should match the indexes by key when no existing index has their name", () => {
+        const { added, changed, replaced, extraneous } = diffIndexes(
+            [
+                { key: { email: 1 }, name: "email_unique", unique: true },
+                { key: { bio: "text", name: "text" }, name: "search" },
+                { key: { legacy: 1 }, name: "legacy_1" },
+                { key: { legacy: 1 }, name: "legacy_again" },
+            ],
+            existing
+        );
+
+        assert.deepEqual(changed.map(getIndexName), ["email_unique", "search"]);
+        assert.deepEqual(replaced, ["email_1", "bio_text"]);
+        assert.deepEqual(added.map(getIndexName), ["legacy_again"]);
+        assert.deepEqual(extraneous, ["createdAt_-1", "name_1"]);
+    });
+});
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ZodBinary } from "../../src/schemas/binary.js";
+import { ZodObjectId } from "../../src/schemas/objectId.js";
+import { ZodDecimal128 } from "../../src/schemas/decimal128.js";
+import { compileJsonSchema } from "../../src/helpers/jsonSchema.js";
+
+describe("helpers.compileJsonSchema", () => {
+    it("should compile objects, arrays and scalar checks", () => {
+        const schema = z.object({
+            name: z.string().min(1).max(50),
+            age: z.number().int().gte(0).optional(),
+            tags: z.array(z.string().regex(/^[a-z]+$/)).max(5),
+            profile: z.object({ bio: z.string().nullable() }).strict(),
+        });
+
+        const { jsonSchema, unsupported } = compileJsonSchema(schema);
+        assert.deepEqual(jsonSchema, {
+            bsonType: "object",
+            properties: {
+                name: { bsonType: "string", minLength: 1, maxLength: 50 },
+                age: { bsonType: "number", multipleOf: 1, minimum: 0, exclusiveMinimum: false },
+                tags: { bsonType: "array", items: { bsonType: "string", pattern: "^[a-z]+$" }, maxItems: 5 },
+                profile: {
+                    bsonType: "object",
+                    properties: { bio: { bsonType: ["string", "null"] } },
+                    required: ["bio"],
+                    additionalProperties: false,
+                },
+            },
+            required: ["name", "tags", "profile"],
+        });
+        assert.deepEqual(unsupported, []);
+    });
+
+    it("should compile BSON schemas, enums and unions", () => {
+        const schema = z.object({
+            _id: ZodObjectId,
+            price: ZodDecimal128,
+            file: ZodBinary.optional(),
+            status: z.enum(["active", "banned"]),
+            kind: z.literal(1).nullable(),
+            contact: z.union([z.string(), z.object({ email: z.string() })]),
+        });
+
+        const { jsonSchema } = compileJsonSchema(schema, { file: { bsonType: "binData", maxLength: 1 } });
+        assert.deepEqual(jsonSchema.properties, {
+            _id: { bsonType: "objectId" },
+            price: { bsonType: "decimal" },
+            file: { bsonType: "binData", maxLength: 1 },
+            status: { bsonType: "string", enum: ["active", "banned"] },
+            kind: { enum: [1, null] },
+            contact: {
+                anyOf: [
+                    { bsonType: "string" },
+                    { bsonType: "object", properties: { email: { bsonType: "string" } }, required: ["email"] },
+                ],
+            },
+        });
+    });
+
+    it("should report the constructs that cannot be expressed", () => {
+        const schema = z.object({
+            email: z.string().email(),
+            code: z.string().regex(/^a/i),
+            total: z.number().refine((value) => value % 2 === 0),
+            slug: z.string().transform((value) => value.toLowerCase()),
+            items: z.array(z.object({ ids: z.set(z.string()) })),
+        });
+
+        const { jsonSchema, unsupported } = compileJsonSchema(schema);
+        assert.deepEqual(jsonSchema.properties.slug, {});
+        assert.deepEqual(jsonSchema.properties.total, { bsonType: "number" });
+        assert.deepEqual(
+            unsupported.map((item) => item.path),
+            ["email", "code", "total", "slug", "items.<idx>.ids"]
+        );
+    });
+});
@@ -0,0 +1,72 @@
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import InvalidCursorTokenError from "../../src/errors/invalidCursorToken.js";
+import {
+    withIdTieBreaker,
+    buildKeysetFilter,
+    encodeCursorToken,
+    decodeCursorToken,
+    type SortEntries,
+} from "../../src/helpers/pagination.js";
+
+describe("helpers.pagination", () => {
+    const sort: SortEntries = [
+        ["age", -1],
+        ["_id", -1],
+    ];
+
+    /**
+     * Test the withIdTieBreaker function.
+     */
+    describe("withIdTieBreaker", () => {
+        it("should append `_id` with the direction of the last sort key", () => {
+            assert.deepEqual(withIdTieBreaker([["age", -1]]), sort);
+            assert.deepEqual(withIdTieBreaker([]), [["_id", 1]]);
+        });
+
+        it("should keep an existing `_id` sort key", () => {
+            assert.deepEqual(withIdTieBreaker([["_id", -1]]), [["_id", -1]]);
+        });
+    });
+
+    /**
+     * Test the encodeCursorToken and decodeCursorToken functions.
+     */
+    describe("cursor tokens", () => {
+        const doc = { _id: new ObjectId(), age: 30, name: "John" };
+
+        it("should round-trip the sort values of a document", () => {
+            const values = decodeCursorToken(encodeCursorToken(sort, doc, "secret"), sort, "secret");
+            assert.strictEqual(values[0], 30);
+            assert.instanceOf(values[1], ObjectId);
+            assert.isTrue((values[1] as ObjectId).equals(doc._id));
+        });
+
+        it("should reject tampered tokens", () => {
+            const [, signature] = encodeCursorToken(sort, doc, "secret").split(".");
+            const forged = encodeCursorToken(sort, { ...doc, age: 99 }, "secret").split(".")[0];
+
+            assert.throws(() => decodeCursorToken(`${forged}.${signature}`, sort, "secret"), InvalidCursorTokenError);
+            assert.throws(() => decodeCursorToken(encodeCursorToken(sort, doc, "other"), sort, "secret"), /signature/);
+            assert.throws(() => decodeCursorToken("garbage", sort, "secret"), /Malformed/);
+        });
+
+        it("should reject tokens created with a different sort", () => {
+            const token = encodeCursorToken(sort, doc, "secret");
+            assert.throws(() => decodeCursorToken(token, [["_id", -1]], "secret"), /Sort mismatch/);
+        });
+    });
+
+    /**
+     * Test the buildKeysetFilter function.
+     */
+    describe("buildKeysetFilter", () => {
+        it("should match the documents after the sort values", () => {
+            const id = new ObjectId();
+            assert.deepEqual(buildKeysetFilter(sort, [30, id]), {
+                $or: [{ age: { $lt: 30 } }, { age: 30, _id: { $lt: id } }],
+            });
+            assert.deepEqual(buildKeysetFilter([["_id", 1]], [id]), { $or: [{ _id: { $gt: id } }] });
+        });
+    });
+});
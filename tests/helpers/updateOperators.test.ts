@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { ZodObjectId } from "../../src/schemas/objectId.js";
+import { parseUpdateOperators, parseUpdatePaths, splitUpdate } from "../../src/helpers/updateOperators.js";
+
+describe("helpers.updateOperators", () => {
+    const schema = z.object({
+        name: z.string(),
+        nickname: z.string().optional(),
+        age: z.number().int().min(0).optional(),
+        score: z.number(),
+        address: z.object({ city: z.string(), zip: z.string().optional() }),
+        born: z.date().optional(),
+        roles: z.array(z.enum(["admin", "user"])),
+        friends: z.array(ZodObjectId),
+        items: z.array(z.object({ sku: z.string(), qty: z.number() })),
+    });
+
+    /**
+     * Test the splitUpdate function.
+     */
+    describe("splitUpdate", () => {
+        it("should split the fields to set, the key paths and the update operators", () => {
+            const { data, paths, operators } = splitUpdate({ name: "John", "address.city": "Paris", $inc: { age: 1 } });
+            assert.deepEqual(data, { name: "John" });
+            assert.deepEqual(paths, { "address.city": "Paris" });
+            assert.deepEqual(operators, { $inc: { age: 1 } });
+        });
+    });
+
+    /**
+     * Test the parseUpdatePaths function.
+     */
+    describe("parseUpdatePaths", () => {
+        it("should validate dot-notation and positional key paths", async () => {
+            const id = new ObjectId();
+            const { paths, issues } = await parseUpdatePaths(schema, {
+                "address.city": "Paris",
+                "address.zip": undefined,
+                "roles.$[role]": "admin",
+                "items.$.qty": 2,
+                "items.$[].sku": "A1",
+                "friends.0": id.toHexString(),
+            });
+
+            assert.isEmpty(issues);
+            assert.instanceOf(paths["friends.0"], ObjectId);
+        });
+
+        it("should reject invalid values, unknown paths and unsetting required fields", async () => {
+            const { issues } = await parseUpdatePaths(schema, {
+                "address.city": undefined,
+                "roles.$[role]": "guest",
+                "items.$.unknown": 1,
+                "name.first": "John",
+            });
+
+            assert.sameMembers(
+                issues.map((issue) => issue.path[0]),
+                ["address.city", "roles.$[role]", "items.$.unknown", "name.first"]
+            );
+        });
+    });
+
+    /**
+     * Test the parseUpdateOperators function.
+     */
+    describe("parseUpdateOperators", () => {
+        it("should accept valid operands and apply the field schema transforms", async () => {
+            const id = new ObjectId();
+            const { operators, issues } = await parseUpdateOperators(schema, {
+                $inc: { age: 1, "items.0.qty": 2.5, "items.$[item].qty": 1 },
+                $max: { score: 10 },
+                $push: { roles: "admin", items: { $each: [{ sku: "A1", qty: 1 }], $slice: -5, $sort: { qty: -1 } } },
+                $addToSet: { friends: id.toHexString() },
+                $pull: { items: { qty: { $lte: 0 } } },
+                $pop: { roles: 1 },
+                $rename: { nickname: "name" },
+                $currentDate: { born: true },
+            });
+
+            assert.isEmpty(issues);
+            assert.instanceOf(operators.$addToSet.friends, ObjectId);
+            assert.isTrue(operators.$addToSet.friends.equals(id));
+        });
+
+        it("should reject operands that do not match the field schema", async () => {
+            const { issues } = await parseUpdateOperators(schema, {
+                $inc: { age: 1.5, name: 1 },
+                $min: { age: -1 },
+                $push: { roles: "guest", items: { $each: [{ sku: "A1" }] } },
+                $pop: { name: 1 },
+                $currentDate: { name: true },
+            });
+
+            const paths = issues.map((issue) => issue.path.slice(0, 2).join(":"));
+            assert.sameMembers(paths, [
+                "$inc:age",
+                "$inc:name",
+                "$min:age",
+                "$push:roles",
+                "$push:items",
+                "$pop:name",
+                "$currentDate:name",
+            ]);
+        });
+
+        it("should reject renames that would invalidate the document", async () => {
+            const { issues } = await parseUpdateOperators(schema, {
+                $rename: { name: "nickname", nickname: "age" },
+            });
+
+            assert.lengthOf(issues, 2);
+        });
+
+        it("should reject unknown paths and unsupported operators", async () => {
+            const { issues } = await parseUpdateOperators(schema, { $inc: { unknown: 1 }, $bit: { age: { and: 1 } } });
+            assert.sameMembers(
+                issues.map((issue) => issue.message),
+                ["Unknown key path 'unknown'.", "Unsupported update operator '$bit'."]
+            );
+        });
+    });
+});
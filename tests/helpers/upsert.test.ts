@@ -0,0 +1,51 @@
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { buildUpsertDocument, getFilterEqualityFields, getInsertOnlyFields } from "../../src/helpers/upsert.js";
+
+describe("helpers.upsert", () => {
+    /**
+     * Test the getFilterEqualityFields function.
+     */
+    describe("getFilterEqualityFields", () => {
+        it("should extract the equality conditions of the filter", () => {
+            const id = new ObjectId();
+            const fields = getFilterEqualityFields({
+                _id: id,
+                name: "John",
+                age: { $gt: 18 },
+                "address.city": { $eq: "Paris" },
+                email: /@doe\.com$/,
+                $or: [{ role: "admin" }],
+                $and: [{ status: "active" }, { score: { $lt: 10 } }],
+            });
+
+            assert.deepEqual(fields, { _id: id, name: "John", "address.city": "Paris", status: "active" });
+        });
+    });
+
+    /**
+     * Test the buildUpsertDocument function.
+     */
+    describe("buildUpsertDocument", () => {
+        it("should merge the equality fields with the update fields and expand dot-notation paths", () => {
+            const doc = buildUpsertDocument(
+                { name: "John", "address.city": "Paris" },
+                { age: 30, "address.zip": "75001", "roles.$[role]": "admin" }
+            );
+
+            assert.deepEqual(doc, { name: "John", age: 30, address: { city: "Paris", zip: "75001" } });
+        });
+    });
+
+    /**
+     * Test the getInsertOnlyFields function.
+     */
+    describe("getInsertOnlyFields", () => {
+        it("should return the fields left untouched by the filter and the update", () => {
+            const doc = { name: "John", age: 0, roles: ["user"], address: { city: "Paris", country: "FR" } };
+            const fields = getInsertOnlyFields(doc, ["name", "address.city", "roles.$[role]"]);
+
+            assert.deepEqual(fields, { age: 0, "address.country": "FR" });
+        });
+    });
+});
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { assert } from "chai";
-import { ZodObjectId } from "../../src/schemas/objectid.js";
+import { ZodObjectId } from "../../src/schemas/objectId.js";
 import { DEFAULT_ARRAY_PLACEHOLDER } from "../../src/constants.js";
 import { validateSchema } from "../../src/helpers/validateSchema.js";
 import { assertErrorInstance } from "../utils/assertErrorInstance.js";
@@ -280,4 +280,44 @@ describe("helpers.validateSchema", () => {
             );
         });
     });
+
+    /**
+     * Validate discriminated unions
+     */
+    describe("validate discriminated unions", () => {
+        it("should not throw InvalidSchemaError when every option is valid", () => {
+            const schema = z.discriminatedUnion("kind", [
+                z.object({ kind: z.literal("click"), x: z.number() }),
+                z.object({ kind: z.literal("view"), url: z.string() }),
+            ]);
+            assert.doesNotThrow(() => validateSchema(schema, "test"));
+        });
+
+        it("should throw InvalidSchemaError with the invalid fields of every option, reported once", () => {
+            const schema = z.discriminatedUnion("kind", [
+                z.object({ _id: z.array(z.string()), kind: z.literal("click"), at: z.promise(z.date()) }),
+                z.object({ kind: z.literal("view"), at: z.promise(z.date()) }),
+            ]);
+            assertErrorInstance(
+                () => validateSchema(schema, "test"),
+                new InvalidSchemaError("test", [
+                    { path: "_id", reason: "The '_id' field must not be an 'ZodArray' type." },
+                    { path: "at", reason: `Schema type 'ZodPromise' is not allowed.` },
+                ])
+            );
+        });
+
+        it("should throw InvalidSchemaError when an option of a nested union is invalid", () => {
+            const schema = z.object({
+                _id: z.string(),
+                payload: z.union([z.object({ data: z.promise(z.string()) }), z.string()]),
+            });
+            assertErrorInstance(
+                () => validateSchema(schema, "test"),
+                new InvalidSchemaError("test", [
+                    { path: "payload.data", reason: `Schema type 'ZodPromise' is not allowed.` },
+                ])
+            );
+        });
+    });
 });
@@ -0,0 +1,82 @@
+import { assert } from "chai";
+import { HookRegistry } from "../../src/hooks.js";
+import OperationAbortedError from "../../src/errors/model/operationAborted.js";
+
+import type { HookContext } from "../../src/types.js";
+
+type User = { _id: number; name: string };
+
+function createContext(name: string): HookContext<User, "insertOne"> {
+    return { model: "users", operation: "insertOne", bulk: false, data: { _id: 1, name } };
+}
+
+describe("hooks.HookRegistry", () => {
+    it("should run pre hooks in registration order", async () => {
+        const registry = new HookRegistry<User>();
+        const calls: string[] = [];
+
+        registry.pre("insertOne", () => void calls.push("first"));
+        registry.pre("insertOne", () => void calls.push("second"));
+
+        await registry.runPre(createContext("John"));
+        assert.deepEqual(calls, ["first", "second"]);
+    });
+
+    it("should register a hook for multiple operations", async () => {
+        const registry = new HookRegistry<User>();
+        const operations: string[] = [];
+
+        registry.pre(["insertOne", "deleteOne"], (ctx) => void operations.push(ctx.operation));
+
+        await registry.runPre(createContext("John"));
+        await registry.runPre({ model: "users", operation: "deleteOne", bulk: false, filter: {} });
+        assert.deepEqual(operations, ["insertOne", "deleteOne"]);
+    });
+
+    it("should allow pre hooks to mutate the context data", async () => {
+        const registry = new HookRegistry<User>();
+        registry.pre("insertOne", (ctx) => {
+            ctx.data.name = ctx.data.name.toUpperCase();
+        });
+
+        const ctx = createContext("John");
+        await registry.runPre(ctx);
+        assert.equal(ctx.data.name, "JOHN");
+    });
+
+    it("should throw OperationAbortedError when a pre hook returns false", async () => {
+        const registry = new HookRegistry<User>();
+        let called = false;
+
+        registry.pre("insertOne", async () => false);
+        registry.pre("insertOne", () => void (called = true));
+
+        try {
+            await registry.runPre(createContext("John"));
+            assert.fail("expected runPre to throw an error, but it did not.");
+        } catch (err) {
+            assert.instanceOf(err, OperationAbortedError);
+            assert.isFalse(called);
+        }
+    });
+
+    it("should not run hooks registered for other operations", async () => {
+        const registry = new HookRegistry<User>();
+        let called = false;
+
+        registry.post("deleteMany", () => void (called = true));
+
+        await registry.runPost({ ...createContext("John"), bulk: false, result: { _id: 1, name: "John" } });
+        assert.isFalse(called);
+    });
+
+    it("should pass the result to post hooks", async () => {
+        const registry = new HookRegistry<User>();
+        let result: unknown;
+
+        registry.post("insertOne", (ctx) => void (result = ctx.result));
+
+        await registry.runPost({ ...createContext("John"), bulk: false, result: { _id: 1, name: "John" } });
+        assert.deepEqual(result, { _id: 1, name: "John" });
+    });
+});
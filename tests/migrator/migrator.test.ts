@@ -0,0 +1,162 @@
+import { assert } from "chai";
+import { Migrator } from "../../src/migrator.js";
+import MigrationLockedError from "../../src/errors/migrationLocked.js";
+import InvalidMigrationError from "../../src/errors/invalidMigration.js";
+import MigrationChecksumError from "../../src/errors/migrationChecksum.js";
+
+import type Mongooat from "../../src/mongooat.js";
+import type { Migration } from "../../src/types.js";
+
+/** Checks whether a document matches a filter of equalities, `$exists` and `$lt` conditions. */
+const matches = (doc: Record<string, any>, filter: Record<string, any>) =>
+    Object.entries(filter).every(([key, condition]) => {
+        if (condition?.$exists !== undefined) return key in doc === condition.$exists;
+        if (condition?.$lt !== undefined) return doc[key] < condition.$lt;
+        return doc[key] === condition;
+    });
+
+/** Creates a fake `Mongooat` instance storing the migrations collection in memory, recording the transactions. */
+function fakeMongooat(options: { replicaSet?: boolean; docs?: Record<string, any>[] } = {}) {
+    const docs: Record<string, any>[] = options.docs ?? [];
+    const log: string[] = [];
+    const collection = {
+        insertOne: async (doc: Record<string, any>) => {
+            if (doc._id && docs.some((item) => item._id === doc._id))
+                throw Object.assign(new Error("E11000 duplicate key error"), { code: 11000 });
+            docs.push({ ...doc });
+        },
+        find: (filter: Record<string, any>) => ({
+            toArray: async () => docs.filter((doc) => matches(doc, filter)).map(({ _id, ...doc }) => doc),
+        }),
+        findOne: async (filter: Record<string, any>) => docs.find((doc) => matches(doc, filter)) ?? null,
+        findOneAndUpdate: async (filter: Record<string, any>, update: { $set: Record<string, any> }) => {
+            const doc = docs.find((item) => matches(item, filter));
+            if (doc) Object.assign(doc, update.$set);
+            return doc ?? null;
+        },
+        deleteOne: async (filter: Record<string, any>) => {
+            const index = docs.findIndex((doc) => matches(doc, filter));
+            if (index >= 0) docs.splice(index, 1);
+        },
+    };
+    const db = {
+        collection: () => collection,
+        command: async () => (options.replicaSet ? { setName: "rs0" } : {}),
+    };
+    const mongooat = {
+        models: new Map(),
+        getDb: () => db,
+        transaction: async (fn: (session: any) => Promise<unknown>) => {
+            log.push("transaction");
+            return fn("session");
+        },
+    };
+    return { mongooat: mongooat as unknown as Mongooat, docs, log };
+}
+
+describe("Migrator", () => {
+    const createMigrations = (log: string[]): Migration[] => [
+        { version: "001", up: async () => void log.push("up 001"), down: async () => void log.push("down 001") },
+        {
+            version: "002",
+            up: async (ctx) => void log.push(`up 002 ${ctx.session}`),
+            down: async () => void log.push("down 002"),
+        },
+        { version: "003", up: async () => void log.push("up 003") },
+    ];
+
+    it("should apply the pending migrations in order and record them", async () => {
+        const { mongooat, docs, log } = fakeMongooat();
+        const migrator = new Migrator(mongooat, createMigrations(log));
+
+        assert.deepEqual(await migrator.migrate(), ["001", "002", "003"]);
+        assert.deepEqual(log, ["up 001", "up 002 undefined", "up 003"]);
+        assert.deepEqual(
+            docs.map((doc) => doc.version),
+            ["001", "002", "003"]
+        );
+        assert.deepEqual(await migrator.migrate(), []);
+        assert.deepEqual(
+            (await migrator.status()).map((item) => item.state),
+            ["applied", "applied", "applied"]
+        );
+    });
+
+    it("should run each migration inside a transaction when supported", async () => {
+        const { mongooat, log } = fakeMongooat({ replicaSet: true });
+        const migrations = createMigrations(log);
+        migrations[2].transaction = false;
+
+        await new Migrator(mongooat, migrations).migrate();
+        assert.deepEqual(log, ["transaction", "up 001", "transaction", "up 002 session", "up 003"]);
+    });
+
+    it("should roll back the last migrations, and reject migrations without down", async () => {
+        const { mongooat, log } = fakeMongooat();
+        const migrator = new Migrator(mongooat, createMigrations(log).slice(0, 2));
+        await migrator.migrate();
+
+        assert.deepEqual(await migrator.rollback(2), ["002", "001"]);
+        assert.deepEqual(log.slice(-2), ["down 002", "down 001"]);
+        assert.deepEqual(
+            (await migrator.status()).map((item) => item.state),
+            ["pending", "pending"]
+        );
+
+        const withoutDown = new Migrator(mongooat, createMigrations(log));
+        await withoutDown.migrate();
+        try {
+            await withoutDown.rollback();
+            assert.fail("Expected an InvalidMigrationError");
+        } catch (error) {
+            assert.instanceOf(error, InvalidMigrationError);
+        }
+    });
+
+    it("should report changed and missing migrations, and refuse to migrate changed ones", async () => {
+        const { mongooat, log } = fakeMongooat();
+        await new Migrator(mongooat, [...createMigrations(log), { version: "004", up: async () => {} }]).migrate();
+
+        const migrations = createMigrations(log);
+        migrations[0] = { ...migrations[0], up: async () => void log.push("changed") };
+        const migrator = new Migrator(mongooat, migrations);
+
+        assert.deepEqual(
+            (await migrator.status()).map((item) => [item.version, item.state]),
+            [
+                ["001", "changed"],
+                ["002", "applied"],
+                ["003", "applied"],
+                ["004", "missing"],
+            ]
+        );
+        try {
+            await migrator.migrate();
+            assert.fail("Expected a MigrationChecksumError");
+        } catch (error) {
+            assert.instanceOf(error, MigrationChecksumError);
+        }
+    });
+
+    it("should not run while another process holds the lock, unless the lock expired", async () => {
+        const lock = { _id: "lock", lockedAt: new Date() };
+        const { mongooat, docs, log } = fakeMongooat({ docs: [lock] });
+
+        try {
+            await new Migrator(mongooat, createMigrations(log)).migrate();
+            assert.fail("Expected a MigrationLockedError");
+        } catch (error) {
+            assert.instanceOf(error, MigrationLockedError);
+        }
+        assert.lengthOf(log, 0);
+
+        lock.lockedAt = new Date(Date.now() - 60_000);
+        assert.lengthOf(await new Migrator(mongooat, createMigrations(log), { lockTimeout: 1000 }).migrate(), 3);
+        assert.isUndefined(docs.find((doc) => doc._id === "lock"));
+    });
+
+    it("should reject duplicate versions", () => {
+        const migration = { version: "001", up: async () => {} };
+        assert.throws(() => new Migrator(fakeMongooat().mongooat, [migration, migration]), InvalidMigrationError);
+    });
+});
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import { ZodObjectId } from "../../src/schemas/objectId.js";
+import ValidateError from "../../src/errors/validateError.js";
+import InvalidDiscriminatorError from "../../src/errors/model/invalidDiscriminator.js";
+
+import { fakeChangeStream, fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+import type { Db, WithId } from "mongodb";
+import type { ModelOptions } from "../../src/options/modelOptions.js";
+
+/** Creates a fake collection returning the documents, recording the filters and writes it receives. */
+function fakeStore(docs: Record<string, any>[] = []) {
+    return fakeCollection({
+        find: () => fakeCursor(docs),
+        countDocuments: async () => docs.length,
+        deleteMany: async () => ({ acknowledged: true, deletedCount: docs.length }),
+        insertOne: async (doc: any) => ({ acknowledged: true, insertedId: doc._id }),
+        aggregate: () => fakeCursor([]),
+        watch: () => fakeChangeStream([]),
+    });
+}
+
+describe("model.discriminator", () => {
+    const base = z.object({ at: z.date(), sessionId: ZodObjectId.optional() });
+    const schema = z.discriminatedUnion("kind", [
+        base.extend({ kind: z.literal("click"), x: z.number(), y: z.number() }),
+        base.extend({ kind: z.literal("view"), url: z.string() }),
+    ]);
+    const at = new Date("2024-06-01T00:00:00Z");
+
+    type Event = WithId<z.infer<typeof schema>>;
+    type EventShape = (typeof schema.options)[number]["shape"];
+    const createModel = (db: Db, options: ModelOptions<Event> = {}) =>
+        new Model<Event, EventShape, {}, {}, "kind">("events", schema, db, options);
+
+    it("should validate inserts against the option of their discriminator value", async () => {
+        const { db, calls } = fakeStore();
+        const model = createModel(db);
+
+        const event = await model.insertOne({ kind: "view", url: "/home", at });
+        assert.deepEqual(calls[0].args[0], { kind: "view", url: "/home", at, _id: event._id });
+
+        for (const data of [
+            { kind: "view", x: 1, y: 2, at },
+            { kind: "scroll", at },
+        ])
+            try {
+                await model.insertOne(data as any);
+                assert.fail("Expected a ValidateError.");
+            } catch (error) {
+                assert.instanceOf(error, ValidateError);
+            }
+    });
+
+    it("should resolve filter paths with the merged schema of the options", async () => {
+        const { db, calls } = fakeStore();
+        const model = createModel(db, { strictFilter: true, indexes: [{ key: { url: 1 } }] });
+        const sessionId = new ObjectId();
+
+        await model.find({ sessionId: sessionId.toHexString(), x: { $gt: 5 } });
+        assert.deepEqual(calls[0].args[0], { sessionId, x: { $gt: 5 } });
+        assert.hasAllKeys(model.schema.shape, ["at", "sessionId", "kind", "x", "y", "url"]);
+    });
+
+    it("should return the documents read with the option of their discriminator value", async () => {
+        const click = { _id: new ObjectId(), kind: "click", x: 1, y: 2, at };
+        const view = { _id: new ObjectId(), kind: "view", url: "/home", at };
+        const { db } = fakeStore([click, view]);
+
+        assert.deepEqual(await createModel(db, { checkOnGet: true }).find(), [click, view] as any);
+
+        const invalid = fakeStore([{ ...click, kind: "view" }]).db;
+        try {
+            await createModel(invalid, { checkOnGet: true }).find();
+            assert.fail("Expected a ValidateError.");
+        } catch (error) {
+            assert.instanceOf(error, ValidateError);
+        }
+    });
+
+    it("should add the discriminator value to the filters of sub-models", async () => {
+        const { db, calls } = fakeStore();
+        const clicks = createModel(db).discriminator("click");
+
+        await clicks.find({ x: { $gt: 5 } });
+        await clicks.countDocuments();
+        await clicks.deleteMany({ kind: "click", x: 1 });
+        clicks.aggregate([{ $group: { _id: "$x" } }]);
+
+        assert.deepEqual(calls[0].args[0], { x: { $gt: 5 }, kind: "click" });
+        assert.deepEqual(calls[1].args[0], { kind: "click" });
+        assert.deepEqual(calls[2].args[0], { $and: [{ kind: "click", x: 1 }, { kind: "click" }] });
+        assert.deepEqual(calls[3].args[0], [{ $match: { kind: "click" } }, { $group: { _id: "$x" } }]);
+    });
+
+    it("should estimate the count of sub-models with all the documents of their discriminator value", async () => {
+        const { db, calls } = fakeStore([{ kind: "click" }]);
+        const clicks = createModel(db, { softDelete: true }).discriminator("click");
+
+        assert.strictEqual(await clicks.estimatedDocumentCount(), 1);
+        assert.deepEqual(calls[0].args[0], { kind: "click" });
+    });
+
+    it("should restrict the change streams of sub-models to the events of their discriminator value", async () => {
+        const { db, calls } = fakeStore();
+        const model = createModel(db);
+
+        await model.watch([{ $match: { operationType: "insert" } }]).next();
+        await model
+            .discriminator("click")
+            .watch([{ $match: { operationType: "insert" } }])
+            .next();
+
+        assert.deepEqual(calls[0].args[0], [{ $match: { operationType: "insert" } }]);
+        assert.deepEqual(calls[1].args[0], [
+            { $match: { "fullDocument.kind": "click" } },
+            { $match: { operationType: "insert" } },
+        ]);
+    });
+
+    it("should default the discriminator of sub-model inserts, and validate them against the option", async () => {
+        const { db, calls } = fakeStore();
+        const clicks = createModel(db).discriminator("click");
+
+        const click = await clicks.insertOne({ x: 1, y: 2, at });
+        assert.deepEqual(calls[0].args[0], { x: 1, y: 2, at, kind: "click", _id: click._id });
+
+        try {
+            await clicks.insertOne({ url: "/home", at } as any);
+            assert.fail("Expected a ValidateError.");
+        } catch (error) {
+            assert.instanceOf(error, ValidateError);
+        }
+    });
+
+    it("should cache sub-models, and throw InvalidDiscriminatorError for invalid values", () => {
+        const { db } = fakeStore();
+        const model = createModel(db);
+        assert.strictEqual(model.discriminator("click"), model.discriminator("click"));
+
+        assert.throws(() => model.discriminator("scroll" as any), InvalidDiscriminatorError);
+        assert.throws(
+            () => new Model("users", z.object({ name: z.string() }), db).discriminator("x" as never),
+            InvalidDiscriminatorError
+        );
+    });
+});
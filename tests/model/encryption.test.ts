@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { BSON, ObjectId } from "mongodb";
+import { randomBytes } from "node:crypto";
+import { Model } from "../../src/model.js";
+import { LocalKeyProvider } from "../../src/keyProvider.js";
+import { getEncryptionInfo } from "../../src/helpers/encryption.js";
+import ValidateError from "../../src/errors/validateError.js";
+import MissingKeyProviderError from "../../src/errors/model/missingKeyProvider.js";
+
+import { fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection storing the inserted documents, recording the filters and updates. */
+function fakeStore() {
+    const docs: Record<string, any>[] = [];
+    const { db, calls } = fakeCollection({
+        insertOne: async (doc: any) => {
+            docs.push({ _id: new ObjectId(), ...doc });
+            return { acknowledged: true, insertedId: docs[docs.length - 1]._id };
+        },
+        find: () => fakeCursor(docs),
+        updateOne: async () => ({ acknowledged: true, matchedCount: 1, modifiedCount: 1 }),
+        findOneAndUpdate: async (_filter: unknown, update: any) => ({
+            ok: 1,
+            value: update.$setOnInsert,
+            lastErrorObject: { updatedExisting: false },
+        }),
+        bulkWrite: async (operations: any[]) => ({ modifiedCount: operations.length }),
+    });
+    return { db, docs, calls };
+}
+
+describe("model.encryption", () => {
+    const schema = z.object({ name: z.string(), ssn: z.string(), address: z.object({ street: z.string() }) });
+    const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+
+    it("should encrypt fields on write and decrypt them on read", async () => {
+        const { db, docs } = fakeStore();
+        const keyProvider = new LocalKeyProvider(keys);
+        const model = new Model("users", schema, db, {
+            encryptedFields: ["ssn", "address.street"],
+            encryption: { keyProvider },
+        });
+
+        const inserted = await model.insertOne({ name: "John", ssn: "123-45-6789", address: { street: "1 Main St" } });
+        assert.strictEqual(inserted.ssn, "123-45-6789");
+        assert.instanceOf(docs[0].ssn, BSON.Binary);
+        assert.instanceOf(docs[0].address.street, BSON.Binary);
+
+        const [found] = await model.find();
+        assert.deepEqual(
+            { ...found, _id: undefined },
+            {
+                _id: undefined,
+                name: "John",
+                ssn: "123-45-6789",
+                address: { street: "1 Main St" },
+            }
+        );
+    });
+
+    it("should match deterministic fields with every key, and encrypt updates", async () => {
+        const { db, calls } = fakeStore();
+        const keyProvider = new LocalKeyProvider(keys);
+        const model = new Model("users", schema, db, {
+            encryptedFields: ["address.street"],
+            encryption: { keyProvider, deterministicFields: ["ssn"] },
+        });
+
+        await model.updateOne({ ssn: "123-45-6789" }, { "address.street": "2 Main St" });
+        const [filter, update] = calls[0].args;
+        assert.deepEqual(
+            filter.ssn.$in.map((value: BSON.Binary) => getEncryptionInfo(value)),
+            ["k1", "k2"].map((keyId) => ({ keyId, deterministic: true }))
+        );
+        assert.deepEqual(getEncryptionInfo(update.$set["address.street"]), { keyId: "k2", deterministic: false });
+
+        try {
+            await model.updateOne({}, { $push: { address: { street: "3 Main St" } } } as any);
+            assert.fail("Expected a ValidateError");
+        } catch (err) {
+            assert.instanceOf(err, ValidateError);
+        }
+    });
+
+    it("should seed upserts with the values of deterministic fields matched with every key", async () => {
+        const { db, calls } = fakeStore();
+        const keyProvider = new LocalKeyProvider(keys);
+        const model = new Model("users", schema, db, {
+            encryption: { keyProvider, deterministicFields: ["ssn"] },
+        });
+
+        await model.updateOne(
+            { ssn: "123-45-6789" },
+            { name: "John", address: { street: "1 Main St" } },
+            { upsert: true }
+        );
+        const [filter, update] = calls[0].args;
+        assert.lengthOf(filter.ssn.$in, 2);
+        assert.deepEqual(getEncryptionInfo(update.$setOnInsert.ssn), { keyId: "k2", deterministic: true });
+
+        const { document } = await model.findOrCreate(
+            { ssn: "123-45-6789" },
+            { name: "John", address: { street: "1 Main St" } }
+        );
+        assert.strictEqual(document.ssn, "123-45-6789");
+        assert.deepEqual(getEncryptionInfo(calls[1].args[1].$setOnInsert.ssn), { keyId: "k2", deterministic: true });
+    });
+
+    it("should re-encrypt the values of previous keys", async () => {
+        const { db, docs, calls } = fakeStore();
+        const options = { encryptedFields: ["ssn" as const, "address.street" as const] };
+        const previous = new Model("users", schema, db, {
+            ...options,
+            encryption: { keyProvider: new LocalKeyProvider(keys, "k1") },
+        });
+        await previous.insertOne({ name: "John", ssn: "123-45-6789", address: { street: "1 Main St" } });
+
+        const model = new Model("users", schema, db, {
+            ...options,
+            encryption: { keyProvider: new LocalKeyProvider(keys, "k2") },
+        });
+        assert.strictEqual(await model.rotateEncryptionKey(), 1);
+
+        const [[{ updateOne }]] = calls.find((call) => call.method === "bulkWrite")!.args;
+        assert.deepEqual(updateOne.filter, { _id: docs[0]._id, ssn: docs[0].ssn, address: docs[0].address });
+        assert.strictEqual(getEncryptionInfo(updateOne.update.$set.ssn).keyId, "k2");
+        assert.strictEqual(getEncryptionInfo(updateOne.update.$set.address.street).keyId, "k2");
+    });
+
+    it("should require a key provider for encrypted fields", () => {
+        assert.throws(
+            () => new Model("users", schema, fakeStore().db, { encryptedFields: ["ssn"] }),
+            MissingKeyProviderError
+        );
+    });
+});
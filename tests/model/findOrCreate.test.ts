@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+
+import { fakeCollection } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection whose `findOneAndUpdate()` finds the document, or upserts it when none is provided. */
+function fakeStore(found: Record<string, any> | null) {
+    return fakeCollection({
+        findOneAndUpdate: async (_filter: unknown, update: any) => ({
+            ok: 1,
+            value: found ?? update.$setOnInsert,
+            lastErrorObject: { updatedExisting: !!found },
+        }),
+    });
+}
+
+describe("model.findOrCreate", () => {
+    const schema = z.object({ email: z.string(), name: z.string() });
+
+    it("should create the document from the filter equality fields and the data", async () => {
+        const { db, calls } = fakeStore(null);
+        const model = new Model("users", schema, db);
+
+        const { document, created } = await model.findOrCreate({ email: "john@doe.com" }, { name: "John" });
+        assert.isTrue(created);
+        assert.deepInclude(document, { email: "john@doe.com", name: "John" });
+
+        const [filter, update, options] = calls[0].args;
+        assert.deepEqual(filter, { email: "john@doe.com" });
+        assert.deepInclude(update.$setOnInsert, { email: "john@doe.com", name: "John" });
+        assert.instanceOf(update.$setOnInsert._id, ObjectId);
+        assert.include(options, { upsert: true, returnDocument: "after", includeResultMetadata: true });
+    });
+
+    it("should ignore soft-deleted documents", async () => {
+        const { db, calls } = fakeStore(null);
+        const model = new Model("users", schema, db, { softDelete: true });
+
+        await model.findOrCreate({ email: "john@doe.com" }, { name: "John" });
+        assert.deepEqual(calls[0].args[0], { email: "john@doe.com", deletedAt: null });
+        assert.notProperty(calls[0].args[1].$setOnInsert, "deletedAt");
+    });
+
+    it("should pass the parsed document to create to the pre hooks", async () => {
+        const { db, calls } = fakeStore(null);
+        const model = new Model("users", schema.extend({ role: z.string().default("user") }), db, {
+            timestamps: true,
+        });
+        const documents: Record<string, unknown>[] = [];
+
+        model.pre("findOneAndUpdate", (ctx) => {
+            documents.push({ ...ctx.data });
+            ctx.data.name = "Jane";
+        });
+
+        await model.findOrCreate({ email: "john@doe.com" }, { name: "John" });
+        assert.deepInclude(documents[0], { email: "john@doe.com", name: "John", role: "user" });
+        assert.instanceOf(documents[0]._id, ObjectId);
+        assert.instanceOf(documents[0].createdAt, Date);
+        assert.strictEqual(calls[0].args[1].$setOnInsert.name, "Jane");
+    });
+
+    it("should run the findOneAndUpdate pre and post hooks", async () => {
+        const found = { _id: new ObjectId(), email: "john@doe.com", name: "John" };
+        const { db, calls } = fakeStore(found);
+        const model = new Model("users", schema, db);
+        const operations: string[] = [];
+
+        model.pre("findOneAndUpdate", (ctx) => {
+            operations.push(`pre:${ctx.operation}`);
+            ctx.filter = { ...ctx.filter, name: "John" };
+        });
+        model.post("findOneAndUpdate", (ctx) => {
+            operations.push(`post:${ctx.operation}`);
+            assert.deepEqual((ctx.result as any).value, found);
+        });
+
+        const { document, created } = await model.findOrCreate({ email: "john@doe.com" }, { name: "Jane" });
+        assert.isFalse(created);
+        assert.deepEqual(document, found);
+        assert.deepEqual(operations, ["pre:findOneAndUpdate", "post:findOneAndUpdate"]);
+        assert.deepEqual(calls[0].args[0], { email: "john@doe.com", name: "John" });
+    });
+});
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+
+import { cloneDocument, fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection returning the document, recording the options and pipelines it receives. */
+function fakeStore(doc: Record<string, any>) {
+    return fakeCollection({
+        find: () => fakeCursor([doc]),
+        findOneAndUpdate: async () => cloneDocument(doc),
+        aggregate: () => fakeCursor([]),
+    });
+}
+
+describe("model.hiddenFields", () => {
+    const schema = z.object({ name: z.string(), password: z.string(), profile: z.object({ token: z.string() }) });
+    const doc = { _id: new ObjectId(), name: "John", password: "hash", profile: { token: "t0k3n" } };
+    const options = { checkOnGet: true, hiddenFields: ["password" as const, "profile.token" as const] };
+
+    it("should exclude the hidden fields with the find projection, and validate without them", async () => {
+        const { db, calls } = fakeStore({ _id: doc._id, name: "John", profile: {} });
+        const model = new Model("users", schema, db, options);
+
+        const [user] = await model.find();
+        assert.deepEqual(calls[0].args[1].projection, { password: 0, "profile.token": 0 });
+        assert.deepEqual(user, { _id: doc._id, name: "John", profile: {} } as any);
+    });
+
+    it("should remove the hidden fields nested in included fields", async () => {
+        const { db, calls } = fakeStore({ _id: doc._id, profile: { token: "t0k3n" } });
+        const model = new Model("users", schema, db, options);
+
+        const [user] = await model.find({}, { projection: { profile: 1, password: 1 } });
+        assert.deepEqual(calls[0].args[1].projection, { profile: 1 });
+        assert.deepEqual(user, { _id: doc._id, profile: {} } as any);
+    });
+
+    it("should return the hidden fields with includeHidden", async () => {
+        const { db, calls } = fakeStore(doc);
+        const model = new Model("users", schema, db, options);
+
+        const [user] = await model.find({}, { includeHidden: true });
+        const updated = await model.findOneAndUpdate({ _id: doc._id }, { name: "Jane" }, { includeHidden: true });
+
+        assert.isUndefined(calls[0].args[1].projection);
+        assert.notProperty(calls[0].args[1], "includeHidden");
+        assert.deepEqual(user, doc);
+        assert.deepEqual(updated, doc);
+    });
+
+    it("should exclude the hidden fields from findOneAnd* and aggregate", async () => {
+        const { db, calls } = fakeStore(doc);
+        const model = new Model("users", schema, db, { ...options, softDelete: true });
+
+        const updated = await model.findOneAndUpdate({ _id: doc._id }, { name: "Jane" });
+        model.aggregate([{ $match: { password: "hash" } }, { $group: { _id: "$name" } }]);
+
+        assert.deepEqual(calls[0].args[2].projection, { password: 0, "profile.token": 0 });
+        assert.deepEqual(updated, { _id: doc._id, name: "John", profile: {} } as any);
+        assert.deepEqual(calls[1].args[0], [
+            { $match: { deletedAt: null } },
+            { $match: { password: "hash" } },
+            { $project: { password: 0, "profile.token": 0 } },
+            { $group: { _id: "$name" } },
+        ]);
+    });
+});
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import OperationAbortedError from "../../src/errors/model/operationAborted.js";
+
+import { fakeCollection } from "../utils/fakeCollection.js";
+
+import type { BulkWriteResult, Db, WithId } from "mongodb";
+
+/** Creates a fake collection acknowledging the writes it receives. */
+function fakeStore() {
+    const result = { acknowledged: true, matchedCount: 1, modifiedCount: 1, upsertedCount: 0, upsertedId: null };
+    return fakeCollection({
+        insertOne: async (doc: any) => ({ acknowledged: true, insertedId: doc._id }),
+        updateOne: async () => result,
+        deleteOne: async () => ({ acknowledged: true, deletedCount: 1 }),
+        bulkWrite: async (writes: unknown[]) => ({ insertedCount: writes.length }),
+    });
+}
+
+describe("model.hooks", () => {
+    const schema = z.object({ name: z.string(), email: z.string() });
+    const createModel = (db: Db) => new Model<WithId<z.infer<typeof schema>>, typeof schema.shape>("users", schema, db);
+
+    it("should run the hooks of inserts, with the data mutated by the pre hooks", async () => {
+        const { db, calls } = fakeStore();
+        const model = createModel(db);
+        const results: unknown[] = [];
+
+        model.pre("insertOne", (ctx) => {
+            ctx.data.email = ctx.data.email.toLowerCase();
+        });
+        model.post("insertOne", (ctx) => void results.push(ctx.result));
+
+        const user = await model.insertOne({ name: "John", email: "JOHN@DOE.COM" });
+        assert.strictEqual(calls[0].args[0].email, "john@doe.com");
+        assert.deepEqual(results, [user]);
+    });
+
+    it("should run the hooks of updates and deletes, with the filter mutated by the pre hooks", async () => {
+        const { db, calls } = fakeStore();
+        const model = createModel(db);
+        const operations: string[] = [];
+
+        model.pre(["updateOne", "deleteOne"], (ctx) => {
+            operations.push(`pre:${ctx.operation}`);
+            ctx.filter = { ...ctx.filter, email: "john@doe.com" };
+        });
+        model.post(["updateOne", "deleteOne"], (ctx) => void operations.push(`post:${ctx.operation}`));
+
+        await model.updateOne({ name: "John" }, { name: "Jane" });
+        await model.deleteOne({ name: "Jane" });
+
+        assert.deepEqual(operations, ["pre:updateOne", "post:updateOne", "pre:deleteOne", "post:deleteOne"]);
+        assert.deepEqual(calls[0].args[0], { name: "John", email: "john@doe.com" });
+        assert.deepEqual(calls[1].args[0], { name: "Jane", email: "john@doe.com" });
+    });
+
+    it("should throw OperationAbortedError when a pre hook returns false, without writing", async () => {
+        const { db, calls } = fakeStore();
+        const model = createModel(db).pre("deleteOne", () => false);
+
+        try {
+            await model.deleteOne({ name: "John" });
+            assert.fail("Expected an OperationAbortedError.");
+        } catch (error) {
+            assert.instanceOf(error, OperationAbortedError);
+        }
+        assert.isEmpty(calls);
+    });
+
+    it("should run the hooks of bulk operations, and report the aborted ones", async () => {
+        const { db, calls } = fakeStore();
+        const model = createModel(db);
+        const contexts: { operation: string; bulk: boolean; result: unknown }[] = [];
+
+        model.pre("insertOne", (ctx) => ctx.data.name !== "Aborted");
+        model.post(
+            ["insertOne", "deleteOne"],
+            ({ operation, bulk, result }) => void contexts.push({ operation, bulk, result })
+        );
+
+        const { result, validateErrors } = await model.bulkWrite([
+            { insertOne: { document: { name: "John", email: "john@doe.com" } } },
+            { insertOne: { document: { name: "Aborted", email: "aborted@doe.com" } } },
+            { deleteOne: { filter: { _id: new ObjectId() } } },
+        ]);
+
+        assert.lengthOf(calls[0].args[0], 2);
+        assert.deepEqual(result, { insertedCount: 2 } as unknown as BulkWriteResult);
+        assert.deepEqual(
+            validateErrors.map(({ index, error }) => [index, error.constructor]),
+            [[1, OperationAbortedError]]
+        );
+        assert.deepEqual(contexts, [
+            { operation: "insertOne", bulk: true, result },
+            { operation: "deleteOne", bulk: true, result },
+        ]);
+    });
+
+    it("should return an empty result without writing when no bulk operation is left", async () => {
+        const { db, calls } = fakeStore();
+        const model = createModel(db).pre("insertOne", () => false);
+
+        const empty = await model.bulkWrite([]);
+        const aborted = await model.bulkWrite([{ insertOne: { document: { name: "John", email: "john@doe.com" } } }]);
+
+        assert.isEmpty(calls);
+        for (const { result } of [empty, aborted]) {
+            assert.include(result, { ok: 1, insertedCount: 0, matchedCount: 0, modifiedCount: 0, deletedCount: 0 });
+            assert.isFalse(result.hasWriteErrors());
+        }
+        assert.lengthOf(aborted.validateErrors, 1);
+    });
+});
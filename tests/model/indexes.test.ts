@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { Model } from "../../src/model.js";
+import InvalidIndexPathError from "../../src/errors/model/invalidIndexPath.js";
+
+import { fakeCollection } from "../utils/fakeCollection.js";
+
+import type { FakeCall } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection holding the specified indexes, recording the index operations. */
+function fakeIndexes(indexes: Record<string, any>[] | null) {
+    return fakeCollection({
+        listIndexes: () => ({
+            toArray: async () => {
+                if (!indexes) throw Object.assign(new Error("ns does not exist"), { codeName: "NamespaceNotFound" });
+                return indexes;
+            },
+        }),
+        dropIndex: async () => ({}),
+        createIndexes: async () => [],
+    });
+}
+
+/** Leaves out the listing of the indexes from the recorded calls. */
+const indexWrites = (calls: FakeCall[]) => calls.filter((call) => call.method !== "listIndexes");
+
+describe("model.syncIndexes", () => {
+    const schema = z.object({ email: z.string(), age: z.number(), tags: z.array(z.object({ name: z.string() })) });
+    const existing = [
+        { v: 2, key: { _id: 1 }, name: "_id_" },
+        { v: 2, key: { email: 1 }, name: "email_1" },
+        { v: 2, key: { legacy: 1 }, name: "legacy_1" },
+    ];
+    const indexes = [{ key: { email: 1 as const }, unique: true }, { key: { "tags.name": 1 as const } }];
+
+    it("should recreate changed indexes, create added ones and drop extraneous ones", async () => {
+        const { db, calls } = fakeIndexes(existing);
+        const model = new Model("users", schema, db, { indexes });
+
+        const result = await model.syncIndexes({ dropExtraneous: true });
+        assert.deepEqual(result, {
+            added: ["tags.name_1"],
+            changed: ["email_1"],
+            dropped: ["legacy_1"],
+            extraneous: [],
+        });
+        assert.deepEqual(indexWrites(calls), [
+            { method: "dropIndex", args: ["email_1"] },
+            { method: "dropIndex", args: ["legacy_1"] },
+            { method: "createIndexes", args: [[indexes[0], indexes[1]]] },
+        ]);
+    });
+
+    it("should rename the existing indexes matching the key of a declared index", async () => {
+        const { db, calls } = fakeIndexes(existing);
+        const renamed = [{ key: { email: 1 as const }, name: "email_unique", unique: true }];
+        const model = new Model("users", schema, db, { indexes: renamed });
+
+        const result = await model.syncIndexes();
+        assert.deepEqual(result, { added: [], changed: ["email_unique"], dropped: [], extraneous: ["legacy_1"] });
+        assert.deepEqual(indexWrites(calls), [
+            { method: "dropIndex", args: ["email_1"] },
+            { method: "createIndexes", args: [renamed] },
+        ]);
+    });
+
+    it("should only report the differences in dry-run mode, and create the indexes of a new collection", async () => {
+        const { db, calls } = fakeIndexes(existing);
+        const model = new Model("users", schema, db, { indexes });
+
+        const result = await model.syncIndexes({ dryRun: true });
+        assert.deepEqual(result.extraneous, ["legacy_1"]);
+        assert.lengthOf(indexWrites(calls), 0);
+
+        const created = fakeIndexes(null);
+        const newModel = new Model("users", schema, created.db, { indexes });
+        assert.deepEqual((await newModel.syncIndexes()).added, ["email_1", "tags.name_1"]);
+        assert.deepEqual(indexWrites(created.calls), [{ method: "createIndexes", args: [indexes] }]);
+    });
+
+    it("should reject index paths that do not exist in the schema", async () => {
+        const { db } = fakeIndexes(existing);
+        const invalid = [{ key: { emial: 1 } }] as any;
+
+        assert.throws(() => new Model("users", schema, db, { indexes: invalid }), InvalidIndexPathError);
+        assert.doesNotThrow(() => new Model("users", schema, db, { indexes: [{ key: { "tags.$**": 1 } }] }));
+
+        const model = new Model("users", schema, db);
+        assert.throws(() => model.createIndexes(invalid), InvalidIndexPathError);
+        assert.throws(
+            () => model.createIndex({ age: 1 }, { wildcardProjection: { nope: 1 } as any }),
+            InvalidIndexPathError
+        );
+    });
+});
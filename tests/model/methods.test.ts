@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import MethodExistedError from "../../src/errors/methodExisted.js";
+import MethodNotFoundError from "../../src/errors/methodNotFound.js";
+
+import { fakeCollection } from "../utils/fakeCollection.js";
+
+import type { Db, WithId } from "mongodb";
+import type { ModelOptions } from "../../src/options/modelOptions.js";
+
+describe("model.methods", () => {
+    const schema = z.object({ firstName: z.string(), lastName: z.string(), email: z.string() });
+    const john = { _id: new ObjectId(), firstName: "John", lastName: "Doe", email: "john@doe.com" };
+
+    type User = WithId<z.infer<typeof schema>>;
+    const statics = {
+        findByEmail(this: Model<User, typeof schema.shape>, email: string) {
+            return this.findOne({ email });
+        },
+    };
+    const methods = {
+        fullName(this: Model<User, typeof schema.shape>, user: User, separator: string = " ") {
+            return `${user.firstName}${separator}${user.lastName} (${this.name})`;
+        },
+    };
+    const createModel = (db: Db, options: ModelOptions<User, any, any> = { statics, methods }) =>
+        new Model<User, typeof schema.shape, typeof statics, typeof methods>("users", schema, db, options);
+
+    it("should attach the statics to the model, bound to it", async () => {
+        const { db, calls } = fakeCollection({ findOne: async () => john });
+        const model = createModel(db) as ReturnType<typeof createModel> & typeof statics;
+
+        const findByEmail = model.findByEmail as OmitThisParameter<typeof statics.findByEmail>;
+        assert.deepEqual(await findByEmail("john@doe.com"), john);
+        assert.deepEqual(calls[0].args[0], { email: "john@doe.com" });
+        assert.notInclude(Object.keys(model), "findByEmail");
+    });
+
+    it("should bind the methods to hydrated documents, without persisting them", () => {
+        const model = createModel(fakeCollection().db);
+
+        const user = model.hydrate({ ...john });
+        const { fullName } = user;
+        assert.strictEqual(fullName(), "John Doe (users)");
+        assert.strictEqual(user.fullName("_"), "John_Doe (users)");
+        assert.strictEqual(model.methods.fullName.call(model, john), "John Doe (users)");
+        assert.deepEqual(Object.keys(user), Object.keys(john));
+    });
+
+    it("should call the statics and methods by name, and throw MethodNotFoundError for unknown ones", async () => {
+        const { db } = fakeCollection({ findOne: async () => john });
+        const model = createModel(db);
+
+        assert.deepEqual(await model.call("findByEmail", "john@doe.com"), john);
+        assert.strictEqual(model.call("fullName", john, ", "), "John, Doe (users)");
+        assert.throws(() => model.call("unknown"), MethodNotFoundError);
+        assert.throws(() => model.call("toString"), MethodNotFoundError);
+    });
+
+    it("should throw MethodExistedError for names used by built-in members, other methods or fields", () => {
+        const { db } = fakeCollection();
+        const noop = () => undefined;
+
+        for (const options of [
+            { statics: { find: noop } },
+            { statics: { name: noop } },
+            { statics: { fullName: noop }, methods: { fullName: noop } },
+            { methods: { email: noop } },
+            { methods: { _id: noop } },
+            { methods: { toString: noop } },
+            { methods: { createdAt: noop }, timestamps: true },
+        ])
+            assert.throws(() => createModel(db, options), MethodExistedError);
+    });
+});
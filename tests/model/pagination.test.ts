@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import { decodeCursorToken } from "../../src/helpers/pagination.js";
+
+import { fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+import type { Db, WithId } from "mongodb";
+
+describe("model.pagination", () => {
+    const schema = z.object({ name: z.string(), score: z.number(), profile: z.object({ rank: z.number() }) });
+    const users = [3, 2, 1].map((score) => ({
+        _id: new ObjectId(),
+        name: `User ${score}`,
+        score,
+        profile: { rank: 4 - score },
+    }));
+
+    type User = WithId<z.infer<typeof schema>>;
+    const createModel = (db: Db) =>
+        new Model<User, typeof schema.shape>("users", schema, db, {
+            hiddenFields: ["score", "profile.rank"],
+            paginationSecret: "secret",
+        });
+
+    it("should build the cursor tokens from hidden sort fields, and hide them from the items", async () => {
+        const { db, calls } = fakeCollection({ find: () => fakeCursor(users) });
+
+        const page = await createModel(db).paginateByCursor({}, { limit: 2, sort: { score: -1, "profile.rank": 1 } });
+
+        assert.isTrue(page.hasNext);
+        assert.deepEqual(page.items, users.slice(0, 2).map(({ _id, name }) => ({ _id, name, profile: {} })) as any);
+        assert.isUndefined(calls[0].args[1].projection);
+        assert.deepInclude(calls[0].args[1], { sort: { score: -1, "profile.rank": 1, _id: 1 }, limit: 3 });
+
+        const sort: [string, 1 | -1][] = [
+            ["score", -1],
+            ["profile.rank", 1],
+            ["_id", 1],
+        ];
+        assert.deepEqual(decodeCursorToken(page.next!, sort, "secret"), [2, 2, users[1]._id]);
+    });
+
+    it("should return the last page without a cursor token", async () => {
+        const { db } = fakeCollection({ find: () => fakeCursor(users.slice(2)) });
+
+        const page = await createModel(db).paginateByCursor({}, { limit: 2, sort: { score: -1 } });
+        assert.deepEqual(page, {
+            items: [{ _id: users[2]._id, name: "User 1", profile: {} }] as any,
+            next: null,
+            hasNext: false,
+        });
+    });
+});
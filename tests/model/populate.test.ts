@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import { ZodRef } from "../../src/schemas/ref.js";
+import InvalidRefPathError from "../../src/errors/model/invalidRefPath.js";
+
+import { cloneDocument, fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection returning the documents whose `_id` is in the `$in` filter, or all of them. */
+function fakeStore(docs: Record<string, any>[]) {
+    return fakeCollection({
+        find: (filter: any) =>
+            fakeCursor(
+                filter._id?.$in ? docs.filter((doc) => filter._id.$in.some((id: ObjectId) => id.equals(doc._id))) : docs
+            ),
+        findOne: async () => (docs[0] ? cloneDocument(docs[0]) : null),
+    });
+}
+
+describe("model.populate", () => {
+    const acme = { _id: new ObjectId(), name: "Acme" };
+    const globex = { _id: new ObjectId(), name: "Globex" };
+    const orgs = fakeStore([acme, globex]);
+    const OrgModel = new Model("orgs", z.object({ name: z.string() }), orgs.db);
+
+    const schema = z.object({
+        name: z.string(),
+        org: ZodRef(() => OrgModel),
+        previousOrgs: z.array(ZodRef(() => OrgModel)).optional(),
+        profile: z.object({ employer: ZodRef(() => OrgModel).optional() }).optional(),
+    });
+    const john = { _id: new ObjectId(), name: "John", org: acme._id, previousOrgs: [globex._id, acme._id] };
+    const jane = { _id: new ObjectId(), name: "Jane", org: acme._id, profile: { employer: new ObjectId() } };
+
+    beforeEach(() => orgs.calls.splice(0));
+
+    it("should validate references as ObjectIds, coercing strings", () => {
+        const id = new ObjectId();
+
+        assert.deepEqual(schema.shape.org.parse(id.toHexString()), id);
+        assert.strictEqual(schema.shape.org.parse(id), id);
+        assert.isFalse(schema.shape.org.safeParse("invalid").success);
+    });
+
+    it("should replace the references of single, array and nested paths with batched queries", async () => {
+        const UserModel = new Model("users", schema, fakeStore([john, jane]).db);
+
+        const users = await UserModel.find({}, { populate: ["org", "previousOrgs", "profile.employer"] });
+
+        assert.deepEqual(users, [
+            { ...john, org: acme, previousOrgs: [globex, acme] },
+            { ...jane, org: acme, profile: { employer: null } },
+        ] as any);
+        assert.deepEqual(
+            orgs.calls.map(({ args }) => args[0]._id.$in),
+            [[acme._id], [globex._id, acme._id], [jane.profile.employer]]
+        );
+    });
+
+    it("should populate the documents of findOne, and leave the unpopulated paths untouched", async () => {
+        const UserModel = new Model("users", schema, fakeStore([john]).db);
+
+        const user = await UserModel.findOne({ name: "John" }, { populate: ["previousOrgs.<idx>"] });
+
+        assert.deepEqual(user, { ...john, previousOrgs: [globex, acme] } as any);
+        assert.lengthOf(orgs.calls, 1);
+    });
+
+    it("should throw InvalidRefPathError for paths that are not references", async () => {
+        const UserModel = new Model("users", schema, fakeStore([john]).db);
+
+        try {
+            await UserModel.find({}, { populate: ["name"] });
+            assert.fail("Expected an InvalidRefPathError.");
+        } catch (error) {
+            assert.instanceOf(error, InvalidRefPathError);
+        }
+    });
+});
@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import ValidateError from "../../src/errors/validateError.js";
+import InvalidUpgradeChainError from "../../src/errors/model/invalidUpgradeChain.js";
+
+import { cloneDocument, fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection returning the documents, recording the options and writes it receives. */
+function fakeStore(docs: Record<string, any>[]) {
+    return fakeCollection({
+        find: () => fakeCursor(docs),
+        findOne: async () => cloneDocument(docs[0]),
+        findOneAndUpdate: async () => cloneDocument(docs[0]),
+        insertOne: async (doc: any) => ({ acknowledged: true, insertedId: doc._id }),
+        bulkWrite: async () => ({}),
+    });
+}
+
+describe("model.schemaVersion", () => {
+    const schema = z.object({ firstName: z.string(), lastName: z.string(), tags: z.array(z.string()) });
+    const schemaVersion = {
+        version: 3,
+        upgrades: [
+            {
+                version: 1,
+                schema: z.object({ name: z.string() }),
+                up: ({ name, ...doc }: { name: string }) => {
+                    const [firstName, lastName] = name.split(" ");
+                    return { ...doc, firstName, lastName };
+                },
+            },
+            {
+                version: 2,
+                schema: z.object({ firstName: z.string(), lastName: z.string() }),
+                up: (doc: Record<string, unknown>) => ({ ...doc, tags: [] }),
+            },
+        ],
+    };
+    const v1 = { _id: new ObjectId(), name: "John Doe" };
+    const v3 = { _id: new ObjectId(), firstName: "Jane", lastName: "Doe", tags: ["admin"], _schemaVersion: 3 };
+
+    it("should upgrade the documents read to the current version before validating them", async () => {
+        const { db, calls } = fakeStore([v1, v3]);
+        const model = new Model("users", schema, db, { checkOnGet: true, schemaVersion });
+
+        const users = await model.find();
+        assert.deepEqual(users, [
+            { _id: v1._id, firstName: "John", lastName: "Doe", tags: [], _schemaVersion: 3 },
+            v3,
+        ] as any);
+        assert.isUndefined(calls.find((call) => call.method === "bulkWrite"));
+
+        const user = await model.findOneAndUpdate({ _id: v1._id }, { tags: ["a"] });
+        assert.deepEqual(user?.firstName, "John");
+    });
+
+    it("should read the version field with inclusion projections, and validate only the projected fields", async () => {
+        const { db, calls } = fakeStore([{ _id: v1._id, name: "John Doe" }]);
+        const model = new Model("users", schema, db, { schemaVersion });
+
+        const user = await model.findOne({}, { projection: { firstName: 1 } });
+        assert.deepEqual(calls[0].args[1].projection, { firstName: 1, _schemaVersion: 1 });
+        assert.deepEqual(user, { _id: v1._id, firstName: "John", lastName: "Doe", tags: [], _schemaVersion: 3 } as any);
+
+        const invalid = fakeStore([{ _id: v1._id, name: 42 }]);
+        try {
+            await new Model("users", schema, invalid.db, { schemaVersion }).find();
+            assert.fail("Expected a ValidateError");
+        } catch (error) {
+            assert.instanceOf(error, ValidateError);
+        }
+    });
+
+    it("should persist the upgraded documents in write-back mode", async () => {
+        const { db, calls } = fakeStore([v1, v3]);
+        const model = new Model("users", schema, db, { schemaVersion: { ...schemaVersion, writeBack: true } });
+
+        await model.find();
+        const [writes] = calls.find((call) => call.method === "bulkWrite")!.args;
+        assert.deepEqual(writes, [
+            {
+                updateOne: {
+                    filter: { _id: v1._id, _schemaVersion: null },
+                    update: {
+                        $set: { firstName: "John", lastName: "Doe", tags: [], _schemaVersion: 3 },
+                        $unset: { name: "" },
+                    },
+                },
+            },
+        ]);
+    });
+
+    it("should not persist partial documents in write-back mode, e.g. read with hidden fields", async () => {
+        const { db, calls } = fakeStore([v1]);
+        const model = new Model("users", schema, db, {
+            hiddenFields: ["tags"],
+            schemaVersion: { ...schemaVersion, writeBack: true },
+        });
+
+        const user = await model.findOne({ _id: v1._id });
+        assert.deepEqual(calls[0].args[1].projection, { tags: 0 });
+        assert.deepEqual(user, { _id: v1._id, firstName: "John", lastName: "Doe", _schemaVersion: 3 } as any);
+        assert.isUndefined(calls.find((call) => call.method === "bulkWrite"));
+    });
+
+    it("should not persist the documents returned by findOneAnd* operations in write-back mode", async () => {
+        const { db, calls } = fakeStore([v1]);
+        const model = new Model("users", schema, db, { schemaVersion: { ...schemaVersion, writeBack: true } });
+
+        const user = await model.findOneAndUpdate({ _id: v1._id }, { firstName: "Johnny" });
+        assert.deepEqual(user?.firstName, "John");
+        assert.isUndefined(calls.find((call) => call.method === "bulkWrite"));
+    });
+
+    it("should stamp the current version on inserted documents", async () => {
+        const { db, calls } = fakeStore([]);
+        const model = new Model("users", schema, db, { schemaVersion: { ...schemaVersion, key: "sv" } });
+
+        const user = await model.insertOne({ firstName: "John", lastName: "Doe", tags: [] });
+        assert.strictEqual(calls[0].args[0].sv, 3);
+        assert.strictEqual(user.sv, 3);
+    });
+
+    it("should reject incomplete upgrade chains", () => {
+        const { db } = fakeStore([]);
+        assert.throws(
+            () => new Model("users", schema, db, { schemaVersion: { version: 4, upgrades: schemaVersion.upgrades } }),
+            InvalidUpgradeChainError
+        );
+    });
+});
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { Model } from "../../src/model.js";
+
+import { fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection recording the filters, updates and pipelines it receives. */
+function fakeStore() {
+    const result = { acknowledged: true, matchedCount: 1, modifiedCount: 1, upsertedCount: 0, upsertedId: null };
+    return fakeCollection({
+        find: () => fakeCursor([]),
+        countDocuments: async () => 0,
+        updateOne: async () => result,
+        updateMany: async () => result,
+        deleteMany: async () => ({ acknowledged: true, deletedCount: 1 }),
+        aggregate: () => fakeCursor([]),
+        findOneAndUpdate: async () => null,
+        replaceOne: async () => result,
+        findOneAndReplace: async () => null,
+        bulkWrite: async () => ({ ok: 1 }),
+    });
+}
+
+describe("model.softDelete", () => {
+    const schema = z.object({ name: z.string(), password: z.string() });
+
+    it("should mark deleted documents instead of removing them, and force delete them", async () => {
+        const { db, calls } = fakeStore();
+        const model = new Model("users", schema, db, { softDelete: { deletedAt: "removed_at" } });
+
+        const deleted = await model.deleteOne({ name: "John" });
+        await model.forceDelete({ name: "John" });
+
+        assert.deepEqual(deleted, { acknowledged: true, deletedCount: 1 });
+        assert.strictEqual(calls[0].method, "updateOne");
+        assert.deepEqual(calls[0].args[0], { name: "John", removed_at: null });
+        assert.instanceOf(calls[0].args[1].$set.removed_at, Date);
+        assert.strictEqual(calls[1].method, "deleteMany");
+        assert.deepEqual(calls[1].args[0], { name: "John" });
+    });
+
+    it("should exclude soft-deleted documents, unless read from the withDeleted or onlyDeleted views", async () => {
+        const { db, calls } = fakeStore();
+        const model = new Model("users", schema, db, { softDelete: true });
+
+        await model.find({ name: "John" });
+        await model.withDeleted().find({ name: "John" });
+        await model.onlyDeleted().countDocuments({ name: "John" });
+        await model.find({ deletedAt: { $lt: new Date(0) } });
+
+        assert.deepEqual(calls[0].args[0], { name: "John", deletedAt: null });
+        assert.deepEqual(calls[1].args[0], { name: "John" });
+        assert.deepEqual(calls[2].args[0], { name: "John", deletedAt: { $ne: null } });
+        assert.deepEqual(calls[3].args[0], { deletedAt: { $lt: new Date(0) } });
+    });
+
+    it("should not update or replace soft-deleted documents, unless from the withDeleted view", async () => {
+        const { db, calls } = fakeStore();
+        const model = new Model("users", schema, db, { softDelete: true });
+
+        await model.updateOne({ name: "John" }, { name: "Jane" });
+        await model.findOneAndUpdate({ name: "John" }, { name: "Jane" });
+        await model.replaceOne({ name: "John" }, { name: "Jane", password: "hash" });
+        await model.findOneAndReplace({ name: "John" }, { name: "Jane", password: "hash" });
+        await model.bulkWrite([
+            { updateMany: { filter: { name: "John" }, update: { $set: { name: "Jane" } } } },
+            { replaceOne: { filter: { name: "John" }, replacement: { name: "Jane", password: "hash" } } },
+        ]);
+        await model.withDeleted().updateMany({ name: "John" }, { name: "Jane" });
+
+        assert.deepEqual(
+            calls.slice(0, 4).map(({ args }) => args[0]),
+            Array(4).fill({ name: "John", deletedAt: null })
+        );
+        assert.deepEqual(
+            calls[4].args[0].map(
+                (operation: Record<string, { filter: unknown }>) => Object.values(operation)[0].filter
+            ),
+            Array(2).fill({ name: "John", deletedAt: null })
+        );
+        assert.deepEqual(calls[5].args[0], { name: "John" });
+    });
+
+    it("should restore the soft-deleted documents only", async () => {
+        const { db, calls } = fakeStore();
+        const model = new Model("users", schema, db, { softDelete: true });
+
+        const result = await model.restore({ name: "John" });
+        assert.strictEqual(result.modifiedCount, 1);
+        assert.deepEqual(calls[0].args[0], { name: "John", deletedAt: { $ne: null } });
+        assert.deepEqual(calls[0].args[1], { $set: {}, $unset: { deletedAt: "" } });
+
+        const disabled = fakeStore();
+        await new Model("users", schema, disabled.db).restore({ name: "John" });
+        assert.isEmpty(disabled.calls);
+    });
+
+    it("should run the update hooks and stamp updatedAt when restoring and soft-deleting documents", async () => {
+        const { db, calls } = fakeStore();
+        const model = new Model("users", schema, db, { softDelete: true, timestamps: true });
+        const operations: string[] = [];
+
+        model.pre("updateMany", (ctx) => {
+            operations.push(`pre:${ctx.operation}`);
+            assert.property(ctx.data, "deletedAt");
+            assert.isUndefined(ctx.data.deletedAt);
+        });
+        model.post("updateMany", (ctx) => {
+            operations.push(`post:${ctx.operation}`);
+        });
+
+        await model.restore({ name: "John" });
+        await model.deleteMany({ name: "John" });
+
+        assert.deepEqual(operations, ["pre:updateMany", "post:updateMany"]);
+        assert.deepEqual(calls[0].args[1].$unset, { deletedAt: "" });
+        assert.instanceOf(calls[0].args[1].$set.updatedAt, Date);
+        assert.instanceOf(calls[1].args[1].$set.deletedAt, Date);
+        assert.instanceOf(calls[1].args[1].$set.updatedAt, Date);
+    });
+
+    it("should scope aggregations after the stages that must come first", async () => {
+        const { db, calls } = fakeStore();
+        const model = new Model("users", schema, db, { softDelete: true, hiddenFields: ["password"] });
+        const group = { $group: { _id: "$name" } };
+
+        model.aggregate([group]);
+        model.withDeleted().aggregate([group]);
+        for (const first of [
+            { $geoNear: { near: [0, 0], distanceField: "distance" } },
+            { $search: { text: { query: "John", path: "name" } } },
+            { $vectorSearch: { index: "names", path: "embedding", queryVector: [0], limit: 5 } },
+        ])
+            model.aggregate([first, { $match: { name: "John" } }, group]);
+
+        assert.deepEqual(calls[0].args[0], [{ $match: { deletedAt: null } }, { $project: { password: 0 } }, group]);
+        assert.deepEqual(calls[1].args[0], [{ $project: { password: 0 } }, group]);
+        for (const { args } of calls.slice(2))
+            assert.deepEqual(args[0].slice(1), [
+                { $match: { deletedAt: null } },
+                { $match: { name: "John" } },
+                { $project: { password: 0 } },
+                group,
+            ]);
+        assert.deepEqual(
+            calls.slice(2).map(({ args }) => Object.keys(args[0][0])[0]),
+            ["$geoNear", "$search", "$vectorSearch"]
+        );
+    });
+});
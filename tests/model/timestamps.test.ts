@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+
+import { cloneDocument, fakeCollection } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection storing a single document (or none), recording the writes. */
+function fakeStore(stored: Record<string, any> | null) {
+    const result = { acknowledged: true, matchedCount: stored ? 1 : 0, modifiedCount: stored ? 1 : 0 };
+    return fakeCollection({
+        findOne: async () => stored && cloneDocument(stored),
+        insertOne: async (doc: any) => ({ acknowledged: true, insertedId: doc._id }),
+        updateOne: async () => result,
+        replaceOne: async () => result,
+        findOneAndReplace: async (_filter: unknown, replacement: any) => ({ _id: stored?._id, ...replacement }),
+        bulkWrite: async () => ({}),
+    });
+}
+
+describe("model.timestamps", () => {
+    const schema = z.object({ name: z.string() });
+    const _id = new ObjectId();
+    const createdAt = new Date("2024-01-01T00:00:00Z");
+    const stored = { _id, name: "John", createdAt, updatedAt: createdAt };
+
+    it("should stamp both fields on insert", async () => {
+        const { db, calls } = fakeStore(null);
+        const model = new Model("users", schema, db, { timestamps: true });
+
+        const user = await model.insertOne({ name: "John" });
+        assert.instanceOf(user.createdAt, Date);
+        assert.strictEqual(user.createdAt, user.updatedAt);
+        assert.strictEqual(calls[0].args[0].createdAt, user.createdAt);
+    });
+
+    it("should maintain updatedAt on updates, and set createdAt on upsert inserts only", async () => {
+        const { db, calls } = fakeStore(stored);
+        const model = new Model("users", schema, db, { timestamps: { createdAt: "created_at" } });
+
+        await model.updateOne({ _id }, { name: "Jane" });
+        await model.updateOne({ _id }, { name: "Jane" }, { upsert: true });
+
+        const [[, update], [, upsert]] = calls.map((call) => call.args);
+        assert.instanceOf(update.$set.updatedAt, Date);
+        assert.notProperty(update, "$setOnInsert");
+        assert.instanceOf(upsert.$setOnInsert.created_at, Date);
+    });
+
+    it("should keep the stored createdAt of replacements without one", async () => {
+        const { db, calls } = fakeStore(stored);
+        const model = new Model("users", schema, db, { timestamps: true });
+
+        await model.replaceOne({ _id }, { name: "Jane" });
+        const replaced = await model.findOneAndReplace({ _id }, { name: "Jane" });
+        await model.bulkWrite([{ replaceOne: { filter: { _id }, replacement: { name: "Jane" } } }]);
+
+        const [replacement] = calls.filter((call) => call.method === "replaceOne").map((call) => call.args[1]);
+        assert.strictEqual(replacement.createdAt.getTime(), createdAt.getTime());
+        assert.isAbove(replacement.updatedAt.getTime(), createdAt.getTime());
+        assert.strictEqual((replaced as any).createdAt.getTime(), createdAt.getTime());
+
+        const [[{ replaceOne }]] = calls.find((call) => call.method === "bulkWrite")!.args;
+        assert.strictEqual(replaceOne.replacement.createdAt.getTime(), createdAt.getTime());
+    });
+
+    it("should keep the createdAt carried by replacements, and stamp the upserted ones", async () => {
+        const carried = new Date("2023-01-01T00:00:00Z");
+        const { db, calls } = fakeStore(null);
+        const model = new Model("users", schema, db, { timestamps: true });
+
+        await model.replaceOne({ _id }, { name: "Jane", createdAt: carried } as any);
+        await model.replaceOne({ _id }, { name: "Jane" }, { upsert: true });
+
+        const [kept, upserted] = calls.filter((call) => call.method === "replaceOne").map((call) => call.args[1]);
+        assert.strictEqual(kept.createdAt.getTime(), carried.getTime());
+        assert.isAbove(upserted.createdAt.getTime(), carried.getTime());
+    });
+});
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { Model } from "../../src/model.js";
+import { LocalKeyProvider } from "../../src/keyProvider.js";
+import UnsupportedSchemaError from "../../src/errors/model/unsupportedSchema.js";
+
+import type { Db } from "mongodb";
+
+/** Creates a fake database holding the specified collections, recording the commands it receives. */
+function fakeDb(collections: string[]) {
+    const calls: { method: string; args: any[] }[] = [];
+    const db = {
+        collection: (name: string) => ({ collectionName: name }),
+        listCollections: (filter: { name: string }) => ({ hasNext: async () => collections.includes(filter.name) }),
+        createCollection: async (...args: any[]) => calls.push({ method: "createCollection", args }),
+        command: async (...args: any[]) => calls.push({ method: "command", args }),
+    };
+    return { db: db as unknown as Db, calls };
+}
+
+describe("model.syncValidator", () => {
+    const schema = z.object({ name: z.string(), ssn: z.string() });
+
+    it("should create the collection with the validator", async () => {
+        const { db, calls } = fakeDb([]);
+        const model = new Model("users", schema, db);
+
+        const { jsonSchema, created } = await model.syncValidator();
+        assert.isTrue(created);
+        assert.deepEqual(calls, [
+            {
+                method: "createCollection",
+                args: [
+                    "users",
+                    { validator: { $jsonSchema: jsonSchema }, validationLevel: "strict", validationAction: "error" },
+                ],
+            },
+        ]);
+    });
+
+    it("should modify an existing collection, validating encrypted fields as binary data", async () => {
+        const { db, calls } = fakeDb(["users"]);
+        const keyProvider = new LocalKeyProvider({ k1: Buffer.alloc(32) });
+        const model = new Model("users", schema, db, { encryptedFields: ["ssn"], encryption: { keyProvider } });
+
+        const { jsonSchema, created } = await model.syncValidator({ level: "moderate", action: "warn" });
+        assert.isFalse(created);
+        assert.deepEqual(jsonSchema.properties.ssn, { bsonType: "binData" });
+        assert.deepEqual(calls[0], {
+            method: "command",
+            args: [
+                {
+                    collMod: "users",
+                    validator: { $jsonSchema: jsonSchema },
+                    validationLevel: "moderate",
+                    validationAction: "warn",
+                },
+            ],
+        });
+    });
+
+    it("should reject unsupported schemas in strict mode", async () => {
+        const { db, calls } = fakeDb([]);
+        const model = new Model("users", z.object({ email: z.string().email() }), db);
+
+        try {
+            await model.syncValidator({ strict: true });
+            assert.fail("Expected an UnsupportedSchemaError");
+        } catch (error) {
+            assert.instanceOf(error, UnsupportedSchemaError);
+            assert.deepEqual((error as UnsupportedSchemaError).errorMap, [
+                { path: "email", reason: "String check 'email' is not supported." },
+            ]);
+        }
+        assert.lengthOf(calls, 0);
+    });
+});
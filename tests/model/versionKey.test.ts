@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import VersionConflictError from "../../src/errors/model/versionConflict.js";
+
+import { fakeCollection } from "../utils/fakeCollection.js";
+
+/** Creates a fake collection storing a single document, matching the writes that expect its version. */
+function fakeStore(stored: Record<string, any> | null) {
+    const result = (matched: unknown) => ({
+        acknowledged: true,
+        matchedCount: matched ? 1 : 0,
+        modifiedCount: matched ? 1 : 0,
+    });
+    const { db, calls } = fakeCollection({
+        findOne: async () => stored,
+        insertOne: async (doc: any) => ({ acknowledged: true, insertedId: doc._id }),
+        updateOne: async (filter: any) => result(stored && (filter.__v === undefined || filter.__v === stored.__v)),
+        replaceOne: async (filter: any) => result(stored && filter.__v === stored.__v),
+        findOneAndReplace: async (_filter: unknown, replacement: any) => replacement,
+        bulkWrite: async () => ({ ok: 1 }),
+    });
+
+    // The inserted document is recorded as the update of an empty filter
+    const writes = () =>
+        calls
+            .filter((call) => call.method !== "findOne")
+            .map(({ method, args }) =>
+                method === "insertOne" ? { filter: {}, update: args[0] } : { filter: args[0], update: args[1] }
+            );
+    return { db, calls, writes };
+}
+
+describe("model.versionKey", () => {
+    const schema = z.object({ name: z.string() });
+    const _id = new ObjectId();
+
+    it("should start inserted documents at version 0 and increment it on updates", async () => {
+        const { db, writes } = fakeStore({ _id, name: "John", __v: 3 });
+        const model = new Model("users", schema, db, { versionKey: true });
+
+        await model.insertOne({ name: "John" });
+        await model.updateOne({ _id }, { name: "Jane" });
+
+        assert.strictEqual(writes()[0].update.__v, 0);
+        assert.deepEqual(writes()[1].filter, { _id });
+        assert.deepEqual(writes()[1].update.$inc, { __v: 1 });
+    });
+
+    it("should expect the version carried by updates and replacements", async () => {
+        const { db, writes } = fakeStore({ _id, name: "John", __v: 3 });
+        const model = new Model("users", schema, db, { versionKey: true });
+
+        const replacement = { name: "Jane", __v: 3 };
+        await model.updateOne({ _id }, { name: "Jane", __v: 3 });
+        await model.replaceOne({ _id }, replacement);
+
+        assert.deepEqual(writes()[0].filter, { _id, __v: 3 });
+        assert.deepEqual(writes()[0].update.$set, { name: "Jane" });
+        assert.deepEqual(writes()[1].filter, { _id, __v: 3 });
+        assert.strictEqual(writes()[1].update.__v, 4);
+    });
+
+    it("should throw a VersionConflictError carrying the stored version on a mismatch", async () => {
+        const { db } = fakeStore({ _id, name: "John", __v: 5 });
+        const model = new Model("users", schema, db, { versionKey: true });
+        const replacement = { name: "Jane", __v: 3 };
+
+        for (const write of [
+            () => model.updateOne({ _id }, { name: "Jane", __v: 3 }),
+            () => model.replaceOne({ _id }, replacement),
+        ]) {
+            try {
+                await write();
+                assert.fail("Expected a VersionConflictError");
+            } catch (err) {
+                assert.instanceOf(err, VersionConflictError);
+                assert.strictEqual((err as VersionConflictError).currentVersion, 5);
+            }
+        }
+    });
+
+    it("should version replacements without a version with the stored one", async () => {
+        const { db, writes } = fakeStore({ _id, name: "John", __v: 2 });
+        const model = new Model("users", schema, db, { versionKey: "__v" });
+
+        await model.replaceOne({ _id }, { name: "Jane" });
+        assert.deepEqual(writes()[0].filter, { _id, __v: 2 });
+        assert.strictEqual(writes()[0].update.__v, 3);
+    });
+
+    it("should read the stored version and createdAt of replacements with a single projected read", async () => {
+        const createdAt = new Date(0);
+        const { db, calls } = fakeStore({ _id, name: "John", __v: 2, createdAt });
+        const model = new Model("users", schema, db, { versionKey: true, timestamps: true });
+
+        await model.replaceOne({ _id }, { name: "Jane" });
+        await model.findOneAndReplace({ _id }, { name: "Jane" });
+        await model.bulkWrite([{ replaceOne: { filter: { _id }, replacement: { name: "Jane" } } }]);
+
+        const reads = calls.filter((call) => call.method === "findOne");
+        assert.lengthOf(reads, 3);
+        for (const { args } of reads) assert.deepEqual(args[1].projection, { createdAt: 1, __v: 1 });
+
+        for (const method of ["replaceOne", "findOneAndReplace"]) {
+            const replacement = calls.find((call) => call.method === method)!.args[1];
+            assert.strictEqual(replacement.__v, 3);
+            assert.strictEqual(replacement.createdAt, createdAt);
+        }
+    });
+});
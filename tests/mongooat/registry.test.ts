@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { assert } from "chai";
+import Mongooat from "../../src/mongooat.js";
+import ModelExistedError from "../../src/errors/modelExisted.js";
+
+describe("mongooat.registry", () => {
+    const schema = z.object({ name: z.string() });
+
+    it("should register the models by name", () => {
+        const mongooat = new Mongooat("mongodb://localhost:27017/test");
+        const UserModel = mongooat.Model("users", schema);
+        const PostModel = mongooat.Model("posts", schema);
+
+        assert.strictEqual(mongooat.getModel("users"), UserModel);
+        assert.isTrue(mongooat.hasModel("posts"));
+        assert.isFalse(mongooat.hasModel("comments"));
+        assert.isUndefined(mongooat.getModel("comments"));
+        assert.deepEqual(
+            [...mongooat.models.entries()],
+            [
+                ["users", UserModel],
+                ["posts", PostModel],
+            ]
+        );
+    });
+
+    it("should throw ModelExistedError when a name is registered twice", () => {
+        const mongooat = new Mongooat("mongodb://localhost:27017/test");
+        const UserModel = mongooat.Model("users", schema);
+
+        assert.throws(() => mongooat.Model("users", z.object({ email: z.string() })), ModelExistedError);
+        assert.strictEqual(mongooat.getModel("users"), UserModel);
+    });
+
+    it("should register a name again once removed", () => {
+        const mongooat = new Mongooat("mongodb://localhost:27017/test");
+        mongooat.Model("users", schema);
+
+        assert.isTrue(mongooat.removeModel("users"));
+        assert.isFalse(mongooat.removeModel("users"));
+        assert.isFalse(mongooat.hasModel("users"));
+
+        const UserModel = mongooat.Model("users", schema);
+        assert.strictEqual(mongooat.getModel("users"), UserModel);
+    });
+
+    it("should keep the registries of the instances apart", () => {
+        const first = new Mongooat("mongodb://localhost:27017/test");
+        const second = new Mongooat("mongodb://localhost:27017/test");
+
+        first.Model("users", schema);
+        assert.doesNotThrow(() => second.Model("users", schema));
+        assert.notStrictEqual(first.getModel("users"), second.getModel("users"));
+    });
+});
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { Model } from "../../src/model.js";
+import Mongooat from "../../src/mongooat.js";
+
+import { fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+import type { ClientSession } from "mongodb";
+
+/** Replaces the client sessions of the instance with fake ones running the transactions once. */
+function fakeSessions(mongooat: Mongooat) {
+    const sessions: { inTransaction: () => boolean; ended: boolean }[] = [];
+    mongooat.getBase().startSession = () => {
+        let running = false;
+        const session = {
+            ended: false,
+            inTransaction: () => running,
+            withTransaction: async (fn: (session: ClientSession) => Promise<unknown>) => {
+                running = true;
+                try {
+                    return await fn(session as unknown as ClientSession);
+                } finally {
+                    running = false;
+                }
+            },
+            endSession: async () => void (session.ended = true),
+        };
+        sessions.push(session);
+        return session as unknown as ClientSession;
+    };
+    return sessions;
+}
+
+/** Creates a fake collection acknowledging the operations it receives. */
+function fakeStore() {
+    const result = { acknowledged: true, matchedCount: 1, modifiedCount: 1, upsertedCount: 0, upsertedId: null };
+    return fakeCollection({
+        insertOne: async (doc: any) => ({ acknowledged: true, insertedId: doc._id }),
+        updateOne: async () => result,
+        find: () => fakeCursor([]),
+        aggregate: () => fakeCursor([]),
+        bulkWrite: async () => ({}),
+    });
+}
+
+describe("mongooat.transaction", () => {
+    const schema = z.object({ name: z.string() });
+
+    it("should pass the session of the transaction to every model operation", async () => {
+        const mongooat = new Mongooat("mongodb://localhost:27017/test");
+        const sessions = fakeSessions(mongooat);
+        const { db, calls } = fakeStore();
+        const model = new Model("users", schema, db, {}, mongooat);
+
+        const result = await mongooat.transaction(async (session) => {
+            assert.strictEqual(mongooat.session, session);
+
+            await model.insertOne({ name: "John" });
+            await model.updateOne({ name: "John" }, { name: "Jane" });
+            await model.find({ name: "Jane" });
+            await model.aggregate([{ $match: { name: "Jane" } }]).toArray();
+            await model.bulkWrite([{ deleteOne: { filter: { name: "Jane" } } }]);
+            return "done";
+        });
+
+        assert.strictEqual(result, "done");
+        assert.lengthOf(sessions, 1);
+        assert.isTrue(sessions[0].ended);
+        assert.isUndefined(mongooat.session);
+        assert.deepEqual(
+            calls.map(({ method }) => method),
+            ["insertOne", "updateOne", "find", "aggregate", "bulkWrite"]
+        );
+        for (const { args } of calls) assert.strictEqual(args.at(-1).session, sessions[0]);
+    });
+
+    it("should keep the explicit sessions, and not pass any session outside of transactions", async () => {
+        const mongooat = new Mongooat("mongodb://localhost:27017/test");
+        fakeSessions(mongooat);
+        const { db, calls } = fakeStore();
+        const model = new Model("users", schema, db, {}, mongooat);
+        const explicit = {} as ClientSession;
+
+        await mongooat.transaction(() => model.find({}, { session: explicit }));
+        await model.find();
+
+        assert.strictEqual(calls[0].args[1].session, explicit);
+        assert.isUndefined(calls[1].args[1]?.session);
+    });
+
+    it("should reuse the running transaction in nested calls, and end the session on errors", async () => {
+        const mongooat = new Mongooat("mongodb://localhost:27017/test");
+        const sessions = fakeSessions(mongooat);
+
+        try {
+            await mongooat.transaction(async (outer) => {
+                await mongooat.transaction(async (inner) => assert.strictEqual(inner, outer));
+                throw new Error("abort");
+            });
+            assert.fail("Expected the transaction to reject.");
+        } catch (error) {
+            assert.strictEqual((error as Error).message, "abort");
+        }
+
+        assert.lengthOf(sessions, 1);
+        assert.isTrue(sessions[0].ended);
+    });
+});
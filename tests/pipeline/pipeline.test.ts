@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import ValidateError from "../../src/errors/validateError.js";
+
+import { fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+import type { Db, WithId } from "mongodb";
+
+describe("pipeline", () => {
+    const schema = z.object({
+        name: z.string(),
+        age: z.number(),
+        orgId: z.instanceof(ObjectId),
+        address: z.object({ city: z.string() }),
+        roles: z.array(z.string()),
+    });
+    const orgSchema = z.object({ name: z.string() });
+
+    type User = WithId<z.infer<typeof schema>>;
+    type Org = WithId<z.infer<typeof orgSchema>>;
+    const createModel = (db: Db) => new Model<User, typeof schema.shape>("users", schema, db);
+    const OrgModel = new Model<Org, typeof orgSchema.shape>("orgs", orgSchema, {
+        collection: () => ({ collectionName: "orgs" }),
+    } as unknown as Db);
+
+    it("should build the stages in order, without mutating the previous pipelines", () => {
+        const model = createModel(fakeCollection().db);
+        const adults = model.aggregate().match({ age: { $gte: 18 } });
+
+        const pipeline = adults
+            .unwind("$roles")
+            .lookup({ from: OrgModel, localField: "orgId", foreignField: "_id", as: "orgs" })
+            .addFields({ city: "$address.city" })
+            .group({ _id: "$city", count: { $sum: 1 }, names: { $push: "$name" } })
+            .sort({ count: -1 })
+            .skip(5)
+            .limit(10)
+            .project({ count: 1, names: 1 });
+
+        assert.deepEqual(adults.stages, [{ $match: { age: { $gte: 18 } } }]);
+        assert.deepEqual(pipeline.stages, [
+            { $match: { age: { $gte: 18 } } },
+            { $unwind: "$roles" },
+            {
+                $lookup: {
+                    from: "orgs",
+                    let: { localField: "$orgId" },
+                    pipeline: [{ $match: { $expr: { $eq: ["$_id", "$$localField"] } } }],
+                    as: "orgs",
+                },
+            },
+            { $addFields: { city: "$address.city" } },
+            { $group: { _id: "$city", count: { $sum: 1 }, names: { $push: "$name" } } },
+            { $sort: { count: -1 } },
+            { $skip: 5 },
+            { $limit: 10 },
+            { $project: { count: 1, names: 1 } },
+        ]);
+    });
+
+    it("should scope the joined documents, and exclude their hidden fields", () => {
+        const secretSchema = orgSchema.extend({ secret: z.string() });
+        const SecretOrgModel = new Model<Org & { secret: string }, typeof secretSchema.shape>(
+            "orgs",
+            secretSchema,
+            fakeCollection().db,
+            { softDelete: true, hiddenFields: ["secret"] }
+        );
+
+        const pipeline = createModel(fakeCollection().db)
+            .aggregate()
+            .lookup({ from: SecretOrgModel, localField: "orgId", foreignField: "_id", as: "orgs" });
+
+        assert.deepEqual(pipeline.stages[0].$lookup.pipeline, [
+            { $match: { $expr: { $eq: ["$_id", "$$localField"] } } },
+            { $match: { deletedAt: null } },
+            { $project: { secret: 0 } },
+        ]);
+    });
+
+    it("should build the sub-pipelines of facets, and count the documents", () => {
+        const model = createModel(fakeCollection().db);
+
+        const pipeline = model.aggregate().facet({
+            adults: (p) => p.match({ age: { $gte: 18 } }).count("total"),
+            names: (p) => p.sort({ "address.city": 1 }).project({ name: 1 }),
+        });
+
+        assert.deepEqual(pipeline.stages, [
+            {
+                $facet: {
+                    adults: [{ $match: { age: { $gte: 18 } } }, { $count: "total" }],
+                    names: [{ $sort: { "address.city": 1 } }, { $project: { name: 1 } }],
+                },
+            },
+        ]);
+    });
+
+    it("should run the stages through the model's aggregate", async () => {
+        const { db, calls } = fakeCollection({ aggregate: () => fakeCursor([{ _id: "Paris", count: 2 }]) });
+
+        const cities = await createModel(db)
+            .aggregate()
+            .group({ _id: "$address.city", count: { $sum: 1 } })
+            .exec(undefined, { allowDiskUse: true });
+
+        assert.deepEqual(cities, [{ _id: "Paris", count: 2 }]);
+        assert.deepEqual(calls[0].args[0], [{ $group: { _id: "$address.city", count: { $sum: 1 } } }]);
+        assert.include(calls[0].args[1], { allowDiskUse: true });
+    });
+
+    it("should validate the output documents with the provided schema", async () => {
+        const { db } = fakeCollection({ aggregate: () => fakeCursor([{ _id: "Paris", count: "2" }]) });
+        const pipeline = createModel(db)
+            .aggregate()
+            .group({ _id: "$address.city", count: { $sum: 1 } });
+
+        const coerced = await pipeline.exec(z.object({ _id: z.string(), count: z.coerce.number() }));
+        assert.deepEqual(coerced, [{ _id: "Paris", count: 2 }]);
+
+        try {
+            await pipeline.exec(z.object({ _id: z.string(), count: z.number() }));
+            assert.fail("Expected a ValidateError.");
+        } catch (error) {
+            assert.instanceOf(error, ValidateError);
+        }
+    });
+});
@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { assert } from "chai";
+import { ObjectId } from "mongodb";
+import { Model } from "../../src/model.js";
+import MissingQueryPathError from "../../src/errors/missingQueryPath.js";
+
+import { fakeCollection, fakeCursor } from "../utils/fakeCollection.js";
+
+import type { Db, WithId } from "mongodb";
+
+/** Creates a fake collection returning the documents, recording the filters and options it receives. */
+function fakeStore(docs: Record<string, any>[] = []) {
+    return fakeCollection({
+        find: () => fakeCursor(docs),
+        countDocuments: async () => docs.length,
+        distinct: async () => ["Paris"],
+    });
+}
+
+describe("query", () => {
+    const schema = z.object({
+        name: z.string(),
+        age: z.number(),
+        password: z.string(),
+        address: z.object({ city: z.string(), country: z.string() }),
+        roles: z.array(z.object({ name: z.string() })),
+    });
+    const john = {
+        _id: new ObjectId(),
+        name: "John",
+        age: 30,
+        password: "hash",
+        address: { city: "Paris", country: "France" },
+        roles: [{ name: "admin" }],
+    };
+
+    type User = WithId<z.infer<typeof schema>>;
+    const createModel = (db: Db) =>
+        new Model<User, typeof schema.shape>("users", schema, db, { hiddenFields: ["password"] });
+
+    it("should build the filter from the conditions of the selected paths", () => {
+        const query = createModel(fakeStore().db)
+            .query()
+            .where("address.city")
+            .eq("Paris")
+            .where("age")
+            .gte(18)
+            .lt(65)
+            .where("roles.<idx>.name")
+            .in(["admin", "editor"])
+            .where("name")
+            .regex(/^J/);
+
+        assert.deepEqual(query.filter, {
+            "address.city": { $eq: "Paris" },
+            age: { $gte: 18, $lt: 65 },
+            "roles.name": { $in: ["admin", "editor"] },
+            name: { $regex: /^J/ },
+        } as any);
+    });
+
+    it("should combine the raw filters and the conditions with $and", () => {
+        const model = createModel(fakeStore().db);
+
+        assert.deepEqual(model.query().filter, {});
+        assert.deepEqual(model.query().where({ name: "John" }).filter, { name: "John" });
+        assert.deepEqual(model.query().where({ name: "John" }).where("age").ne(30).filter, {
+            $and: [{ name: "John" }, { age: { $ne: 30 } }],
+        } as any);
+    });
+
+    it("should build the find options", () => {
+        const query = createModel(fakeStore().db)
+            .query()
+            .sort({ age: -1, "roles.<idx>.name": 1 })
+            .skip(10)
+            .limit(20)
+            .hint({ age: 1 })
+            .select(["name", "address.city"]);
+
+        assert.deepEqual(query.options, {
+            sort: { age: -1, "roles.name": 1 },
+            skip: 10,
+            limit: 20,
+            hint: { age: 1 },
+            projection: { name: 1, "address.city": 1 },
+        });
+    });
+
+    it("should execute the query with find, honoring the hidden fields", async () => {
+        const { db, calls } = fakeStore([john]);
+
+        const users = await createModel(db).query().where("age").gte(18).sort({ age: -1 }).limit(5).exec();
+
+        assert.deepEqual(calls[0].args[0], { age: { $gte: 18 } });
+        assert.deepInclude(calls[0].args[1], { sort: { age: -1 }, limit: 5, projection: { password: 0 } });
+        const { password, ...visible } = john;
+        assert.deepEqual(users, [visible] as any);
+    });
+
+    it("should count, check and find the distinct values of the matching documents", async () => {
+        const { db, calls } = fakeStore([john]);
+        const query = createModel(db).query().where("age").gte(18).skip(10);
+
+        assert.strictEqual(await query.count(), 1);
+        assert.isTrue(await query.exists());
+        assert.deepEqual(await query.distinct("address.city"), ["Paris"]);
+
+        assert.deepEqual(
+            calls.map(({ method, args }) => [method, args[0]]),
+            [
+                ["countDocuments", { age: { $gte: 18 } }],
+                ["countDocuments", { age: { $gte: 18 } }],
+                ["distinct", "address.city"],
+            ]
+        );
+        assert.deepInclude(calls[1].args[1], { limit: 1 });
+        assert.deepEqual(calls[2].args[1], { age: { $gte: 18 } });
+    });
+
+    it("should iterate over the matching documents", async () => {
+        const { db } = fakeStore([john, { ...john, _id: new ObjectId() }]);
+        const names: string[] = [];
+
+        for await (const user of createModel(db).query().select(["name"])) names.push(user.name);
+        assert.deepEqual(names, ["John", "John"]);
+    });
+
+    it("should throw MissingQueryPathError for conditions without a selected path", () => {
+        const query = createModel(fakeStore().db).query();
+        assert.throws(() => query.eq(undefined as never), MissingQueryPathError);
+    });
+});
@@ -0,0 +1,73 @@
+import type { Collection, Db } from "mongodb";
+
+/** The name of a method of a MongoDB collection. */
+export type CollectionMethod = {
+    [K in keyof Collection]: Collection[K] extends Function ? K : never;
+}[keyof Collection];
+
+/** The methods implemented by a fake collection. */
+export type FakeCollectionMethods = { [K in CollectionMethod]?: (...args: any[]) => unknown };
+
+/** A call received by a fake collection. */
+export type FakeCall = { method: CollectionMethod; args: any[] };
+
+/**
+ * Creates a fake database whose collections implement the specified methods, recording the calls they receive.
+ * Only the methods used by the tested operations need to be implemented.
+ *
+ * @example
+ * const { db, calls } = fakeCollection({ findOne: async () => ({ _id: new ObjectId(), name: "John" }) });
+ * const user = await new Model("users", schema, db).findOne({ name: "John" });
+ * assert.deepEqual(calls[0].args[0], { name: "John" });
+ */
+export function fakeCollection(methods: FakeCollectionMethods = {}) {
+    const calls: FakeCall[] = [];
+    const collection: FakeCollectionMethods = {};
+
+    for (const [method, fn] of Object.entries(methods) as [CollectionMethod, (...args: any[]) => unknown][])
+        collection[method] = (...args: any[]) => {
+            calls.push({ method, args });
+            return fn(...args);
+        };
+
+    return { db: { collection: () => collection } as unknown as Db, collection, calls };
+}
+
+/** Creates a fake driver cursor over copies of the documents, as returned by `find()` and `aggregate()`. */
+export function fakeCursor<T extends Record<string, any>>(docs: T[]) {
+    let index = 0;
+    const cursor = {
+        closed: false,
+        toArray: async () => docs.map(cloneDocument),
+        next: async () => (index < docs.length ? cloneDocument(docs[index++]) : null),
+        close: async () => void (cursor.closed = true),
+        async *[Symbol.asyncIterator]() {
+            yield* docs.map(cloneDocument);
+        },
+    };
+    return cursor;
+}
+
+/** Creates a fake change stream emitting copies of the events, as returned by `watch()` on a replica set. */
+export function fakeChangeStream<T extends Record<string, any>>(events: T[]) {
+    let index = 0;
+    const stream = {
+        closed: false,
+        next: async () => (index < events.length ? cloneDocument(events[index++]) : null),
+        close: async () => void (stream.closed = true),
+    };
+    return stream;
+}
+
+/**
+ * Copies the document and its nested objects and arrays, keeping the BSON values (e.g. `ObjectId`)
+ * unlike `structuredClone`.
+ */
+export function cloneDocument<T extends Record<string, any>>(doc: T): T {
+    return Object.fromEntries(Object.entries(doc).map(([key, value]) => [key, cloneValue(value)])) as T;
+}
+
+function cloneValue(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(cloneValue);
+    return value?.constructor === Object ? cloneDocument(value as Record<string, unknown>) : value;
+}